@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   LayoutDashboard,
@@ -12,12 +12,13 @@ import {
   Briefcase,
   ChevronRight,
   ChevronLeft,
+  ChevronDown,
+  Building2,
   Filter,
   Trash2,
   Calendar,
   X,
   FileText,
-  Printer,
   CalendarDays,
   ArrowRight,
   Percent,
@@ -27,7 +28,37 @@ import {
   Info,
   HelpCircle,
   Download,
-  Upload
+  Upload,
+  BedDouble,
+  Ban,
+  FileSpreadsheet,
+  Landmark,
+  CircleCheck,
+  Share2,
+  Pencil,
+  Undo2,
+  Redo2,
+  RotateCcw,
+  ScrollText,
+  Repeat,
+  House,
+  Sparkles,
+  Wrench,
+  Zap,
+  Tag,
+  Shirt,
+  Wifi,
+  Car,
+  ShoppingBag,
+  Droplets,
+  Receipt,
+  WashingMachine,
+  Tags,
+  Sun,
+  Gauge,
+  Users,
+  Star,
+  LucideIcon
 } from 'lucide-react';
 import { 
   BarChart, 
@@ -42,164 +73,753 @@ import {
   PieChart,
   Pie
 } from 'recharts';
-import { Transaction, TransactionType, Category } from './types';
+import { Transaction, TransactionType, Category, Booking, BookingChannel, TimeRange, BlockedDate, RecurringTemplate, RecurringFrequency, CategoryBudgets, CategoryDefinition, CategoryId, Property, ManagementFeeBase, ChannelFeeRules, IrpfTable, Guest } from './types';
 import { getFinancialInsights } from './services/geminiService';
+import { calculateOccupancy, createBookingTransactions, rebuildBookingTransactions, reuseTransactionIds, CHANNEL_COLORS } from './services/bookingService';
+import { buildChannelBreakdown, calculateChannelFee, createFeeTransaction, loadChannelFeeRules, CHANNEL_FEES_STORAGE_KEY } from './services/channelService';
+import { buildMonthCalendar, toggleBlockedNight, CalendarDay } from './services/calendarService';
+import { buildICalFeed, detectStays, expandBlockedStay, DetectedStay } from './services/icalService';
+import { parseStatement, reconcileStatement, ReconciliationItem } from './services/bankStatementService';
+import { buildCsvPreview, buildMappingFromPreset, detectPreset, parseCsv, CsvColumnMapping, CSV_PRESETS } from './services/csvImportService';
+import { addDays, daysBetween, getPeriodBounds, getWindowDays, parseDateKey, toDateKey } from './services/periodService';
+import { buildCumulativeComparison, groupByPeriodBucket, groupExpensesByCategory, summarizeTransactions, PeriodTotals } from './services/aggregationService';
+import { buildCarneLeaoSheets, buildReportSheets, buildTransactionsCsv, buildXlsx } from './services/spreadsheetService';
+import { buildCarneLeaoSummary, loadIrpfTables, IRPF_TABLES_STORAGE_KEY, MINIMUM_DARF } from './services/taxService';
+import { generateOwnerStatementPdf, generatePdfReport } from './services/pdfReportService';
+import { buildForecast, buildSeasonality, MIN_FORECAST_MONTHS } from './services/forecastService';
+import { buildGuestDirectory, findDuplicateGuestNames, findGuestByName, linkRecordsToGuest, loadGuests, normalizeGuestName, GUESTS_STORAGE_KEY } from './services/guestService';
+import { buildRateModel, calculateTargetAdr, loadProfitTargets, suggestNightlyRates, PRICING_HORIZON_DAYS, PROFIT_TARGETS_STORAGE_KEY } from './services/pricingService';
+import { buildOwnerStatement, DEFAULT_OWNER_CONFIG, MANAGEMENT_FEE_BASE_LABELS, OwnerStatement } from './services/ownerStatementService';
+import { openTransactionRepository, TransactionRepository } from './services/transactionRepository';
+import { createBackup, mergeById, mergeTransactions, parseBackup, restoreSettings, BackupError, ParsedBackup, BACKUP_COLLECTION_LABELS } from './services/backupService';
+import { describeFrequency, getNextOccurrence, materializeRecurring, MATERIALIZE_AHEAD_DAYS, RECURRING_FREQUENCY_LABELS } from './services/recurringService';
+import { compareToBudget, getBudgetCategories, getBudgetMonths } from './services/budgetService';
+import { findCategory, getCategoriesForType, getCategoryLabel, isBuiltInCategory, loadCategories, migrateCategoryId, CATEGORIES_STORAGE_KEY, CATEGORY_COLORS } from './services/categoryService';
+import { getDueDate, getPendingItems, summarizeSettlement } from './services/payablesService';
+import { buildPortfolioSummary, combineOccupancy, filterByProperty, filterOwnProperties, getPropertyId, loadProperties, PropertyScope, PROPERTIES_STORAGE_KEY, PROPERTY_COLORS } from './services/propertyService';
+import { applyAuditEntry, createAuditEntry, restoreDeletedTransaction, AuditAction, AuditEntry, DataSnapshot, AUDIT_ACTION_LABELS } from './services/auditService';
+import { openAuditRepository, AuditRepository } from './services/auditRepository';
 
-type TimeRange = 'daily' | 'monthly' | 'semiannual' | 'annual' | 'all';
+type AppTab = 'dashboard' | 'calendar' | 'history' | 'add';
+
+// Icons offered for categories, keyed by the name stored in CategoryDefinition.icon
+const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  House, Sparkles, Wrench, Zap, Landmark, Tag, Shirt, Wifi, Car, ShoppingBag, Droplets, Receipt, WashingMachine, BedDouble, Percent, Wallet
+};
+
+// Rolling, seasonal and custom windows, offered below the calendar period tabs
+const WINDOW_RANGES: { range: TimeRange; label: string }[] = [
+  { range: 'last30', label: '30 dias' },
+  { range: 'last90', label: '90 dias' },
+  { range: 'last365', label: '12 meses' },
+  { range: 'highSeason', label: 'Alta temporada' },
+  { range: 'custom', label: 'Personalizado' }
+];
 
 const App: React.FC = () => {
-  const [transactions, setTransactions] = useState<Transaction[]>(() => {
-    const saved = localStorage.getItem('porto_transactions');
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [repository, setRepository] = useState<TransactionRepository | null>(null);
+  // Last state written to the repository, used to persist only the records that changed
+  const persistedRef = useRef<Map<string, Transaction>>(new Map());
+
+  const [bookings, setBookings] = useState<Booking[]>(() => {
+    const saved = localStorage.getItem('porto_bookings');
+    return saved ? JSON.parse(saved) : [];
+  });
+
+  const [blockedDates, setBlockedDates] = useState<BlockedDate[]>(() => {
+    const saved = localStorage.getItem('porto_blocked_dates');
     return saved ? JSON.parse(saved) : [];
   });
+
+  const [categories, setCategories] = useState<CategoryDefinition[]>(loadCategories);
+  const [categoryForm, setCategoryForm] = useState<(Omit<CategoryDefinition, 'id'> & { id?: string }) | null>(null);
+  const [showCategories, setShowCategories] = useState(false);
+  const categoryLabel = (id: CategoryId) => getCategoryLabel(categories, id);
+
+  const renderCategoryOptions = (type: TransactionType) => getCategoriesForType(categories, type).map(c => (
+    <option key={c.id} value={c.id}>{c.parentId ? `↳ ${c.name}` : c.name}</option>
+  ));
+
+  const renderCategoryIcon = (t: Transaction) => {
+    const Icon = CATEGORY_ICONS[findCategory(categories, t.category)?.icon ?? ''] ?? (t.type === TransactionType.INCOME ? TrendingUp : TrendingDown);
+    return <Icon className="w-5 h-5" />;
+  };
+
+  // Keeps the selected category when it applies to the new type, otherwise picks the first one that does
+  const categoryForType = (current: CategoryId, type: TransactionType): CategoryId => {
+    return findCategory(categories, current)?.types.includes(type) ? current : getCategoriesForType(categories, type)[0]?.id ?? Category.OTHERS;
+  };
+
+  const [properties, setProperties] = useState<Property[]>(loadProperties);
+  const [propertyScope, setPropertyScope] = useState<PropertyScope>(() => localStorage.getItem('porto_property_scope') ?? 'all');
+  const [propertyForm, setPropertyForm] = useState<(Omit<Property, 'id'> & { id?: string }) | null>(null);
+  const [showProperties, setShowProperties] = useState(false);
+  // A scope pointing to a removed property falls back to the whole portfolio
+  const scope: PropertyScope = properties.some(p => p.id === propertyScope) ? propertyScope : 'all';
+  // Calendar, occupancy and new records need a single property; the portfolio view uses the first one
+  const activePropertyId = scope === 'all' ? properties[0].id : scope;
+  const activeProperty = properties.find(p => p.id === activePropertyId) ?? properties[0];
+  const scopeLabel = scope === 'all' && properties.length > 1 ? `Portfólio (${properties.length} imóveis)` : activeProperty.name;
+
+  const [recurringTemplates, setRecurringTemplates] = useState<RecurringTemplate[]>(() => {
+    const saved = localStorage.getItem('porto_recurring_templates');
+    const templates: RecurringTemplate[] = saved ? JSON.parse(saved) : [];
+    return templates.map(r => ({ ...r, category: migrateCategoryId(r.category) }));
+  });
+  const [showRecurring, setShowRecurring] = useState(false);
+
+  const [budgets, setBudgets] = useState<CategoryBudgets>(() => {
+    const saved = localStorage.getItem('porto_budgets');
+    const stored: CategoryBudgets = saved ? JSON.parse(saved) : {};
+    return Object.fromEntries(Object.entries(stored).map(([id, value]) => [migrateCategoryId(id), value]));
+  });
+  const [budgetDraft, setBudgetDraft] = useState<Record<string, string> | null>(null);
+  const [channelFeeRules, setChannelFeeRules] = useState<ChannelFeeRules>(loadChannelFeeRules);
+  const [channelFeeDraft, setChannelFeeDraft] = useState<ChannelFeeRules | null>(null);
+  const [irpfTables, setIrpfTables] = useState<IrpfTable[]>(loadIrpfTables);
+  const [irpfDraft, setIrpfDraft] = useState<IrpfTable | null>(null);
+  // Only new tables pick their start month; an existing one is edited in place
+  const [irpfDraftIsNew, setIrpfDraftIsNew] = useState(false);
+  const [showTax, setShowTax] = useState(false);
+  const [profitTargets, setProfitTargets] = useState<Record<string, number>>(loadProfitTargets);
+  const [showPricing, setShowPricing] = useState(false);
+  const [guests, setGuests] = useState<Guest[]>(loadGuests);
+  // mergeKeys: directory entries folded into this guest when it is saved
+  const [guestForm, setGuestForm] = useState<(Omit<Guest, 'id'> & { id?: string; mergeKeys: string[] }) | null>(null);
+  const [showGuests, setShowGuests] = useState(false);
+  const [guestSearch, setGuestSearch] = useState('');
+  const [recurringForm, setRecurringForm] = useState<Omit<RecurringTemplate, 'id' | 'amount' | 'skipped'> & { amount: string } | null>(null);
+
+  // Append-only change log (persisted) and the undo/redo stacks of this session
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [auditRepository, setAuditRepository] = useState<AuditRepository | null>(null);
+  // Ids of the entries already appended to the audit repository
+  const persistedAuditRef = useRef<Set<string>>(new Set());
+  const [undoStack, setUndoStack] = useState<AuditEntry[]>([]);
+  const [storageError, setStorageError] = useState(false);
+  const [redoStack, setRedoStack] = useState<AuditEntry[]>([]);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [settling, setSettling] = useState<{ transaction: Transaction; paidAt: string } | null>(null);
   
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'history' | 'add'>('dashboard');
-  const previousTabRef = React.useRef<'dashboard' | 'history'>('dashboard');
+  const [activeTab, setActiveTab] = useState<AppTab>('dashboard');
+  const previousTabRef = React.useRef<Exclude<AppTab, 'add'>>('dashboard');
   const [timeRange, setTimeRange] = useState<TimeRange>('monthly');
   const [selectedDate, setSelectedDate] = useState(new Date());
+  const [customDays, setCustomDays] = useState(30);
   const [historyTimeRange, setHistoryTimeRange] = useState<TimeRange>('monthly');
   const [historySelectedDate, setHistorySelectedDate] = useState(new Date());
+  const [historyCustomDays, setHistoryCustomDays] = useState(30);
   const [showBackupModal, setShowBackupModal] = useState(false);
+  const [backupRestore, setBackupRestore] = useState<{ fileName: string; parsed: ParsedBackup; mode: 'replace' | 'merge'; prefer: 'current' | 'backup' } | null>(null);
   const [aiInsight, setAiInsight] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [showReport, setShowReport] = useState(false);
+  const [selectedCalendarDay, setSelectedCalendarDay] = useState<CalendarDay | null>(null);
+  const [icalPreview, setIcalPreview] = useState<(DetectedStay & { selected: boolean; amount: string })[] | null>(null);
+  const [statementImport, setStatementImport] = useState<{ fileName: string; items: (ReconciliationItem & { create: boolean; category: CategoryId })[] } | null>(null);
+  const [historyOnlyUnreconciled, setHistoryOnlyUnreconciled] = useState(false);
+  const [csvImport, setCsvImport] = useState<{ fileName: string; rows: string[][]; presetId: string; mapping: CsvColumnMapping } | null>(null);
   const [explanation, setExplanation] = useState<{
     title: string; 
     text?: string;
     type?: 'text' | 'list';
-    data?: { label: string; value: string; color: string; percent?: string }[];
+    data?: { label: string; value: string; color: string; percent?: string; budget?: { usage: number; text: string; over: boolean } }[];
   } | null>(null);
   
   // Form State
   const [formType, setFormType] = useState<TransactionType>(TransactionType.INCOME);
-  const [formCategory, setFormCategory] = useState<Category>(Category.RENTAL);
+  const [formCategory, setFormCategory] = useState<CategoryId>(Category.RENTAL);
   const [formAmount, setFormAmount] = useState('');
-  const [formDate, setFormDate] = useState(new Date().toISOString().split('T')[0]);
+  const [formDate, setFormDate] = useState(toDateKey(new Date()));
   const [formDesc, setFormDesc] = useState('');
   const [formGuest, setFormGuest] = useState('');
+  const [formCheckOut, setFormCheckOut] = useState('');
+  const [formChannel, setFormChannel] = useState<BookingChannel | ''>(BookingChannel.AIRBNB);
+  const [formGuests, setFormGuests] = useState('2');
+  const [formIsPaid, setFormIsPaid] = useState(true);
+  const [formDueDate, setFormDueDate] = useState('');
+  const [formPropertyId, setFormPropertyId] = useState('');
+  // Id of the transaction (or booking, for stay income) being edited in the Add form
+  const [editing, setEditing] = useState<{ transactionId: string; bookingId?: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    openTransactionRepository().then(async repo => {
+      const stored = await repo.getAll();
+      if (cancelled) return;
+      persistedRef.current = new Map(stored.map(t => [t.id, t]));
+      // Records still holding the old enum label get the category id; the persistence effect writes them back
+      const migrated = stored.map(t => migrateCategoryId(t.category) === t.category ? t : { ...t, category: migrateCategoryId(t.category) });
+      setTransactions(prev => [...prev, ...migrated.sort((a, b) => b.date.localeCompare(a.date))]);
+      setRepository(repo);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    openAuditRepository().then(async repo => {
+      const stored = await repo.getAll().catch(error => {
+        reportStorageError("Error loading audit log:", error);
+        return [] as AuditEntry[];
+      });
+      if (cancelled) return;
+      stored.forEach(entry => persistedAuditRef.current.add(entry.id));
+      setAuditLog(prev => [...stored, ...prev]);
+      setAuditRepository(repo);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  // localStorage throws once the quota is full (or when storage is blocked); the user is warned instead of
+  // losing the changes silently on the next reload
+  const reportStorageError = (message: string, error: unknown) => {
+    console.error(message, error);
+    setStorageError(true);
+  };
+
+  const saveToStorage = (key: string, value: unknown) => {
+    try {
+      localStorage.setItem(key, typeof value === 'string' ? value : JSON.stringify(value));
+    } catch (error) {
+      reportStorageError(`Error saving ${key}:`, error);
+    }
+  };
+
+  useEffect(() => {
+    if (!repository) return;
+    const previous = persistedRef.current;
+    const next = new Map(transactions.map(t => [t.id, t]));
+    const changed = transactions.filter(t => previous.get(t.id) !== t);
+    const removed = [...previous.keys()].filter(id => !next.has(id));
+    persistedRef.current = next;
+    if (changed.length > 0) repository.putMany(changed).catch(error => reportStorageError("Error saving transactions:", error));
+    if (removed.length > 0) repository.deleteMany(removed).catch(error => reportStorageError("Error deleting transactions:", error));
+  }, [transactions, repository]);
+
+  useEffect(() => {
+    saveToStorage('porto_bookings', bookings);
+  }, [bookings]);
+
+  useEffect(() => {
+    saveToStorage('porto_blocked_dates', blockedDates);
+  }, [blockedDates]);
+
+  useEffect(() => {
+    saveToStorage('porto_recurring_templates', recurringTemplates);
+  }, [recurringTemplates]);
+
+  useEffect(() => {
+    saveToStorage('porto_budgets', budgets);
+  }, [budgets]);
+
+  useEffect(() => {
+    saveToStorage(CATEGORIES_STORAGE_KEY, categories);
+  }, [categories]);
+
+  useEffect(() => {
+    saveToStorage(CHANNEL_FEES_STORAGE_KEY, channelFeeRules);
+  }, [channelFeeRules]);
+
+  useEffect(() => {
+    saveToStorage(IRPF_TABLES_STORAGE_KEY, irpfTables);
+  }, [irpfTables]);
+
+  useEffect(() => {
+    saveToStorage(PROFIT_TARGETS_STORAGE_KEY, profitTargets);
+  }, [profitTargets]);
+
+  useEffect(() => {
+    saveToStorage(GUESTS_STORAGE_KEY, guests);
+  }, [guests]);
+
+  useEffect(() => {
+    saveToStorage(PROPERTIES_STORAGE_KEY, properties);
+  }, [properties]);
+
+  useEffect(() => {
+    saveToStorage('porto_property_scope', propertyScope);
+  }, [propertyScope]);
+
+  // The log is append-only: every entry is kept, and a failed write is reported rather than dropped silently
+  useEffect(() => {
+    if (!auditRepository) return;
+    const pending = auditLog.filter(entry => !persistedAuditRef.current.has(entry.id));
+    pending.forEach(entry => {
+      persistedAuditRef.current.add(entry.id);
+      auditRepository.append(entry).catch(error => reportStorageError("Error saving audit log:", error));
+    });
+  }, [auditLog, auditRepository]);
 
+  const currentSnapshot = (): DataSnapshot => ({ transactions, bookings, blockedDates, recurringTemplates, categories, properties, guests });
+
+  // Every user change to the data goes through here so it is logged and can be undone
+  const commitChange = (action: AuditAction, label: string, next: Partial<DataSnapshot>, undoable = action !== 'undo' && action !== 'redo') => {
+    const current = currentSnapshot();
+    const entry = createAuditEntry(action, label, current, { ...current, ...next });
+    if (!entry) return;
+    if (next.transactions) setTransactions(next.transactions);
+    if (next.bookings) setBookings(next.bookings);
+    if (next.blockedDates) setBlockedDates(next.blockedDates);
+    if (next.recurringTemplates) setRecurringTemplates(next.recurringTemplates);
+    if (next.categories) setCategories(next.categories);
+    if (next.properties) setProperties(next.properties);
+    if (next.guests) setGuests(next.guests);
+    setAuditLog(prev => [...prev, entry]);
+    if (!undoable) return;
+    setUndoStack(prev => [...prev, entry]);
+    setRedoStack([]);
+  };
+
+  // Generated occurrences are logged but not undoable: undoing would only regenerate them
   useEffect(() => {
-    localStorage.setItem('porto_transactions', JSON.stringify(transactions));
-  }, [transactions]);
+    if (!repository) return;
+    const generated = materializeRecurring(recurringTemplates, transactions, toDateKey(addDays(new Date(), MATERIALIZE_AHEAD_DAYS)));
+    if (generated.length > 0) {
+      commitChange('create', `Recorrências geradas (${generated.length})`, { transactions: [...generated, ...transactions] }, false);
+    }
+  }, [recurringTemplates, transactions, repository]);
+
+  const undo = () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    commitChange('undo', entry.label, applyAuditEntry(currentSnapshot(), entry, 'undo'));
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, entry]);
+  };
+
+  const redo = () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    commitChange('redo', entry.label, applyAuditEntry(currentSnapshot(), entry, 'redo'));
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, entry]);
+  };
+
+  const restoreTransaction = (entry: AuditEntry, transactionId: string) => {
+    const restored = restoreDeletedTransaction(currentSnapshot(), entry, transactionId);
+    commitChange('restore', entry.transactions.find(c => c.key === transactionId)?.before?.description || 'Lançamento excluído', restored);
+  };
+
 
   // Navigation & Filter Utilities
-  const navigatePeriod = (direction: 'prev' | 'next', range: TimeRange, currentDate: Date): Date => {
+  // customDays is the length of the 'custom' window; the other ranges ignore it
+  const navigatePeriod = (direction: 'prev' | 'next', range: TimeRange, currentDate: Date, customDays = 1): Date => {
     const newDate = new Date(currentDate);
     const delta = direction === 'next' ? 1 : -1;
     switch (range) {
       case 'daily': newDate.setDate(newDate.getDate() + delta); break;
       case 'monthly': newDate.setMonth(newDate.getMonth() + delta); break;
+      case 'quarterly': newDate.setMonth(newDate.getMonth() + delta * 3); break;
       case 'semiannual': newDate.setMonth(newDate.getMonth() + delta * 6); break;
-      case 'annual': newDate.setFullYear(newDate.getFullYear() + delta); break;
+      case 'annual':
+      case 'highSeason': newDate.setFullYear(newDate.getFullYear() + delta); break;
+      case 'last30':
+      case 'last90':
+      case 'last365':
+      case 'custom': newDate.setDate(newDate.getDate() + delta * getWindowDays(range, customDays)!); break;
     }
     return newDate;
   };
 
-  const getPeriodLabelForDate = (range: TimeRange, date: Date): string => {
+  const getPeriodLabelForDate = (range: TimeRange, date: Date, customDays = 1): string => {
+    const formatDay = (day: Date) => day.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: '2-digit' });
     switch (range) {
       case 'daily': return date.toLocaleDateString('pt-BR', { day: '2-digit', month: 'long', year: 'numeric' });
       case 'monthly': {
         const label = date.toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
         return label.charAt(0).toUpperCase() + label.slice(1);
       }
+      case 'quarterly': return `${Math.floor(date.getMonth() / 3) + 1}º Tri ${date.getFullYear()}`;
       case 'semiannual': return `${date.getMonth() < 6 ? '1º' : '2º'} Sem ${date.getFullYear()}`;
       case 'annual': return `${date.getFullYear()}`;
+      case 'highSeason': {
+        const startYear = getPeriodBounds(range, date)!.start.getFullYear();
+        return `Alta Temporada ${startYear}/${String(startYear + 1).slice(2)}`;
+      }
+      case 'last30':
+      case 'last90':
+      case 'last365':
+      case 'custom': {
+        const { start, end } = getPeriodBounds(range, date, customDays)!;
+        if (range !== 'custom' && date.toDateString() === new Date().toDateString()) return `Últimos ${getWindowDays(range, customDays)} dias`;
+        return `${formatDay(start)} – ${formatDay(addDays(end, -1))}`;
+      }
       case 'all': return 'Todo o Período';
     }
   };
 
-  const getFilteredByPeriod = (txns: Transaction[], range: TimeRange, refDate: Date) => {
-    return txns.filter(t => {
-      const tDate = new Date(t.date);
-      if (range === 'all') return true;
-      if (range === 'daily') return tDate.toDateString() === refDate.toDateString();
-
-      const isSameYear = tDate.getFullYear() === refDate.getFullYear();
+  const getFilteredByPeriod = (txns: Transaction[], range: TimeRange, refDate: Date, customDays = 1) => {
+    const bounds = getPeriodBounds(range, refDate, customDays);
+    const startKey = bounds && toDateKey(bounds.start);
+    const endKey = bounds && toDateKey(bounds.end);
+    return txns
+      .filter(t => !startKey || !endKey || (t.date >= startKey && t.date < endKey))
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  };
 
-      if (range === 'monthly') {
-        return isSameYear && tDate.getMonth() === refDate.getMonth();
-      }
-      if (range === 'semiannual') {
-        const refSemester = refDate.getMonth() < 6 ? 0 : 1;
-        const tSemester = tDate.getMonth() < 6 ? 0 : 1;
-        return isSameYear && tSemester === refSemester;
-      }
-      if (range === 'annual') {
-        return isSameYear;
-      }
-      return true;
-    }).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  // Sets a custom window from its first and last day (inclusive); the window is anchored on its last day.
+  const applyCustomRange = (startKey: string, endKey: string, setDate: (date: Date) => void, setDays: (days: number) => void) => {
+    if (!startKey || !endKey || endKey < startKey) return;
+    setDate(parseDateKey(endKey));
+    setDays(daysBetween(parseDateKey(startKey), parseDateKey(endKey)) + 1);
   };
 
-  // Backup functions
-  const exportData = () => {
-    const data = JSON.stringify(transactions, null, 2);
-    const blob = new Blob([data], { type: 'application/json' });
+  const toFileSlug = (label: string) => label.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-');
+
+  const downloadFile = (blob: Blob, fileName: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `porto-financas-backup-${new Date().toISOString().split('T')[0]}.json`;
+    a.download = fileName;
     a.click();
     URL.revokeObjectURL(url);
   };
 
+  // Backup functions
+  const exportData = async () => {
+    const backup = await createBackup({
+      transactions, bookings, blockedDates, recurringTemplates, categories, properties, guests,
+      settings: { budgets, channelFeeRules, irpfTables, profitTargets }
+    });
+    const data = JSON.stringify(backup, null, 2);
+    downloadFile(new Blob([data], { type: 'application/json' }), `porto-financas-backup-${toDateKey(new Date())}.json`);
+  };
+
   const importData = (file: File) => {
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
-        const data = JSON.parse(e.target?.result as string);
-        if (Array.isArray(data) && confirm(`Importar ${data.length} transações? Isso substituirá os dados atuais.`)) {
-          setTransactions(data);
-          setShowBackupModal(false);
-        }
-      } catch {
-        alert('Arquivo inválido. Por favor, selecione um backup válido.');
+        const parsed = await parseBackup(e.target?.result as string);
+        setBackupRestore({ fileName: file.name, parsed, mode: 'merge', prefer: 'current' });
+        setShowBackupModal(false);
+      } catch (error) {
+        alert(error instanceof BackupError ? error.message : 'Arquivo inválido. Por favor, selecione um backup válido.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const backupMergePreview = useMemo(() => {
+    return backupRestore ? mergeTransactions(transactions, backupRestore.parsed.data.transactions, backupRestore.prefer) : null;
+  }, [backupRestore, transactions]);
+
+  const confirmBackupRestore = () => {
+    if (!backupRestore || !backupMergePreview) return;
+    const { data } = backupRestore.parsed;
+    if (backupRestore.mode === 'replace') {
+      if (!confirm(`Substituir todos os dados atuais por ${data.transactions.length} transações do backup?`)) return;
+      commitChange('import', `Backup ${backupRestore.fileName} (substituição)`, {
+        transactions: data.transactions,
+        bookings: data.bookings,
+        blockedDates: data.blockedDates,
+        recurringTemplates: data.recurringTemplates,
+        categories: data.categories.length > 0 ? data.categories : categories,
+        properties: data.properties.length > 0 ? data.properties : properties,
+        guests: data.guests
+      });
+    } else {
+      commitChange('import', `Backup ${backupRestore.fileName} (mesclagem)`, {
+        transactions: backupMergePreview.transactions,
+        bookings: mergeById(bookings, data.bookings),
+        blockedDates: [...blockedDates, ...data.blockedDates.filter(b => !blockedDates.some(p => p.date === b.date && getPropertyId(p) === getPropertyId(b)))],
+        recurringTemplates: mergeById(recurringTemplates, data.recurringTemplates),
+        categories: mergeById(categories, data.categories),
+        properties: mergeById(properties, data.properties),
+        guests: mergeById(guests, data.guests)
+      });
+    }
+    // Settings are outside the undo history (see DataSnapshot)
+    const settings = restoreSettings({ budgets, channelFeeRules, irpfTables, profitTargets }, data.settings, backupRestore.mode);
+    setBudgets(settings.budgets);
+    setChannelFeeRules(settings.channelFeeRules);
+    setIrpfTables(settings.irpfTables);
+    setProfitTargets(settings.profitTargets);
+    setBackupRestore(null);
+  };
+
+  // Calendar (iCal) import
+  const importCalendar = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const stays = detectStays(e.target?.result as string, calendarBookings, calendarBlocked);
+      if (stays.length === 0) {
+        alert('Nenhum evento encontrado. Verifique se o arquivo é um calendário .ics válido.');
+        return;
+      }
+      setIcalPreview(stays.map(stay => ({ ...stay, selected: !stay.alreadyImported && stay.nights > 0, amount: '' })));
+      setShowBackupModal(false);
+    };
+    reader.readAsText(file);
+  };
+
+  const exportCalendar = () => {
+    downloadFile(new Blob([buildICalFeed(calendarBookings, calendarBlocked)], { type: 'text/calendar;charset=utf-8' }), `porto-financas-calendario-${toFileSlug(activeProperty.name)}.ics`);
+  };
+
+  // Spreadsheet export of the transactions shown for a period
+  const exportSpreadsheet = (txns: Transaction[], range: TimeRange, refDate: Date, customDays: number, format: 'csv' | 'xlsx') => {
+    const slug = toFileSlug(getPeriodLabelForDate(range, refDate, customDays));
+    if (format === 'csv') {
+      downloadFile(new Blob([buildTransactionsCsv(txns, categories)], { type: 'text/csv;charset=utf-8' }), `porto-financas-${slug}.csv`);
+    } else {
+      downloadFile(
+        new Blob([buildXlsx(buildReportSheets(txns, range, categories, customDays))], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+        `porto-financas-${slug}.xlsx`
+      );
+    }
+  };
+
+  const confirmCalendarImport = () => {
+    if (!icalPreview) return;
+    const selected = icalPreview.filter(stay => stay.selected && !stay.alreadyImported);
+
+    const newBookings: Booking[] = selected.filter(stay => stay.kind === 'stay').map(stay => ({
+      id: crypto.randomUUID(),
+      checkIn: stay.checkIn,
+      checkOut: stay.checkOut,
+      guestName: stay.guestName,
+      channel: stay.channel,
+      grossAmount: parseFloat(stay.amount) || 0,
+      guests: 1,
+      externalUid: stay.uid,
+      propertyId: activePropertyId
+    }));
+    const newBlocked = selected.filter(stay => stay.kind === 'blocked').flatMap(expandBlockedStay).map(b => ({ ...b, propertyId: activePropertyId }));
+
+    commitChange('import', 'Calendário (.ics)', {
+      bookings: [...newBookings, ...bookings],
+      transactions: [...newBookings.filter(b => b.grossAmount > 0).flatMap(b => createBookingTransactions(b, channelFeeRules[b.channel])), ...transactions],
+      blockedDates: [...blockedDates.filter(b => !newBlocked.some(n => n.date === b.date && getPropertyId(b) === activePropertyId)), ...newBlocked]
+    });
+    setIcalPreview(null);
+  };
+
+  // Platform payout (CSV) import
+  const importPayoutCsv = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const rows = parseCsv(e.target?.result as string);
+      if (rows.length < 2) {
+        alert('Arquivo CSV vazio ou sem linhas de dados.');
+        return;
+      }
+      const preset = detectPreset(rows[0]);
+      setCsvImport({ fileName: file.name, rows, presetId: preset.id, mapping: buildMappingFromPreset(rows[0], preset) });
+      setShowBackupModal(false);
+    };
+    reader.readAsText(file);
+  };
+
+  const csvPreset = CSV_PRESETS.find(p => p.id === csvImport?.presetId) ?? CSV_PRESETS[CSV_PRESETS.length - 1];
+
+  const csvPreview = useMemo(() => {
+    return csvImport ? buildCsvPreview(csvImport.rows, csvImport.mapping, csvPreset, transactions, activePropertyId) : [];
+  }, [csvImport, csvPreset, transactions, activePropertyId]);
+
+  const csvImportable = csvPreview.filter(row => !row.skipped && !row.duplicate && row.errors.length === 0);
+
+  const confirmCsvImport = () => {
+    const imported = csvImportable.flatMap(row => row.transactions);
+    commitChange('import', `Repasses ${csvImport?.fileName ?? 'CSV'}`, { transactions: [...imported, ...transactions] });
+    setCsvImport(null);
+  };
+
+  // Bank statement reconciliation
+  const importStatement = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const lines = parseStatement(file.name, e.target?.result as string);
+      if (lines.length === 0) {
+        alert('Nenhum lançamento encontrado. Envie um arquivo OFX ou o CSV exportado pelo banco.');
+        return;
       }
+      const items = reconcileStatement(lines, transactions, activePropertyId).map(item => ({
+        ...item,
+        create: item.status === 'unmatched' && item.line.amount < 0,
+        category: item.suggestedCategory ?? Category.OTHERS
+      }));
+      setStatementImport({ fileName: file.name, items });
+      setShowBackupModal(false);
     };
     reader.readAsText(file);
   };
 
+  const confirmReconciliation = () => {
+    if (!statementImport) return;
+    const matchedRefs = new Map(statementImport.items
+      .filter(item => item.status === 'matched' && item.match)
+      .map(item => [item.match!.id, item.line.id]));
+    const newExpenses: Transaction[] = statementImport.items
+      .filter(item => item.status === 'unmatched' && item.create && item.line.amount < 0)
+      .map(item => ({
+        id: crypto.randomUUID(),
+        date: item.line.date,
+        type: TransactionType.EXPENSE,
+        category: item.category,
+        amount: Math.abs(item.line.amount),
+        description: item.line.description,
+        isPaid: true,
+        reconciled: true,
+        bankRef: item.line.id,
+        propertyId: activePropertyId
+      }));
+
+    commitChange('import', `Extrato ${statementImport.fileName}`, {
+      transactions: [
+        ...newExpenses,
+        ...transactions.map(t => matchedRefs.has(t.id) ? { ...t, reconciled: true, bankRef: matchedRefs.get(t.id) } : t)
+      ]
+    });
+    setStatementImport(null);
+  };
+
   // Filter Logic
+  const scopedTransactions = useMemo(() => filterByProperty(transactions, scope), [transactions, scope]);
+  const calendarBookings = useMemo(() => filterByProperty(bookings, activePropertyId), [bookings, activePropertyId]);
+  const calendarBlocked = useMemo(() => filterByProperty(blockedDates, activePropertyId), [blockedDates, activePropertyId]);
+
   const filteredTransactions = useMemo(() => {
-    return getFilteredByPeriod(transactions, timeRange, selectedDate);
-  }, [transactions, timeRange, selectedDate]);
+    return getFilteredByPeriod(scopedTransactions, timeRange, selectedDate, customDays);
+  }, [scopedTransactions, timeRange, selectedDate, customDays]);
 
   const historyFilteredTransactions = useMemo(() => {
-    return getFilteredByPeriod(transactions, historyTimeRange, historySelectedDate);
-  }, [transactions, historyTimeRange, historySelectedDate]);
+    const inPeriod = getFilteredByPeriod(scopedTransactions, historyTimeRange, historySelectedDate, historyCustomDays);
+    return historyOnlyUnreconciled ? inPeriod.filter(t => !t.reconciled) : inPeriod;
+  }, [scopedTransactions, historyTimeRange, historySelectedDate, historyCustomDays, historyOnlyUnreconciled]);
+
+  // Owner statements always cover the month of selectedDate
+  const ownerStatements = useMemo(() => {
+    return properties
+      .filter(p => scope === 'all' || p.id === scope)
+      .map(p => buildOwnerStatement(p, transactions, categories, selectedDate))
+      .filter((statement): statement is OwnerStatement => !!statement);
+  }, [properties, scope, transactions, categories, selectedDate]);
+
+  const channelBreakdown = useMemo(() => buildChannelBreakdown(filteredTransactions, bookings), [filteredTransactions, bookings]);
+
+  const saveChannelFeeRules = () => {
+    if (!channelFeeDraft) return;
+    setChannelFeeRules(channelFeeDraft);
+    setChannelFeeDraft(null);
+  };
+
+  // Carnê-Leão for the year of selectedDate. It is the user's own tax, so it covers every property they own
+  // whatever the scope, and never the ones managed for third-party owners.
+  const carneLeao = useMemo(() => {
+    return buildCarneLeaoSummary(filterOwnProperties(transactions, properties), categories, irpfTables, selectedDate.getFullYear());
+  }, [transactions, properties, categories, irpfTables, selectedDate]);
+  const carneLeaoMonth = carneLeao.months[selectedDate.getMonth()];
+
+  const openIrpfDraft = (table: IrpfTable, isNew: boolean) => {
+    setIrpfDraft({ ...table, brackets: table.brackets.map(b => ({ ...b })) });
+    setIrpfDraftIsNew(isNew);
+  };
+
+  const saveIrpfTable = () => {
+    if (!irpfDraft || !irpfDraft.effectiveFrom) return;
+    const brackets = [...irpfDraft.brackets].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+    setIrpfTables(prev => [...prev.filter(t => t.effectiveFrom !== irpfDraft.effectiveFrom), { ...irpfDraft, brackets }].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)));
+    setIrpfDraft(null);
+  };
+
+  const formatTableStart = (effectiveFrom: string) => parseDateKey(`${effectiveFrom}-01`).toLocaleDateString('pt-BR', { month: 'short', year: 'numeric' });
+
+  const exportCarneLeao = () => {
+    downloadFile(
+      new Blob([buildXlsx(buildCarneLeaoSheets(carneLeao))], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+      `carne-leao-${carneLeao.year}.xlsx`
+    );
+  };
+
+  const portfolioSummary = useMemo(() => {
+    return scope === 'all' && properties.length > 1 ? buildPortfolioSummary(properties, filteredTransactions) : [];
+  }, [scope, properties, filteredTransactions]);
 
   const summary = useMemo(() => {
-    const income = filteredTransactions.filter(t => t.type === TransactionType.INCOME).reduce((acc, t) => acc + t.amount, 0);
-    const expenses = filteredTransactions.filter(t => t.type === TransactionType.EXPENSE).reduce((acc, t) => acc + t.amount, 0);
-    const balance = income - expenses;
-    const margin = income > 0 ? ((balance / income) * 100) : 0;
-    
+    // income/expenses/balance include pending items (projected); the realized figures only count settled ones
     return {
-      income,
-      expenses,
-      balance,
-      margin
+      ...summarizeTransactions(filteredTransactions),
+      ...summarizeSettlement(filteredTransactions)
     };
   }, [filteredTransactions]);
 
-  const topExpenses = useMemo(() => {
-    const expenses = filteredTransactions.filter(t => t.type === TransactionType.EXPENSE);
-    const categories: Record<string, number> = {};
-    expenses.forEach(t => {
-      categories[t.category] = (categories[t.category] || 0) + t.amount;
+  // The period before and the same period a year earlier; for yearly periods both are the previous year
+  const comparisonPeriods = useMemo(() => {
+    if (timeRange === 'all') return [];
+    const previousDate = navigatePeriod('prev', timeRange, selectedDate, customDays);
+    const lastYearDate = navigatePeriod('prev', 'annual', selectedDate);
+    const yearly = timeRange === 'annual' || timeRange === 'highSeason' || timeRange === 'last365';
+    return [
+      { key: 'previous', label: 'anterior', date: previousDate },
+      ...(yearly ? [] : [{ key: 'lastYear', label: 'ano anterior', date: lastYearDate }])
+    ].map(period => {
+      const txns = getFilteredByPeriod(scopedTransactions, timeRange, period.date, customDays);
+      return { ...period, periodLabel: getPeriodLabelForDate(timeRange, period.date, customDays), txns, totals: summarizeTransactions(txns) };
     });
-    return Object.entries(categories)
-      .map(([name, value]) => ({ name, value, percent: summary.expenses > 0 ? (value / summary.expenses) * 100 : 0 }))
-      .sort((a, b) => b.value - a.value)
+  }, [scopedTransactions, timeRange, selectedDate, customDays]);
+
+  const periodComparisonData = useMemo(() => {
+    const previous = comparisonPeriods[0];
+    if (!previous || timeRange === 'daily') return [];
+    return buildCumulativeComparison(filteredTransactions, previous.txns, timeRange, selectedDate, previous.date, customDays);
+  }, [filteredTransactions, comparisonPeriods, timeRange, selectedDate, customDays]);
+
+  // Change of a KPI against each comparison period; margin moves in percentage points.
+  // `lowerIsBetter` flips the colours for expenses.
+  const renderDeltas = (metric: keyof PeriodTotals, options: { lowerIsBetter?: boolean; light?: boolean } = {}) => comparisonPeriods.map(period => {
+    const current = summary[metric];
+    const before = period.totals[metric];
+    const change = metric === 'margin' ? current - before : before !== 0 ? ((current - before) / Math.abs(before)) * 100 : null;
+    const good = change !== null && (options.lowerIsBetter ? change < 0 : change > 0);
+    const bad = change !== null && (options.lowerIsBetter ? change > 0 : change < 0);
+    const color = options.light
+      ? good ? 'text-emerald-300' : bad ? 'text-rose-300' : 'text-cyan-100'
+      : good ? 'text-emerald-500' : bad ? 'text-rose-500' : 'text-slate-400';
+    return (
+      <p key={period.key} title={period.periodLabel} className={`text-[10px] font-semibold ${color}`}>
+        {change === null
+          ? `— vs ${period.label}`
+          : `${change > 0 ? '▲' : change < 0 ? '▼' : '•'} ${Math.abs(change).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}${metric === 'margin' ? ' p.p.' : '%'} vs ${period.label}`}
+      </p>
+    );
+  });
+
+  // Seasonality and forecast use the whole history of the scope, independently of the selected period
+  const seasonality = useMemo(() => buildSeasonality(scopedTransactions, categories, new Date()), [scopedTransactions, categories]);
+  const forecast = useMemo(() => buildForecast(scopedTransactions, categories, new Date()), [scopedTransactions, categories]);
+  const forecastBalance = forecast.reduce((acc, m) => acc + m.balance, 0);
+
+  // Monthly budgets scaled to the selected period (e.g. x6 for semiannual)
+  const budgetVariances = useMemo(() => {
+    const months = getBudgetMonths(timeRange, selectedDate, timeRange === 'all' ? scopedTransactions : filteredTransactions, customDays);
+    return new Map(compareToBudget(groupExpensesByCategory(filteredTransactions, categories), budgets, months, categories).map(v => [v.id, v]));
+  }, [filteredTransactions, scopedTransactions, budgets, categories, timeRange, selectedDate, customDays]);
+
+  const topExpenses = useMemo(() => {
+    return groupExpensesByCategory(filteredTransactions, categories)
+      .map(item => ({ ...item, percent: summary.expenses > 0 ? (item.value / summary.expenses) * 100 : 0, budget: budgetVariances.get(item.id) }))
       .slice(0, 3);
-  }, [filteredTransactions, summary.expenses]);
+  }, [filteredTransactions, categories, summary.expenses, budgetVariances]);
+
+  const saveBudgets = () => {
+    if (!budgetDraft) return;
+    const next: CategoryBudgets = {};
+    getBudgetCategories(categories).forEach(category => {
+      const value = parseFloat(budgetDraft[category.id] ?? '');
+      if (value > 0) next[category.id] = value;
+    });
+    setBudgets(next);
+    setBudgetDraft(null);
+  };
 
   const balanceEvolutionData = useMemo(() => {
     let currentBalance = 0;
     const sorted = [...filteredTransactions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
     const points: Record<string, number> = {};
     sorted.forEach(t => {
-        const dateKey = new Date(t.date).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+        const dateKey = parseDateKey(t.date).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
         const val = t.type === TransactionType.INCOME ? t.amount : -t.amount;
         currentBalance += val;
         points[dateKey] = currentBalance;
@@ -208,79 +828,495 @@ const App: React.FC = () => {
   }, [filteredTransactions]);
 
   const chartData = useMemo(() => {
-    const categories: Record<string, number> = {};
-    filteredTransactions.filter(t => t.type === TransactionType.EXPENSE).forEach(t => {
-      categories[t.category] = (categories[t.category] || 0) + t.amount;
-    });
-    return Object.entries(categories).map(([name, value]) => ({ name, value })).sort((a, b) => b.value - a.value);
-  }, [filteredTransactions]);
+    return groupExpensesByCategory(filteredTransactions, categories);
+  }, [filteredTransactions, categories]);
 
   const monthlyData = useMemo(() => {
-    const months: Record<string, { income: number; expense: number }> = {};
-    filteredTransactions.forEach(t => {
-      const date = new Date(t.date);
-      let key = '';
-      if (timeRange === 'monthly') {
-        key = date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
-      } else {
-        key = date.toLocaleDateString('pt-BR', { month: 'short' });
-      }
+    return groupByPeriodBucket(filteredTransactions, timeRange, customDays);
+  }, [filteredTransactions, timeRange, customDays]);
+
+  // The portfolio adds up the nights of every unit
+  const occupancy = useMemo(() => {
+    if (scope !== 'all') return calculateOccupancy(filterByProperty(bookings, scope), timeRange, selectedDate, customDays);
+    return combineOccupancy(properties.map(p => calculateOccupancy(filterByProperty(bookings, p.id), timeRange, selectedDate, customDays)));
+  }, [bookings, scope, properties, timeRange, selectedDate, customDays]);
+
+  // Pricing works on a single property, the same one shown in the calendar
+  const rateModel = useMemo(() => buildRateModel(calendarBookings), [calendarBookings]);
+  const rateSuggestions = useMemo(() => {
+    return rateModel ? suggestNightlyRates(rateModel, calendarBookings, new Date(), PRICING_HORIZON_DAYS) : [];
+  }, [rateModel, calendarBookings]);
+  const profitTarget = profitTargets[activePropertyId] ?? 0;
+  const targetAdr = useMemo(() => {
+    return calculateTargetAdr(filterByProperty(transactions, activePropertyId), calendarBookings, profitTarget, new Date());
+  }, [transactions, activePropertyId, calendarBookings, profitTarget]);
+
+  // Calendar follows the dashboard period: it always shows the month of selectedDate
+  const calendarWeeks = useMemo(() => {
+    return buildMonthCalendar(selectedDate, calendarBookings, calendarBlocked);
+  }, [selectedDate, calendarBookings, calendarBlocked]);
+
+  const calendarMaxRate = useMemo(() => {
+    return Math.max(0, ...calendarWeeks.flat().filter(d => d.inMonth).map(d => d.nightlyRate));
+  }, [calendarWeeks]);
+
+  const selectedDayTransactions = useMemo(() => {
+    return selectedCalendarDay ? getFilteredByPeriod(filterByProperty(transactions, activePropertyId), 'daily', selectedCalendarDay.date) : [];
+  }, [transactions, activePropertyId, selectedCalendarDay]);
 
-      if (!months[key]) months[key] = { income: 0, expense: 0 };
-      if (t.type === TransactionType.INCOME) months[key].income += t.amount;
-      else months[key].expense += t.amount;
+  const toggleBlockedDate = (dateKey: string) => {
+    const isBlocked = calendarBlocked.some(b => b.date === dateKey);
+    commitChange('update', `${isBlocked ? 'Desbloqueio' : 'Bloqueio'} de ${parseDateKey(dateKey).toLocaleDateString('pt-BR')}`, {
+      blockedDates: toggleBlockedNight(blockedDates, activePropertyId, dateKey)
     });
-    if (Object.keys(months).length === 0) return [];
-    return Object.entries(months).map(([name, data]) => ({ name, ...data }));
-  }, [filteredTransactions, timeRange]);
+    setSelectedCalendarDay(null);
+  };
+
+  const pendingItems = useMemo(() => getPendingItems(scopedTransactions, toDateKey(new Date())), [scopedTransactions]);
+
+  const confirmSettlement = () => {
+    if (!settling) return;
+    const { transaction, paidAt } = settling;
+    const updatedAt = new Date().toISOString();
+    // The platform fee is withheld from the payout, so it settles together with its income
+    commitChange('update', `${transaction.type === TransactionType.INCOME ? 'Recebimento' : 'Pagamento'}: ${transaction.description || categoryLabel(transaction.category)}`, {
+      transactions: transactions.map(t => t.id === transaction.id || (t.feeFor === transaction.id && !t.isPaid) ? { ...t, isPaid: true, paidAt, updatedAt } : t)
+    });
+    setSettling(null);
+  };
+
+  const isBookingForm = formType === TransactionType.INCOME && formCategory === Category.RENTAL && formCheckOut > formDate;
+
+  // Payment fields shared by plain transactions and stay segments; re-marking a pending item as paid settles it today
+  const buildPaymentFields = (previous?: Transaction): Pick<Transaction, 'isPaid' | 'dueDate' | 'paidAt'> => formIsPaid
+    ? { isPaid: true, dueDate: undefined, paidAt: previous?.isPaid ? previous.paidAt : previous ? toDateKey(new Date()) : undefined }
+    : { isPaid: false, dueDate: formDueDate || formDate, paidAt: undefined };
 
   const handleAddTransaction = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formAmount || parseFloat(formAmount) <= 0) return;
+    const returnTab = editing ? previousTabRef.current : 'dashboard';
+    const updatedAt = editing ? new Date().toISOString() : undefined;
+
+    // A name found in the guest directory links the rental to that guest
+    const formGuestRecord = findGuestByName(guests, formGuest);
+    const guestFields = { guestName: formGuestRecord?.name ?? formGuest.trim(), guestId: formGuestRecord?.id };
 
+    if (isBookingForm) {
+      const existingBooking = editing?.bookingId ? bookings.find(b => b.id === editing.bookingId) : undefined;
+      const booking: Booking = {
+        ...existingBooking,
+        id: existingBooking?.id ?? crypto.randomUUID(),
+        checkIn: formDate,
+        checkOut: formCheckOut,
+        ...guestFields,
+        // A stay without a channel was booked directly
+        channel: formChannel || BookingChannel.DIRECT,
+        grossAmount: parseFloat(formAmount),
+        guests: Math.max(1, parseInt(formGuests) || 1),
+        description: formDesc || undefined,
+        propertyId: formPropertyId || activePropertyId,
+        updatedAt
+      };
+      // Month segments and fees being replaced: the booking's, or the plain income (and its fee) turned into a stay
+      const replaced = transactions.filter(t => existingBooking
+        ? t.bookingId === existingBooking.id
+        : !!editing && (t.id === editing.transactionId || t.feeFor === editing.transactionId));
+      const editedTransaction = editing ? transactions.find(t => t.id === editing.transactionId) : undefined;
+      const bookingTransactions = rebuildBookingTransactions(booking, existingBooking, replaced, channelFeeRules[booking.channel]).map(t => ({
+        ...t,
+        ...buildPaymentFields(editedTransaction),
+        updatedAt
+      }));
+
+      commitChange(editing ? 'update' : 'create', `Hospedagem ${booking.guestName || booking.channel}`, {
+        bookings: existingBooking ? bookings.map(b => b.id === booking.id ? booking : b) : [booking, ...bookings],
+        transactions: [...bookingTransactions, ...transactions.filter(t => !replaced.includes(t))]
+      });
+      resetForm();
+      setActiveTab(returnTab);
+      return;
+    }
+
+    const previous = editing ? transactions.find(t => t.id === editing.transactionId) : undefined;
     const newTransaction: Transaction = {
-      id: crypto.randomUUID(),
+      ...previous,
+      id: editing?.transactionId ?? crypto.randomUUID(),
       type: formType,
       category: formCategory,
       amount: parseFloat(formAmount),
       date: formDate,
       description: formDesc,
-      guestName: formType === TransactionType.INCOME ? formGuest : undefined,
-      isPaid: true
+      guestName: formType === TransactionType.INCOME ? guestFields.guestName : undefined,
+      guestId: formType === TransactionType.INCOME ? guestFields.guestId : undefined,
+      ...buildPaymentFields(previous),
+      propertyId: formPropertyId || activePropertyId,
+      channel: formType === TransactionType.INCOME && formCategory === Category.RENTAL ? formChannel || undefined : undefined,
+      updatedAt
     };
+    // A stay edited into a plain transaction drops its booking
+    if (editing?.bookingId) delete newTransaction.bookingId;
 
-    setTransactions(prev => [newTransaction, ...prev]);
+    // Fees are only recalculated when the amount or channel changed, and never when read from a payout report;
+    // kept fees still follow the income's date and payment status
+    const currentFees = transactions.filter(t => t.feeFor === newTransaction.id);
+    const keepFees = !!previous && !editing?.bookingId
+      && (currentFees.some(t => t.importedFee) || (previous.amount === newTransaction.amount && previous.channel === newTransaction.channel));
+    const fee = newTransaction.channel ? calculateChannelFee(newTransaction.amount, channelFeeRules[newTransaction.channel]) : 0;
+    const feeTransactions = keepFees
+      ? currentFees.map(t => ({
+          ...t,
+          date: newTransaction.date,
+          propertyId: newTransaction.propertyId,
+          isPaid: newTransaction.isPaid,
+          dueDate: newTransaction.dueDate,
+          paidAt: newTransaction.paidAt,
+          updatedAt
+        }))
+      : fee > 0
+        ? reuseTransactionIds([createFeeTransaction(newTransaction, fee)], currentFees).map(t => ({ ...t, updatedAt }))
+        : [];
+
+    const label = newTransaction.description || categoryLabel(newTransaction.category);
+    if (editing) {
+      if (editing.bookingId) {
+        commitChange('update', label, {
+          bookings: bookings.filter(b => b.id !== editing.bookingId),
+          transactions: [newTransaction, ...feeTransactions, ...transactions.filter(t => t.bookingId !== editing.bookingId && t.id !== editing.transactionId)]
+        });
+      } else {
+        commitChange('update', label, {
+          transactions: [...feeTransactions, ...transactions.filter(t => t.feeFor !== editing.transactionId).map(t => t.id === editing.transactionId ? newTransaction : t)]
+        });
+      }
+    } else {
+      commitChange('create', label, { transactions: [newTransaction, ...feeTransactions, ...transactions] });
+    }
     resetForm();
-    setActiveTab('dashboard');
+    setActiveTab(returnTab);
   };
 
   const resetForm = () => {
     setFormAmount('');
     setFormDesc('');
     setFormGuest('');
+    setFormCheckOut('');
+    setFormGuests('2');
     setFormCategory(Category.RENTAL);
+    setFormIsPaid(true);
+    setFormDueDate('');
+    setFormPropertyId('');
+    if (editing) {
+      setEditing(null);
+      setFormType(TransactionType.INCOME);
+      setFormDate(toDateKey(new Date()));
+      setFormChannel(BookingChannel.AIRBNB);
+    }
+  };
+
+  // Pre-fills the Add form; stay income is edited through its booking so all month segments stay consistent
+  const startEditTransaction = (record: Transaction) => {
+    // Platform fees are derived from their income, so the income is edited instead
+    const t = (record.feeFor && transactions.find(x => x.id === record.feeFor)) || record;
+    const booking = t.bookingId ? bookings.find(b => b.id === t.bookingId) : undefined;
+    setFormType(t.type);
+    setFormCategory(t.category);
+    setFormAmount(String(booking ? booking.grossAmount : t.amount));
+    setFormDate(booking ? booking.checkIn : t.date);
+    setFormCheckOut(booking ? booking.checkOut : '');
+    setFormDesc(booking ? booking.description ?? '' : t.description);
+    setFormGuest(booking ? booking.guestName : t.guestName ?? '');
+    setFormIsPaid(t.isPaid);
+    setFormDueDate(t.dueDate ?? '');
+    setFormPropertyId(getPropertyId(t));
+    // Income recorded without a channel has no platform fee to add
+    setFormChannel(booking?.channel ?? t.channel ?? '');
+    if (booking) {
+      setFormGuests(String(booking.guests));
+    }
+    setEditing({ transactionId: t.id, bookingId: booking?.id });
+    if (activeTab !== 'add') previousTabRef.current = activeTab;
+    setActiveTab('add');
   };
 
   const deleteTransaction = (id: string) => {
-    if (confirm('Deseja realmente excluir este registro?')) {
-      setTransactions(prev => prev.filter(t => t.id !== id));
+    const target = transactions.find(t => t.id === id);
+    if (target?.bookingId) {
+      if (confirm('Este lançamento pertence a uma reserva. Deseja excluir a reserva e todos os seus lançamentos?')) {
+        commitChange('delete', target.description || categoryLabel(target.category), {
+          bookings: bookings.filter(b => b.id !== target.bookingId),
+          transactions: transactions.filter(t => t.bookingId !== target.bookingId)
+        });
+      }
+      return;
+    }
+    if (target?.recurringId && recurringTemplates.some(r => r.id === target.recurringId)) {
+      // Removing one occurrence skips it so it is not generated again; the rest of the series is kept
+      if (confirm('Este lançamento é recorrente. Deseja pular esta ocorrência? As próximas continuam sendo geradas.')) {
+        commitChange('delete', target.description || categoryLabel(target.category), {
+          transactions: transactions.filter(t => t.id !== id),
+          recurringTemplates: recurringTemplates.map(r => r.id === target.recurringId ? { ...r, skipped: [...r.skipped, target.occurrenceKey!] } : r)
+        });
+      }
+      return;
+    }
+    if (target && confirm('Deseja realmente excluir este registro?')) {
+      commitChange('delete', target.description || categoryLabel(target.category), { transactions: transactions.filter(t => t.id !== id && t.feeFor !== id) });
+    }
+  };
+
+  const openRecurringForm = () => {
+    const today = toDateKey(new Date());
+    setRecurringForm({
+      type: TransactionType.EXPENSE,
+      category: Category.TAXES,
+      amount: '',
+      description: '',
+      frequency: 'monthly',
+      intervalMonths: 3,
+      startDate: today,
+      endDate: undefined,
+      dayOfMonth: parseDateKey(today).getDate(),
+      propertyId: activePropertyId
+    });
+  };
+
+  const saveRecurringTemplate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!recurringForm) return;
+    const amount = parseFloat(recurringForm.amount);
+    if (!amount || amount <= 0 || !recurringForm.description.trim()) return;
+    if (recurringForm.endDate && recurringForm.endDate < recurringForm.startDate) {
+      alert('A data final deve ser posterior à data inicial.');
+      return;
+    }
+    const template: RecurringTemplate = {
+      ...recurringForm,
+      id: crypto.randomUUID(),
+      amount,
+      description: recurringForm.description.trim(),
+      dayOfMonth: Math.min(31, Math.max(1, Math.round(recurringForm.dayOfMonth) || 1)),
+      endDate: recurringForm.endDate || undefined,
+      skipped: []
+    };
+    commitChange('create', `Recorrência: ${template.description}`, { recurringTemplates: [...recurringTemplates, template] });
+    setRecurringForm(null);
+  };
+
+  const endRecurringTemplate = (template: RecurringTemplate) => {
+    const today = toDateKey(new Date());
+    commitChange('update', `Recorrência encerrada: ${template.description}`, {
+      transactions: transactions.filter(t => t.recurringId !== template.id || t.isPaid || t.date <= today),
+      recurringTemplates: recurringTemplates.map(r => r.id === template.id ? { ...r, endDate: today } : r)
+    });
+  };
+
+  const deleteRecurringTemplate = (template: RecurringTemplate) => {
+    if (!confirm(`Excluir a recorrência "${template.description}"? Os lançamentos já pagos são mantidos.`)) return;
+    commitChange('delete', `Recorrência: ${template.description}`, {
+      transactions: transactions.filter(t => t.recurringId !== template.id || t.isPaid),
+      recurringTemplates: recurringTemplates.filter(r => r.id !== template.id)
+    });
+  };
+
+  const openCategoryForm = (category?: CategoryDefinition) => {
+    setCategoryForm(category ?? {
+      name: '',
+      types: [TransactionType.EXPENSE],
+      color: CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length],
+      icon: 'Tag'
+    });
+  };
+
+  const saveCategory = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!categoryForm) return;
+    const name = categoryForm.name.trim();
+    if (!name || categoryForm.types.length === 0) return;
+    if (categories.some(c => c.id !== categoryForm.id && c.parentId === categoryForm.parentId && c.name.toLowerCase() === name.toLowerCase())) {
+      alert('Já existe uma categoria com este nome.');
+      return;
+    }
+    const saved: CategoryDefinition = { ...categoryForm, id: categoryForm.id ?? crypto.randomUUID(), name, parentId: categoryForm.parentId || undefined };
+    commitChange(categoryForm.id ? 'update' : 'create', `Categoria ${saved.name}`, {
+      categories: categoryForm.id ? categories.map(c => c.id === saved.id ? saved : c) : [...categories, saved]
+    });
+    setCategoryForm(null);
+  };
+
+  const deleteCategory = (category: CategoryDefinition) => {
+    const inUse = transactions.filter(t => t.category === category.id).length + recurringTemplates.filter(r => r.category === category.id).length;
+    if (inUse > 0) {
+      alert(`"${category.name}" está em uso em ${inUse} lançamento(s) ou recorrência(s) e não pode ser excluída.`);
+      return;
+    }
+    if (categories.some(c => c.parentId === category.id)) {
+      alert('Exclua as subcategorias antes de excluir esta categoria.');
+      return;
+    }
+    if (!confirm(`Excluir a categoria "${category.name}"?`)) return;
+    commitChange('delete', `Categoria ${category.name}`, { categories: categories.filter(c => c.id !== category.id) });
+    setBudgets(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== category.id)));
+  };
+
+  const openPropertyForm = (property?: Property) => {
+    setPropertyForm(property ?? { name: '', location: '', color: PROPERTY_COLORS[properties.length % PROPERTY_COLORS.length] });
+  };
+
+  const saveProperty = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!propertyForm) return;
+    const name = propertyForm.name.trim();
+    if (!name) return;
+    const saved: Property = { ...propertyForm, id: propertyForm.id ?? crypto.randomUUID(), name, location: propertyForm.location?.trim() || undefined };
+    commitChange(propertyForm.id ? 'update' : 'create', `Imóvel ${saved.name}`, {
+      properties: propertyForm.id ? properties.map(p => p.id === saved.id ? saved : p) : [...properties, saved]
+    });
+    setPropertyForm(null);
+  };
+
+  const deleteProperty = (property: Property) => {
+    const inUse = filterByProperty(transactions, property.id).length + filterByProperty(bookings, property.id).length + filterByProperty(recurringTemplates, property.id).length;
+    if (inUse > 0) {
+      alert(`"${property.name}" possui ${inUse} lançamento(s), reserva(s) ou recorrência(s) e não pode ser excluído.`);
+      return;
+    }
+    if (!confirm(`Excluir o imóvel "${property.name}"?`)) return;
+    commitChange('delete', `Imóvel ${property.name}`, {
+      properties: properties.filter(p => p.id !== property.id),
+      blockedDates: blockedDates.filter(b => getPropertyId(b) !== property.id)
+    });
+  };
+
+  const selectPropertyScope = (next: PropertyScope) => {
+    setPropertyScope(next);
+    setShowProperties(false);
+    setAiInsight(null);
+  };
+
+  // Guest directory of the current scope: registered guests plus names typed on rentals
+  const guestDirectory = useMemo(() => {
+    return buildGuestDirectory(guests, scopedTransactions, filterByProperty(bookings, scope));
+  }, [guests, scopedTransactions, bookings, scope]);
+  const duplicateGuestNames = useMemo(() => findDuplicateGuestNames(transactions, bookings), [transactions, bookings]);
+  const formGuestSummary = formGuest.trim() ? guestDirectory.find(entry => normalizeGuestName(entry.name) === normalizeGuestName(formGuest)) : undefined;
+
+  const saveGuest = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!guestForm) return;
+    const { mergeKeys, ...fields } = guestForm;
+    const name = fields.name.trim();
+    if (!name) return;
+    const namesake = findGuestByName(guests, name);
+    if (namesake && namesake.id !== fields.id) {
+      alert(`Já existe um hóspede chamado "${namesake.name}". Use "Unificar com" para juntar os cadastros.`);
+      return;
     }
+    const previous = fields.id ? guests.find(g => g.id === fields.id) : undefined;
+    const merged = guestDirectory.filter(entry => mergeKeys.includes(entry.key));
+    const mergedIds = merged.flatMap(entry => entry.guest ? [entry.guest.id] : []);
+    // Details of merged guests fill the fields left blank
+    const filled = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined && value !== ''));
+    const saved: Guest = {
+      ...merged.reduce((acc, entry) => ({ ...entry.guest, ...acc }), {}),
+      ...filled,
+      id: fields.id ?? crypto.randomUUID(),
+      name
+    };
+    const names = [previous?.name ?? name, ...merged.map(entry => entry.name)];
+    commitChange(previous ? 'update' : 'create', `Hóspede ${saved.name}`, {
+      guests: [...guests.filter(g => g.id !== saved.id && !mergedIds.includes(g.id)), saved],
+      transactions: linkRecordsToGuest(transactions, saved, names, mergedIds),
+      bookings: linkRecordsToGuest(bookings, saved, names, mergedIds)
+    });
+    setGuestForm(null);
+  };
+
+  // Rentals keep the name typed on them; only the link to the directory is removed
+  const deleteGuest = (guest: Guest) => {
+    if (!confirm(`Remover "${guest.name}" do cadastro de hóspedes?`)) return;
+    const unlink = <T extends { guestId?: string }>(records: T[]) => records.map(r => {
+      if (r.guestId !== guest.id) return r;
+      const { guestId, ...rest } = r;
+      return rest as T;
+    });
+    commitChange('delete', `Hóspede ${guest.name}`, {
+      guests: guests.filter(g => g.id !== guest.id),
+      transactions: unlink(transactions),
+      bookings: unlink(bookings)
+    });
+    setGuestForm(null);
+  };
+
+  // Spellings of one name become a single guest, registered under the most used spelling unless it already exists
+  const mergeDuplicateGuestNames = (names: string[]) => {
+    const existing = findGuestByName(guests, names[0]);
+    const guest: Guest = existing ?? { id: crypto.randomUUID(), name: names[0] };
+    commitChange('update', `Hóspedes unificados: ${guest.name}`, {
+      guests: existing ? guests : [...guests, guest],
+      transactions: linkRecordsToGuest(transactions, guest, names),
+      bookings: linkRecordsToGuest(bookings, guest, names)
+    });
   };
 
   const fetchAiInsights = async () => {
     setIsAnalyzing(true);
-    const insight = await getFinancialInsights(filteredTransactions, getPeriodLabelForDate(timeRange, selectedDate));
+    const labelled = filteredTransactions.map(t => ({ ...t, category: categoryLabel(t.category) }));
+    const describe = (p: Property) => `"${p.name}"${p.location ? ` (${p.location})` : ''}`;
+    const subject = scope === 'all' && properties.length > 1
+      ? `um portfólio de ${properties.length} imóveis de temporada: ${properties.map(describe).join(', ')}`
+      : `o imóvel ${describe(activeProperty)}`;
+    const pricing = rateModel && [
+      `Imóvel de referência: ${activeProperty.name}; diária média histórica R$ ${rateModel.baseRate.toFixed(0)} (${rateModel.nights} noites).`,
+      `Fim de semana ${((rateModel.weekendFactor / rateModel.weekdayFactor - 1) * 100).toFixed(0)}% acima dos dias úteis.`,
+      // Math.min/max of an empty list would print ±Infinity
+      rateSuggestions.length > 0
+        ? `Diárias sugeridas nos próximos ${PRICING_HORIZON_DAYS} dias: de R$ ${Math.min(...rateSuggestions.map(s => s.rate))} a R$ ${Math.max(...rateSuggestions.map(s => s.rate))}.`
+        : '',
+      targetAdr && profitTarget > 0
+        ? `Para um lucro de R$ ${profitTarget.toFixed(0)}/mês com a ocupação atual, a diária média precisa ir de R$ ${targetAdr.currentAdr.toFixed(0)} para R$ ${targetAdr.requiredAdr.toFixed(0)} (${targetAdr.adrChange >= 0 ? '+' : ''}${targetAdr.adrChange.toFixed(0)}%).`
+        : ''
+    ].filter(Boolean).join('\n');
+    const insight = await getFinancialInsights(labelled, getPeriodLabelForDate(timeRange, selectedDate, customDays), subject, pricing || undefined);
     setAiInsight(insight);
     setIsAnalyzing(false);
   };
 
-  const handlePrint = () => {
-    window.print();
+  const getPeriodLabel = () => getPeriodLabelForDate(timeRange, selectedDate, customDays);
+
+  const canSharePdf = typeof navigator.canShare === 'function'
+    && navigator.canShare({ files: [new File([], 'relatorio.pdf', { type: 'application/pdf' })] });
+
+  const exportOwnerStatement = (statement: OwnerStatement) => {
+    const monthLabel = getPeriodLabelForDate('monthly', selectedDate);
+    downloadFile(
+      generateOwnerStatementPdf(statement, monthLabel, categories),
+      `extrato-proprietario-${toFileSlug(statement.property.name)}-${toFileSlug(monthLabel)}.pdf`
+    );
   };
 
-  const COLORS = ['#0891B2', '#2DD4BF', '#10B981', '#F43F5E', '#6366F1', '#F59E0B'];
+  const handleExportPdf = async (mode: 'download' | 'share') => {
+    const blob = generatePdfReport({
+      periodLabel: getPeriodLabel(),
+      scopeLabel,
+      summary,
+      categories: chartData,
+      balanceEvolution: balanceEvolutionData,
+      transactions: filteredTransactions,
+      categoryDefinitions: categories
+    });
+    const fileName = `relatorio-porto-financas-${toFileSlug(getPeriodLabel())}.pdf`;
 
-  const getPeriodLabel = () => getPeriodLabelForDate(timeRange, selectedDate);
+    if (mode === 'share') {
+      try {
+        await navigator.share({ files: [new File([blob], fileName, { type: 'application/pdf' })], title: `Relatório ${getPeriodLabel()}` });
+        return;
+      } catch (error: any) {
+        if (error?.name === 'AbortError') return;
+      }
+    }
+    downloadFile(blob, fileName);
+  };
 
   // Animation Variants
   const containerVariants = {
@@ -329,7 +1365,7 @@ const App: React.FC = () => {
                 </button>
               </div>
               
-              <div className="overflow-y-auto p-6 space-y-6 print-content">
+              <div className="overflow-y-auto p-6 space-y-6">
                 {/* Summary Block */}
                 <div className="grid grid-cols-3 gap-4 text-center">
                   <div className="p-4 bg-emerald-50 rounded-2xl border border-emerald-100">
@@ -353,7 +1389,7 @@ const App: React.FC = () => {
                     {chartData.map((item, idx) => (
                       <div key={idx} className="flex justify-between items-center text-sm">
                         <span className="text-slate-600 flex items-center gap-2">
-                          <div className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[idx % COLORS.length] }}></div>
+                          <div className="w-2 h-2 rounded-full" style={{ backgroundColor: item.color }}></div>
                           {item.name}
                         </span>
                         <span className="font-medium text-slate-800">R$ {item.value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</span>
@@ -362,6 +1398,52 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Owner Statements */}
+                {ownerStatements.length > 0 && (
+                  <div>
+                    <h3 className="font-bold text-slate-800 mb-3 text-sm uppercase tracking-wide border-b border-slate-100 pb-2">
+                      Extrato do Proprietário • {getPeriodLabelForDate('monthly', selectedDate)}
+                    </h3>
+                    <div className="space-y-4">
+                      {ownerStatements.map(statement => (
+                        <div key={statement.property.id} className="p-4 rounded-2xl border border-slate-100 space-y-2 text-sm">
+                          <div className="flex justify-between items-start gap-2 mb-1">
+                            <div className="min-w-0">
+                              <p className="font-bold text-slate-700 truncate">{statement.property.name}</p>
+                              <p className="text-[10px] text-slate-400">{statement.owner.name || 'Proprietário sem nome'}</p>
+                            </div>
+                            <button
+                              onClick={() => exportOwnerStatement(statement)}
+                              className="text-[10px] font-bold text-cyan-700 bg-cyan-50 px-2 py-1 rounded-lg hover:bg-cyan-100 whitespace-nowrap flex items-center gap-1"
+                            >
+                              <Download className="w-3 h-3" /> PDF
+                            </button>
+                          </div>
+                          {[
+                            { label: 'Receita bruta', value: statement.grossIncome, sign: '+' },
+                            { label: 'Taxas de plataforma', value: statement.platformFees, sign: '-' },
+                            { label: 'Despesas do proprietário', value: statement.totalExpenses, sign: '-' },
+                            { label: `Administração (${statement.owner.feePercent}%)`, value: statement.managementFee, sign: '-' }
+                          ].map(line => (
+                            <div key={line.label} className="flex justify-between items-center">
+                              <span className="text-slate-500">{line.label}</span>
+                              <span className={`font-medium ${line.sign === '+' ? 'text-emerald-600' : 'text-rose-600'}`}>
+                                {line.sign} R$ {line.value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                              </span>
+                            </div>
+                          ))}
+                          <div className="flex justify-between items-center pt-2 border-t border-slate-100">
+                            <span className="font-bold text-slate-700">A repassar</span>
+                            <span className={`font-extrabold ${statement.netTransfer >= 0 ? 'text-cyan-700' : 'text-rose-600'}`}>
+                              R$ {statement.netTransfer.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                  {/* Transactions List */}
                  <div>
                   <h3 className="font-bold text-slate-800 mb-3 text-sm uppercase tracking-wide border-b border-slate-100 pb-2">Extrato do Período</h3>
@@ -369,8 +1451,8 @@ const App: React.FC = () => {
                     {filteredTransactions.map(t => (
                       <div key={t.id} className="flex justify-between items-center py-2 border-b border-slate-50 last:border-0">
                         <div>
-                          <p className="text-sm font-medium text-slate-700">{t.description || t.category}</p>
-                          <p className="text-[10px] text-slate-400">{new Date(t.date).toLocaleDateString('pt-BR')} {t.guestName && `• ${t.guestName}`}</p>
+                          <p className="text-sm font-medium text-slate-700">{t.description || categoryLabel(t.category)}</p>
+                          <p className="text-[10px] text-slate-400">{parseDateKey(t.date).toLocaleDateString('pt-BR')} {t.guestName && `• ${t.guestName}`}</p>
                         </div>
                         <span className={`text-sm font-bold ${t.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-rose-600'}`}>
                           {t.type === TransactionType.INCOME ? '+' : '-'} {t.amount.toLocaleString('pt-BR')}
@@ -381,13 +1463,37 @@ const App: React.FC = () => {
                 </div>
               </div>
 
-              <div className="p-6 border-t border-slate-100 bg-slate-50">
-                <button 
-                  onClick={handlePrint}
-                  className="w-full bg-slate-800 text-white py-4 rounded-xl font-bold flex items-center justify-center gap-2 shadow-lg hover:bg-slate-700 transition-all active:scale-95"
-                >
-                  <Printer className="w-5 h-5" /> Imprimir Relatório
-                </button>
+              <div className="p-6 border-t border-slate-100 bg-slate-50 space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <button 
+                    onClick={() => exportSpreadsheet(filteredTransactions, timeRange, selectedDate, customDays, 'csv')}
+                    className="bg-white border border-slate-200 text-slate-700 py-3 rounded-xl font-bold text-sm flex items-center justify-center gap-2 hover:bg-slate-100 transition-all active:scale-95"
+                  >
+                    <FileSpreadsheet className="w-4 h-4 text-emerald-600" /> CSV
+                  </button>
+                  <button 
+                    onClick={() => exportSpreadsheet(filteredTransactions, timeRange, selectedDate, customDays, 'xlsx')}
+                    className="bg-white border border-slate-200 text-slate-700 py-3 rounded-xl font-bold text-sm flex items-center justify-center gap-2 hover:bg-slate-100 transition-all active:scale-95"
+                  >
+                    <FileSpreadsheet className="w-4 h-4 text-emerald-600" /> Excel
+                  </button>
+                </div>
+                <div className="flex gap-3">
+                  <button 
+                    onClick={() => handleExportPdf('download')}
+                    className="flex-1 bg-slate-800 text-white py-4 rounded-xl font-bold flex items-center justify-center gap-2 shadow-lg hover:bg-slate-700 transition-all active:scale-95"
+                  >
+                    <Download className="w-5 h-5" /> Baixar PDF
+                  </button>
+                  {canSharePdf && (
+                    <button 
+                      onClick={() => handleExportPdf('share')}
+                      className="bg-cyan-600 text-white px-5 rounded-xl font-bold flex items-center justify-center shadow-lg hover:bg-cyan-500 transition-all active:scale-95"
+                    >
+                      <Share2 className="w-5 h-5" />
+                    </button>
+                  )}
+                </div>
               </div>
             </motion.div>
           </motion.div>
@@ -429,15 +1535,28 @@ const App: React.FC = () => {
               {explanation.type === 'list' && explanation.data && (
                 <div className="space-y-3 mt-4 max-h-60 overflow-y-auto pr-2 custom-scrollbar">
                   {explanation.data.map((item, idx) => (
-                    <div key={idx} className="flex justify-between items-center text-sm p-3 bg-slate-50 rounded-xl hover:bg-slate-100 transition-colors">
-                      <div className="flex items-center gap-3">
-                        <div className="w-3 h-3 rounded-full shadow-sm ring-2 ring-white" style={{ backgroundColor: item.color }}></div>
-                        <div>
-                          <p className="font-semibold text-slate-700">{item.label}</p>
-                          {item.percent && <p className="text-[10px] text-slate-400 font-medium">{item.percent} do total</p>}
+                    <div key={idx} className="text-sm p-3 bg-slate-50 rounded-xl hover:bg-slate-100 transition-colors">
+                      <div className="flex justify-between items-center">
+                        <div className="flex items-center gap-3">
+                          <div className="w-3 h-3 rounded-full shadow-sm ring-2 ring-white" style={{ backgroundColor: item.color }}></div>
+                          <div>
+                            <p className="font-semibold text-slate-700">{item.label}</p>
+                            {item.percent && <p className="text-[10px] text-slate-400 font-medium">{item.percent} do total</p>}
+                          </div>
                         </div>
+                        <span className="font-bold text-slate-800 bg-white px-2 py-1 rounded-md shadow-sm">{item.value}</span>
                       </div>
-                      <span className="font-bold text-slate-800 bg-white px-2 py-1 rounded-md shadow-sm">{item.value}</span>
+                      {item.budget && (
+                        <div className="mt-2">
+                          <div className="w-full bg-white h-1.5 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full rounded-full ${item.budget.over ? 'bg-rose-600' : item.budget.usage >= 80 ? 'bg-amber-400' : 'bg-emerald-400'}`}
+                              style={{ width: `${Math.min(100, item.budget.usage)}%` }}
+                            />
+                          </div>
+                          <p className={`text-[10px] mt-1 font-medium ${item.budget.over ? 'text-rose-600' : 'text-slate-400'}`}>{item.budget.text}</p>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -455,15 +1574,15 @@ const App: React.FC = () => {
         )}
       </AnimatePresence>
 
-      {/* Backup Modal */}
+      {/* Budgets Sheet */}
       <AnimatePresence>
-        {showBackupModal && (
+        {budgetDraft && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             className="fixed inset-0 z-[70] bg-slate-900/60 backdrop-blur-sm flex items-end sm:items-center justify-center sm:p-4"
-            onClick={() => setShowBackupModal(false)}
+            onClick={() => setBudgetDraft(null)}
           >
             <motion.div
               initial={{ y: 100, opacity: 0 }}
@@ -472,50 +1591,1995 @@ const App: React.FC = () => {
               className="bg-white w-full max-w-sm rounded-t-[2rem] sm:rounded-3xl shadow-2xl p-6"
               onClick={e => e.stopPropagation()}
             >
-              <div className="flex justify-between items-start mb-5">
-                <div className="bg-cyan-100 p-3 rounded-2xl">
-                  <Download className="w-6 h-6 text-cyan-600" />
+              <div className="flex justify-between items-start mb-4">
+                <div className="bg-rose-100 p-3 rounded-2xl">
+                  <Target className="w-6 h-6 text-rose-600" />
                 </div>
-                <button onClick={() => setShowBackupModal(false)} className="p-2 bg-slate-50 rounded-full text-slate-400 hover:bg-slate-100 transition-colors">
+                <button onClick={() => setBudgetDraft(null)} className="p-2 bg-slate-50 rounded-full text-slate-400 hover:bg-slate-100 transition-colors">
                   <X className="w-5 h-5" />
                 </button>
               </div>
-              <h3 className="text-xl font-bold text-slate-800 mb-1">Backup de Dados</h3>
-              <p className="text-slate-400 text-sm mb-6">Exporte ou importe suas transações para não perder seus dados.</p>
+              <h3 className="text-xl font-bold text-slate-800">Orçamento Mensal</h3>
+              <p className="text-sm text-slate-500 mt-1 mb-4">Limite por categoria de despesa. Nas visões semestral e anual o valor é multiplicado pelos meses do período.</p>
+              <div className="space-y-2">
+                {getBudgetCategories(categories).map(category => (
+                  <div key={category.id} className="flex items-center justify-between gap-3">
+                    <span className="text-sm font-medium text-slate-600">{category.name}</span>
+                    <div className="relative w-36">
+                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-xs font-bold text-slate-400">R$</span>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={budgetDraft[category.id] ?? ''}
+                        onChange={(e) => setBudgetDraft({ ...budgetDraft, [category.id]: e.target.value })}
+                        placeholder="Sem limite"
+                        className="w-full bg-slate-50 border-2 border-transparent rounded-xl py-2 pl-9 pr-3 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <motion.button
+                whileTap={{ scale: 0.95 }}
+                onClick={saveBudgets}
+                className="w-full mt-6 bg-slate-800 text-white font-bold py-3 rounded-xl hover:bg-slate-700 transition-colors"
+              >
+                Salvar Orçamentos
+              </motion.button>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
 
+      {/* Channel Fees Sheet */}
+      <AnimatePresence>
+        {channelFeeDraft && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[70] bg-slate-900/60 backdrop-blur-sm flex items-end sm:items-center justify-center sm:p-4"
+            onClick={() => setChannelFeeDraft(null)}
+          >
+            <motion.div
+              initial={{ y: 100, opacity: 0 }}
+              animate={{ y: 0, opacity: 1, transition: { type: "spring", stiffness: 300, damping: 30 } }}
+              exit={{ y: 100, opacity: 0 }}
+              className="bg-white w-full max-w-sm rounded-t-[2rem] sm:rounded-3xl shadow-2xl p-6"
+              onClick={e => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-start mb-4">
+                <div className="bg-violet-100 p-3 rounded-2xl">
+                  <Percent className="w-6 h-6 text-violet-600" />
+                </div>
+                <button onClick={() => setChannelFeeDraft(null)} className="p-2 bg-slate-50 rounded-full text-slate-400 hover:bg-slate-100 transition-colors">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              <h3 className="text-xl font-bold text-slate-800">Taxas por Canal</h3>
+              <p className="text-sm text-slate-500 mt-1 mb-4">Comissão sobre o valor bruto e taxa fixa por reserva. Aplicadas a novos lançamentos e ao editar os existentes.</p>
               <div className="space-y-3">
+                {Object.values(BookingChannel).map(channel => (
+                  <div key={channel} className="flex items-center justify-between gap-3">
+                    <span className="text-sm font-medium text-slate-600 flex items-center gap-2">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: CHANNEL_COLORS[channel] }} />
+                      {channel}
+                    </span>
+                    <div className="flex gap-2 w-44">
+                      <div className="relative flex-1">
+                        <input
+                          type="number"
+                          step="0.1"
+                          min="0"
+                          max="100"
+                          value={channelFeeDraft[channel].commissionPercent}
+                          onChange={(e) => setChannelFeeDraft({ ...channelFeeDraft, [channel]: { ...channelFeeDraft[channel], commissionPercent: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) } })}
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-xl py-2 pl-3 pr-6 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                        />
+                        <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs font-bold text-slate-400">%</span>
+                      </div>
+                      <div className="relative flex-1">
+                        <span className="absolute left-2 top-1/2 -translate-y-1/2 text-xs font-bold text-slate-400">R$</span>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={channelFeeDraft[channel].fixedFee}
+                          onChange={(e) => setChannelFeeDraft({ ...channelFeeDraft, [channel]: { ...channelFeeDraft[channel], fixedFee: Math.max(0, parseFloat(e.target.value) || 0) } })}
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-xl py-2 pl-8 pr-2 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <motion.button
+                whileTap={{ scale: 0.95 }}
+                onClick={saveChannelFeeRules}
+                className="w-full mt-6 bg-slate-800 text-white font-bold py-3 rounded-xl hover:bg-slate-700 transition-colors"
+              >
+                Salvar Taxas
+              </motion.button>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Settle Pending Sheet */}
+      <AnimatePresence>
+        {settling && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[70] bg-slate-900/60 backdrop-blur-sm flex items-end sm:items-center justify-center sm:p-4"
+            onClick={() => setSettling(null)}
+          >
+            <motion.div
+              initial={{ y: 100, opacity: 0 }}
+              animate={{ y: 0, opacity: 1, transition: { type: "spring", stiffness: 300, damping: 30 } }}
+              exit={{ y: 100, opacity: 0 }}
+              className="bg-white w-full max-w-sm rounded-t-[2rem] sm:rounded-3xl shadow-2xl p-6"
+              onClick={e => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-start mb-4">
+                <div className={`p-3 rounded-2xl ${settling.transaction.type === TransactionType.INCOME ? 'bg-emerald-100' : 'bg-rose-100'}`}>
+                  <Wallet className={`w-6 h-6 ${settling.transaction.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-rose-600'}`} />
+                </div>
+                <button onClick={() => setSettling(null)} className="p-2 bg-slate-50 rounded-full text-slate-400 hover:bg-slate-100 transition-colors">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              <h3 className="text-xl font-bold text-slate-800">
+                {settling.transaction.type === TransactionType.INCOME ? 'Confirmar recebimento' : 'Confirmar pagamento'}
+              </h3>
+              <p className="text-sm text-slate-500 mt-1 mb-4">
+                {settling.transaction.description || categoryLabel(settling.transaction.category)} • R$ {settling.transaction.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                <br />
+                <span className="text-[11px]">Vencimento {parseDateKey(getDueDate(settling.transaction)).toLocaleDateString('pt-BR')}</span>
+              </p>
+              <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">
+                {settling.transaction.type === TransactionType.INCOME ? 'Recebido em' : 'Pago em'}
+              </label>
+              <input
+                type="date"
+                value={settling.paidAt}
+                onChange={(e) => setSettling({ ...settling, paidAt: e.target.value })}
+                className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+              />
+              <motion.button
+                whileTap={{ scale: 0.95 }}
+                onClick={confirmSettlement}
+                disabled={!settling.paidAt}
+                className="w-full mt-6 bg-slate-800 text-white font-bold py-3 rounded-xl hover:bg-slate-700 transition-colors disabled:opacity-40"
+              >
+                Confirmar
+              </motion.button>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Calendar Day Sheet */}
+      <AnimatePresence>
+        {selectedCalendarDay && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[70] bg-slate-900/60 backdrop-blur-sm flex items-end sm:items-center justify-center sm:p-4"
+            onClick={() => setSelectedCalendarDay(null)}
+          >
+            <motion.div
+              initial={{ y: 100, opacity: 0 }}
+              animate={{ y: 0, opacity: 1, transition: { type: "spring", stiffness: 300, damping: 30 } }}
+              exit={{ y: 100, opacity: 0 }}
+              className="bg-white w-full max-w-sm rounded-t-[2rem] sm:rounded-3xl shadow-2xl p-6"
+              onClick={e => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-start mb-4">
+                <div className="bg-cyan-100 p-3 rounded-2xl">
+                  <CalendarDays className="w-6 h-6 text-cyan-600" />
+                </div>
+                <button onClick={() => setSelectedCalendarDay(null)} className="p-2 bg-slate-50 rounded-full text-slate-400 hover:bg-slate-100 transition-colors">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              <h3 className="text-xl font-bold text-slate-800 mb-4">{getPeriodLabelForDate('daily', selectedCalendarDay.date)}</h3>
+
+              {selectedCalendarDay.booking ? (
+                <div className="p-4 rounded-2xl border mb-4" style={{ borderColor: CHANNEL_COLORS[selectedCalendarDay.booking.channel], backgroundColor: `${CHANNEL_COLORS[selectedCalendarDay.booking.channel]}10` }}>
+                  <p className="font-bold text-slate-800 text-sm">{selectedCalendarDay.booking.guestName || 'Hóspede não informado'}</p>
+                  <p className="text-[11px] text-slate-500 mt-1">
+                    {parseDateKey(selectedCalendarDay.booking.checkIn).toLocaleDateString('pt-BR')} → {parseDateKey(selectedCalendarDay.booking.checkOut).toLocaleDateString('pt-BR')} • {selectedCalendarDay.booking.channel} • {selectedCalendarDay.booking.guests} hósp.
+                  </p>
+                  <p className="text-xs font-bold text-slate-700 mt-2">Diária: R$ {selectedCalendarDay.nightlyRate.toLocaleString('pt-BR', { maximumFractionDigits: 2 })}</p>
+                </div>
+              ) : (
                 <motion.button
                   whileTap={{ scale: 0.95 }}
-                  onClick={exportData}
-                  className="w-full flex items-center gap-4 p-4 bg-emerald-50 hover:bg-emerald-100 rounded-2xl border border-emerald-100 transition-colors group"
+                  onClick={() => toggleBlockedDate(selectedCalendarDay.dateKey)}
+                  className="w-full mb-4 flex items-center justify-center gap-2 py-3 rounded-xl bg-slate-100 text-slate-600 font-bold text-sm hover:bg-slate-200 transition-colors"
                 >
-                  <div className="bg-emerald-500 p-3 rounded-xl text-white group-hover:scale-110 transition-transform">
-                    <Download className="w-5 h-5" />
-                  </div>
-                  <div className="text-left">
-                    <p className="font-bold text-slate-800 text-sm">Exportar Backup</p>
-                    <p className="text-[11px] text-slate-400">{transactions.length} transações • JSON</p>
-                  </div>
+                  <Ban className="w-4 h-4" /> {selectedCalendarDay.blocked ? 'Desbloquear data' : 'Bloquear data'}
                 </motion.button>
+              )}
 
-                <label className="w-full flex items-center gap-4 p-4 bg-cyan-50 hover:bg-cyan-100 rounded-2xl border border-cyan-100 transition-colors cursor-pointer group">
-                  <div className="bg-cyan-500 p-3 rounded-xl text-white group-hover:scale-110 transition-transform">
-                    <Upload className="w-5 h-5" />
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Lançamentos do dia</p>
+              <div className="space-y-2 max-h-60 overflow-y-auto pr-2 custom-scrollbar">
+                {selectedDayTransactions.length > 0 ? selectedDayTransactions.map(t => (
+                  <div key={t.id} className="flex justify-between items-center text-sm p-3 bg-slate-50 rounded-xl">
+                    <div>
+                      <p className="font-semibold text-slate-700">{t.description || categoryLabel(t.category)}</p>
+                      <p className="text-[10px] text-slate-400">{categoryLabel(t.category)}{t.guestName && ` • ${t.guestName}`}</p>
+                    </div>
+                    <span className={`font-bold ${t.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-rose-600'}`}>
+                      {t.type === TransactionType.INCOME ? '+' : '-'} {t.amount.toLocaleString('pt-BR')}
+                    </span>
                   </div>
-                  <div className="text-left">
-                    <p className="font-bold text-slate-800 text-sm">Importar Backup</p>
-                    <p className="text-[11px] text-slate-400">Selecione um arquivo JSON</p>
+                )) : (
+                  <p className="text-slate-400 text-sm italic">Nenhum lançamento nesta data.</p>
+                )}
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* iCal Import Preview */}
+      <AnimatePresence>
+        {icalPreview && (
+          <motion.div 
+            initial={{ opacity: 0 }} 
+            animate={{ opacity: 1 }} 
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, opacity: 0 }} 
+              animate={{ scale: 1, opacity: 1 }} 
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl flex flex-col overflow-hidden"
+            >
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                <div>
+                  <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <CalendarDays className="w-5 h-5 text-cyan-600" /> Importar Calendário
+                  </h2>
+                  <p className="text-xs text-slate-500 mt-1">{icalPreview.length} eventos encontrados • {icalPreview.filter(s => s.alreadyImported).length} já importados</p>
+                </div>
+                <button onClick={() => setIcalPreview(null)} className="bg-white p-2 rounded-full shadow-sm border border-slate-200 text-slate-400 hover:text-slate-600">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="overflow-y-auto p-4 space-y-2 custom-scrollbar">
+                {icalPreview.map((stay, idx) => {
+                  const updateStay = (changes: Partial<DetectedStay & { selected: boolean; amount: string }>) =>
+                    setIcalPreview(prev => prev && prev.map((s, i) => i === idx ? { ...s, ...changes } : s));
+                  return (
+                    <div key={stay.uid} className={`p-3 rounded-2xl border ${stay.alreadyImported ? 'border-slate-100 bg-slate-50 opacity-60' : stay.selected ? 'border-cyan-200 bg-cyan-50/40' : 'border-slate-100'}`}>
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          checked={stay.selected}
+                          disabled={stay.alreadyImported}
+                          onChange={(e) => updateStay({ selected: e.target.checked })}
+                          className="w-4 h-4 accent-cyan-600"
+                        />
+                        <div className="flex-1">
+                          <p className="text-sm font-bold text-slate-700">
+                            {parseDateKey(stay.checkIn).toLocaleDateString('pt-BR')} → {parseDateKey(stay.checkOut).toLocaleDateString('pt-BR')}
+                          </p>
+                          <p className="text-[10px] text-slate-400">
+                            {stay.nights} noites • {stay.channel} • {stay.alreadyImported ? 'Já importado' : stay.kind === 'blocked' ? 'Bloqueio' : 'Reserva'}
+                          </p>
+                        </div>
+                      </div>
+                      {stay.kind === 'stay' && stay.selected && !stay.alreadyImported && (
+                        <div className="grid grid-cols-2 gap-2 mt-2 pl-7">
+                          <input
+                            type="text"
+                            value={stay.guestName}
+                            onChange={(e) => updateStay({ guestName: e.target.value })}
+                            placeholder="Hóspede"
+                            className="bg-white border border-slate-200 rounded-lg py-1.5 px-2 text-xs text-slate-700 outline-none focus:border-cyan-500"
+                          />
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={stay.amount}
+                            onChange={(e) => updateStay({ amount: e.target.value })}
+                            placeholder="Valor R$"
+                            className="bg-white border border-slate-200 rounded-lg py-1.5 px-2 text-xs text-slate-700 outline-none focus:border-cyan-500"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="p-6 border-t border-slate-100 bg-slate-50">
+                <button 
+                  onClick={confirmCalendarImport}
+                  disabled={!icalPreview.some(s => s.selected && !s.alreadyImported)}
+                  className="w-full bg-slate-800 text-white py-4 rounded-xl font-bold flex items-center justify-center gap-2 shadow-lg hover:bg-slate-700 transition-all active:scale-95 disabled:opacity-40"
+                >
+                  <Upload className="w-5 h-5" /> Importar {icalPreview.filter(s => s.selected && !s.alreadyImported).length} eventos
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Payout CSV Import */}
+      <AnimatePresence>
+        {csvImport && (
+          <motion.div 
+            initial={{ opacity: 0 }} 
+            animate={{ opacity: 1 }} 
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, opacity: 0 }} 
+              animate={{ scale: 1, opacity: 1 }} 
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl flex flex-col overflow-hidden"
+            >
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                <div>
+                  <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <FileSpreadsheet className="w-5 h-5 text-cyan-600" /> Importar Repasses
+                  </h2>
+                  <p className="text-xs text-slate-500 mt-1">{csvImport.fileName} • {csvImport.rows.length - 1} linhas</p>
+                </div>
+                <button onClick={() => setCsvImport(null)} className="bg-white p-2 rounded-full shadow-sm border border-slate-200 text-slate-400 hover:text-slate-600">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="overflow-y-auto p-6 space-y-5 custom-scrollbar">
+                {/* Column Mapping */}
+                <div>
+                  <h3 className="font-bold text-slate-800 mb-3 text-sm uppercase tracking-wide border-b border-slate-100 pb-2">Mapeamento de Colunas</h3>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="col-span-2">
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 block ml-1">Plataforma</label>
+                      <select
+                        value={csvImport.presetId}
+                        onChange={(e) => {
+                          const preset = CSV_PRESETS.find(p => p.id === e.target.value)!;
+                          setCsvImport({ ...csvImport, presetId: preset.id, mapping: buildMappingFromPreset(csvImport.rows[0], preset) });
+                        }}
+                        className="w-full bg-slate-50 rounded-xl py-2 px-3 font-bold text-slate-600 outline-none text-xs"
+                      >
+                        {CSV_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+                      </select>
+                    </div>
+                    {([
+                      ['date', 'Data'],
+                      ['amount', 'Valor'],
+                      ['guest', 'Hóspede'],
+                      ['type', 'Tipo'],
+                      ['fee', 'Taxa'],
+                      ['description', 'Referência']
+                    ] as const).map(([field, label]) => (
+                      <div key={field}>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 block ml-1">{label}</label>
+                        <select
+                          value={csvImport.mapping[field]}
+                          onChange={(e) => setCsvImport({ ...csvImport, mapping: { ...csvImport.mapping, [field]: parseInt(e.target.value) } })}
+                          className="w-full bg-slate-50 rounded-xl py-2 px-3 font-medium text-slate-600 outline-none text-xs"
+                        >
+                          <option value={-1}>— não usar —</option>
+                          {csvImport.rows[0].map((header, idx) => <option key={idx} value={idx}>{header || `Coluna ${idx + 1}`}</option>)}
+                        </select>
+                      </div>
+                    ))}
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 block ml-1">Formato da data</label>
+                      <select
+                        value={csvImport.mapping.dateFormat}
+                        onChange={(e) => setCsvImport({ ...csvImport, mapping: { ...csvImport.mapping, dateFormat: e.target.value as CsvColumnMapping['dateFormat'] } })}
+                        className="w-full bg-slate-50 rounded-xl py-2 px-3 font-medium text-slate-600 outline-none text-xs"
+                      >
+                        <option value="dd/mm/yyyy">dd/mm/aaaa</option>
+                        <option value="mm/dd/yyyy">mm/dd/aaaa</option>
+                        <option value="yyyy-mm-dd">aaaa-mm-dd</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 block ml-1">Decimal</label>
+                      <select
+                        value={csvImport.mapping.decimalSeparator}
+                        onChange={(e) => setCsvImport({ ...csvImport, mapping: { ...csvImport.mapping, decimalSeparator: e.target.value as CsvColumnMapping['decimalSeparator'] } })}
+                        className="w-full bg-slate-50 rounded-xl py-2 px-3 font-medium text-slate-600 outline-none text-xs"
+                      >
+                        <option value=",">Vírgula (1.234,56)</option>
+                        <option value=".">Ponto (1,234.56)</option>
+                      </select>
+                    </div>
                   </div>
-                  <input
-                    type="file"
-                    accept=".json"
-                    className="hidden"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) importData(file);
+                </div>
+
+                {/* Preview */}
+                <div>
+                  <h3 className="font-bold text-slate-800 mb-3 text-sm uppercase tracking-wide border-b border-slate-100 pb-2">Pré-visualização</h3>
+                  <table className="w-full text-[11px]">
+                    <thead>
+                      <tr className="text-slate-400 text-left">
+                        <th className="py-1 font-bold">Linha</th>
+                        <th className="py-1 font-bold">Data</th>
+                        <th className="py-1 font-bold">Hóspede</th>
+                        <th className="py-1 font-bold text-right">Valor</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {csvPreview.map(row => (
+                        <React.Fragment key={row.line}>
+                          <tr className={`border-t border-slate-50 ${row.skipped || row.duplicate ? 'opacity-40' : ''}`}>
+                            <td className="py-1.5 text-slate-400">{row.line}</td>
+                            <td className="py-1.5 text-slate-600">{row.transactions[0] ? parseDateKey(row.transactions[0].date).toLocaleDateString('pt-BR') : '—'}</td>
+                            <td className="py-1.5 text-slate-600">{row.transactions[0]?.guestName || (row.skipped ? 'Ignorada (repasse/cancelada)' : row.duplicate ? 'Já registrada' : '—')}</td>
+                            <td className="py-1.5 text-right font-bold">
+                              {row.transactions.map(t => (
+                                <span key={t.id} className={`block ${t.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-rose-600'}`}>
+                                  {t.type === TransactionType.INCOME ? '+' : '-'} {t.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                                </span>
+                              ))}
+                            </td>
+                          </tr>
+                          {row.errors.length > 0 && (
+                            <tr>
+                              <td></td>
+                              <td colSpan={3} className="pb-1.5 text-rose-500 flex items-center gap-1">
+                                <AlertCircle className="w-3 h-3" /> {row.errors.join(' • ')}
+                              </td>
+                            </tr>
+                          )}
+                        </React.Fragment>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="p-6 border-t border-slate-100 bg-slate-50">
+                <p className="text-[11px] text-slate-400 mb-3 text-center">
+                  {csvImportable.length} válidas • {csvPreview.filter(r => r.duplicate).length} duplicadas • {csvPreview.filter(r => r.errors.length > 0).length} com erro • {csvPreview.filter(r => r.skipped).length} ignoradas
+                </p>
+                <button 
+                  onClick={confirmCsvImport}
+                  disabled={csvImportable.length === 0}
+                  className="w-full bg-slate-800 text-white py-4 rounded-xl font-bold flex items-center justify-center gap-2 shadow-lg hover:bg-slate-700 transition-all active:scale-95 disabled:opacity-40"
+                >
+                  <Upload className="w-5 h-5" /> Adicionar {csvImportable.length} linhas
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Categories */}
+      <AnimatePresence>
+        {showCategories && (
+          <motion.div 
+            initial={{ opacity: 0 }} 
+            animate={{ opacity: 1 }} 
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, opacity: 0 }} 
+              animate={{ scale: 1, opacity: 1 }} 
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl flex flex-col overflow-hidden"
+            >
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                <div>
+                  <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Tags className="w-5 h-5 text-cyan-600" /> Categorias
+                  </h2>
+                  <p className="text-xs text-slate-500 mt-1">{categories.filter(c => !c.parentId).length} categorias • {categories.filter(c => c.parentId).length} subcategorias</p>
+                </div>
+                <button onClick={() => { setShowCategories(false); setCategoryForm(null); }} className="bg-white p-2 rounded-full shadow-sm border border-slate-200 text-slate-400 hover:text-slate-600">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="overflow-y-auto p-4 space-y-2 custom-scrollbar">
+                {categoryForm ? (
+                  <form onSubmit={saveCategory} className="space-y-4">
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Nome</label>
+                      <input
+                        type="text"
+                        value={categoryForm.name}
+                        onChange={(e) => setCategoryForm({ ...categoryForm, name: e.target.value })}
+                        placeholder="Ex: Lavanderia"
+                        className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Subcategoria de</label>
+                      <select
+                        value={categoryForm.parentId ?? ''}
+                        disabled={!!categoryForm.id && (isBuiltInCategory(categoryForm.id) || categories.some(c => c.parentId === categoryForm.id))}
+                        onChange={(e) => setCategoryForm({ ...categoryForm, parentId: e.target.value || undefined })}
+                        className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm appearance-none disabled:opacity-40"
+                      >
+                        <option value="">Nenhuma (categoria principal)</option>
+                        {categories.filter(c => !c.parentId && c.id !== categoryForm.id).map(c => (
+                          <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Usar em</label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {[TransactionType.INCOME, TransactionType.EXPENSE].map(type => {
+                          const active = categoryForm.types.includes(type);
+                          return (
+                            <button
+                              key={type}
+                              type="button"
+                              disabled={!!categoryForm.id && isBuiltInCategory(categoryForm.id)}
+                              onClick={() => setCategoryForm({ ...categoryForm, types: active ? categoryForm.types.filter(t => t !== type) : [...categoryForm.types, type] })}
+                              className={`disabled:opacity-60 py-2.5 rounded-xl text-xs font-bold border-2 transition-all ${active ? (type === TransactionType.INCOME ? 'border-emerald-400 bg-emerald-50 text-emerald-700' : 'border-rose-400 bg-rose-50 text-rose-700') : 'border-transparent bg-slate-50 text-slate-400'}`}
+                            >
+                              {type === TransactionType.INCOME ? 'Receitas' : 'Despesas'}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Cor</label>
+                      <div className="flex flex-wrap gap-2">
+                        {CATEGORY_COLORS.map(color => (
+                          <button
+                            key={color}
+                            type="button"
+                            onClick={() => setCategoryForm({ ...categoryForm, color })}
+                            className={`w-8 h-8 rounded-full transition-transform ${categoryForm.color === color ? 'ring-4 ring-offset-2 ring-slate-200 scale-110' : ''}`}
+                            style={{ backgroundColor: color }}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Ícone</label>
+                      <div className="grid grid-cols-8 gap-2">
+                        {Object.entries(CATEGORY_ICONS).map(([name, Icon]) => (
+                          <button
+                            key={name}
+                            type="button"
+                            onClick={() => setCategoryForm({ ...categoryForm, icon: name })}
+                            className={`p-2 rounded-xl flex items-center justify-center transition-colors ${categoryForm.icon === name ? 'text-white' : 'bg-slate-50 text-slate-400 hover:bg-slate-100'}`}
+                            style={categoryForm.icon === name ? { backgroundColor: categoryForm.color } : undefined}
+                          >
+                            <Icon className="w-4 h-4" />
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 pt-2">
+                      <button type="button" onClick={() => setCategoryForm(null)} className="py-3 rounded-xl font-bold text-slate-500 bg-slate-100 hover:bg-slate-200">
+                        Cancelar
+                      </button>
+                      <button type="submit" disabled={!categoryForm.name.trim() || categoryForm.types.length === 0} className="py-3 rounded-xl font-bold text-white bg-slate-800 hover:bg-slate-700 disabled:opacity-40">
+                        Salvar
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  categories.filter(c => !c.parentId).flatMap(root => [root, ...categories.filter(c => c.parentId === root.id)]).map(category => {
+                    const Icon = CATEGORY_ICONS[category.icon] ?? Tag;
+                    return (
+                      <div key={category.id} className={`flex items-center justify-between gap-2 p-3 rounded-2xl border border-slate-100 ${category.parentId ? 'ml-6' : ''}`}>
+                        <div className="flex items-center gap-3 min-w-0">
+                          <div className="p-2 rounded-xl text-white" style={{ backgroundColor: category.color }}>
+                            <Icon className="w-4 h-4" />
+                          </div>
+                          <div className="min-w-0">
+                            <p className="text-sm font-semibold text-slate-700 truncate">{category.name}</p>
+                            <p className="text-[10px] text-slate-400">
+                              {category.types.map(type => type === TransactionType.INCOME ? 'Receitas' : 'Despesas').join(' e ')}
+                              {isBuiltInCategory(category.id) && ' • padrão'}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <button onClick={() => openCategoryForm(category)} className="text-slate-300 hover:text-cyan-600 transition-colors p-1 hover:bg-cyan-50 rounded-lg">
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          {!isBuiltInCategory(category.id) && (
+                            <button onClick={() => deleteCategory(category)} className="text-slate-300 hover:text-rose-500 transition-colors p-1 hover:bg-rose-50 rounded-lg">
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+
+              {!categoryForm && (
+                <div className="p-4 border-t border-slate-100">
+                  <button onClick={() => openCategoryForm()} className="w-full py-3 rounded-xl font-bold text-white bg-slate-800 hover:bg-slate-700 flex items-center justify-center gap-2">
+                    <PlusCircle className="w-5 h-5" /> Nova categoria
+                  </button>
+                </div>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Guests */}
+      <AnimatePresence>
+        {showGuests && (
+          <motion.div 
+            initial={{ opacity: 0 }} 
+            animate={{ opacity: 1 }} 
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, opacity: 0 }} 
+              animate={{ scale: 1, opacity: 1 }} 
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl flex flex-col overflow-hidden"
+            >
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                <div>
+                  <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Users className="w-5 h-5 text-cyan-600" /> Hóspedes
+                  </h2>
+                  <p className="text-xs text-slate-500 mt-1">{scopeLabel} • {guestDirectory.length} hóspede(s)</p>
+                </div>
+                <button onClick={() => { setShowGuests(false); setGuestForm(null); }} className="bg-white p-2 rounded-full shadow-sm border border-slate-200 text-slate-400 hover:text-slate-600">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="overflow-y-auto p-4 space-y-2 custom-scrollbar">
+                {guestForm ? (
+                  <form onSubmit={saveGuest} className="space-y-4">
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Nome</label>
+                        <input
+                          type="text"
+                          value={guestForm.name ?? ''}
+                          onChange={(e) => setGuestForm({ ...guestForm, name: e.target.value })}
+                          placeholder="Ex: Ana Souza"
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                        />
+                      </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Telefone</label>
+                        <input
+                          type="tel"
+                          value={guestForm.phone ?? ''}
+                          onChange={(e) => setGuestForm({ ...guestForm, phone: e.target.value })}
+                          placeholder="(81) 99999-9999"
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">E-mail</label>
+                        <input
+                          type="email"
+                          value={guestForm.email ?? ''}
+                          onChange={(e) => setGuestForm({ ...guestForm, email: e.target.value })}
+                          placeholder="ana@email.com"
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">CPF / Passaporte</label>
+                        <input
+                          type="text"
+                          value={guestForm.document ?? ''}
+                          onChange={(e) => setGuestForm({ ...guestForm, document: e.target.value })}
+                          placeholder="000.000.000-00"
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Cidade</label>
+                        <input
+                          type="text"
+                          value={guestForm.city ?? ''}
+                          onChange={(e) => setGuestForm({ ...guestForm, city: e.target.value })}
+                          placeholder="Ex: Recife, PE"
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Avaliação</label>
+                      <div className="flex gap-1">
+                        {[1, 2, 3, 4, 5].map(value => (
+                          <button
+                            key={value}
+                            type="button"
+                            onClick={() => setGuestForm({ ...guestForm, rating: guestForm.rating === value ? undefined : value })}
+                            className="p-1"
+                          >
+                            <Star className={`w-6 h-6 ${(guestForm.rating ?? 0) >= value ? 'text-amber-400 fill-amber-400' : 'text-slate-200'}`} />
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Observações</label>
+                      <textarea
+                        value={guestForm.notes ?? ''}
+                        onChange={(e) => setGuestForm({ ...guestForm, notes: e.target.value })}
+                        rows={3}
+                        placeholder="Preferências, pets, ocorrências..."
+                        className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm resize-none"
+                      />
+                    </div>
+                    {guestDirectory.some(entry => entry.key !== guestForm.id && !guestForm.mergeKeys.includes(entry.key)) && (
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Unificar com</label>
+                        <select
+                          value=""
+                          onChange={(e) => e.target.value && setGuestForm({ ...guestForm, mergeKeys: [...guestForm.mergeKeys, e.target.value] })}
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm appearance-none"
+                        >
+                          <option value="">Escolha um nome duplicado...</option>
+                          {guestDirectory.filter(entry => entry.key !== guestForm.id && !guestForm.mergeKeys.includes(entry.key)).map(entry => (
+                            <option key={entry.key} value={entry.key}>{entry.name} ({entry.stays} estadia(s))</option>
+                          ))}
+                        </select>
+                        {guestForm.mergeKeys.length > 0 && (
+                          <div className="flex flex-wrap gap-2 mt-2">
+                            {guestDirectory.filter(entry => guestForm.mergeKeys.includes(entry.key)).map(entry => (
+                              <button
+                                key={entry.key}
+                                type="button"
+                                onClick={() => setGuestForm({ ...guestForm, mergeKeys: guestForm.mergeKeys.filter(key => key !== entry.key) })}
+                                className="flex items-center gap-1 px-3 py-1.5 rounded-xl text-xs font-bold bg-cyan-50 text-cyan-700"
+                              >
+                                {entry.name} <X className="w-3 h-3" />
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-2 pt-2">
+                      <button type="button" onClick={() => setGuestForm(null)} className="py-3 rounded-xl font-bold text-slate-500 bg-slate-100 hover:bg-slate-200">
+                        Cancelar
+                      </button>
+                      <button type="submit" disabled={!guestForm.name.trim()} className="py-3 rounded-xl font-bold text-white bg-slate-800 hover:bg-slate-700 disabled:opacity-40">
+                        Salvar
+                      </button>
+                    </div>
+                    {guestForm.id && (
+                      <button
+                        type="button"
+                        onClick={() => deleteGuest(guests.find(g => g.id === guestForm.id)!)}
+                        className="w-full py-2 text-xs font-bold text-rose-500 hover:text-rose-600"
+                      >
+                        Remover do cadastro
+                      </button>
+                    )}
+                  </form>
+                ) : (
+                  <>
+                    {duplicateGuestNames.length > 0 && (
+                      <div className="p-3 bg-amber-50 rounded-2xl border border-amber-100 space-y-2">
+                        <p className="text-[10px] font-bold text-amber-700 uppercase tracking-wider flex items-center gap-1">
+                          <AlertCircle className="w-3 h-3" /> Nomes duplicados
+                        </p>
+                        {duplicateGuestNames.map(group => (
+                          <div key={group.key} className="flex justify-between items-center gap-2">
+                            <p className="text-xs text-amber-800 min-w-0 truncate">{group.names.map(n => `${n.name} (${n.count})`).join(' • ')}</p>
+                            <button
+                              onClick={() => mergeDuplicateGuestNames(group.names.map(n => n.name))}
+                              className="shrink-0 px-3 py-1 rounded-lg text-[10px] font-bold bg-white text-amber-700 border border-amber-200 hover:bg-amber-100"
+                            >
+                              Unificar
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <input
+                      type="search"
+                      value={guestSearch}
+                      onChange={(e) => setGuestSearch(e.target.value)}
+                      placeholder="Buscar hóspede..."
+                      className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                    />
+                    {guestDirectory
+                      .filter(entry => normalizeGuestName(`${entry.name} ${entry.guest?.city ?? ''} ${entry.guest?.phone ?? ''}`).includes(normalizeGuestName(guestSearch)))
+                      .map(entry => (
+                        <button
+                          key={entry.key}
+                          onClick={() => setGuestForm(entry.guest ? { ...entry.guest, mergeKeys: [] } : { name: entry.name, mergeKeys: [entry.key] })}
+                          className="w-full flex justify-between items-center gap-3 p-3 rounded-2xl border border-slate-100 hover:bg-slate-50 text-left"
+                        >
+                          <div className="min-w-0">
+                            <p className="font-semibold text-slate-700 text-sm truncate flex items-center gap-1">
+                              {entry.name}
+                              {entry.guest?.rating && <span className="text-[10px] text-amber-500 font-bold flex items-center gap-0.5"><Star className="w-3 h-3 fill-amber-400" />{entry.guest.rating}</span>}
+                            </p>
+                            <p className="text-[10px] text-slate-400 truncate">
+                              {entry.guest ? [entry.guest.city, entry.guest.phone].filter(Boolean).join(' • ') || 'Cadastrado' : 'Não cadastrado • toque para cadastrar'}
+                            </p>
+                          </div>
+                          <div className="text-right shrink-0">
+                            <p className="text-sm font-bold text-emerald-600">R$ {entry.lifetimeValue.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</p>
+                            <p className="text-[10px] text-slate-400">
+                              {entry.stays} estadia(s){entry.lastStay && ` • ${parseDateKey(entry.lastStay).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: '2-digit' })}`}
+                            </p>
+                          </div>
+                        </button>
+                      ))}
+                    {guestDirectory.length === 0 && (
+                      <p className="text-center text-slate-400 text-sm italic py-6">Nenhum hóspede registrado ainda.</p>
+                    )}
+                  </>
+                )}
+              </div>
+
+              {!guestForm && (
+                <div className="p-4 border-t border-slate-100">
+                  <button
+                    onClick={() => setGuestForm({ name: '', mergeKeys: [] })}
+                    className="w-full py-3 rounded-xl font-bold text-white bg-slate-800 hover:bg-slate-700"
+                  >
+                    Novo hóspede
+                  </button>
+                </div>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Pricing */}
+      <AnimatePresence>
+        {showPricing && rateModel && (
+          <motion.div 
+            initial={{ opacity: 0 }} 
+            animate={{ opacity: 1 }} 
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, opacity: 0 }} 
+              animate={{ scale: 1, opacity: 1 }} 
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl flex flex-col overflow-hidden"
+            >
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                <div>
+                  <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Gauge className="w-5 h-5 text-cyan-600" /> Precificação
+                  </h2>
+                  <p className="text-xs text-slate-500 mt-1">{activeProperty.name} • baseado em {rateModel.nights} noites hospedadas</p>
+                </div>
+                <button onClick={() => setShowPricing(false)} className="bg-white p-2 rounded-full shadow-sm border border-slate-200 text-slate-400 hover:text-slate-600">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="overflow-y-auto p-4 space-y-4 custom-scrollbar">
+                <div className="grid grid-cols-3 gap-3 text-center">
+                  <div className="p-3 bg-slate-50 rounded-2xl border border-slate-100">
+                    <p className="text-[10px] text-slate-500 font-bold uppercase mb-1">Diária média</p>
+                    <p className="text-sm font-bold text-slate-700">R$ {rateModel.baseRate.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</p>
+                  </div>
+                  <div className="p-3 bg-cyan-50 rounded-2xl border border-cyan-100">
+                    <p className="text-[10px] text-cyan-600 font-bold uppercase mb-1">Fim de semana</p>
+                    <p className="text-sm font-bold text-cyan-700">{rateModel.weekendFactor >= rateModel.weekdayFactor ? '+' : ''}{((rateModel.weekendFactor / rateModel.weekdayFactor - 1) * 100).toFixed(0)}%</p>
+                  </div>
+                  <div className="p-3 bg-amber-50 rounded-2xl border border-amber-100">
+                    <p className="text-[10px] text-amber-600 font-bold uppercase mb-1">Alta / baixa</p>
+                    <p className="text-sm font-bold text-amber-700">{Math.max(...rateModel.monthFactors).toFixed(2)}× / {Math.min(...rateModel.monthFactors).toFixed(2)}×</p>
+                  </div>
+                </div>
+
+                <div className="p-4 bg-slate-50 rounded-2xl space-y-3">
+                  <div>
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Lucro mensal desejado (R$)</label>
+                    <input
+                      type="number"
+                      step="100"
+                      min="0"
+                      value={profitTarget || ''}
+                      onChange={(e) => setProfitTargets({ ...profitTargets, [activePropertyId]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      placeholder="Ex: 5000"
+                      className="w-full bg-white border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 outline-none text-sm"
+                    />
+                  </div>
+                  {targetAdr ? (
+                    profitTarget > 0 && (
+                      <div className="text-sm text-slate-600 space-y-1">
+                        <p>
+                          Com {targetAdr.avgNights.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} noites/mês e R$ {targetAdr.avgExpenses.toLocaleString('pt-BR', { maximumFractionDigits: 0 })} de despesas/mês, a diária média precisa ser
+                          <span className="font-bold text-slate-800"> R$ {targetAdr.requiredAdr.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</span>
+                          <span className={`font-bold ${targetAdr.adrChange > 0 ? 'text-rose-500' : 'text-emerald-500'}`}> ({targetAdr.adrChange > 0 ? '+' : ''}{targetAdr.adrChange.toFixed(0)}% sobre R$ {targetAdr.currentAdr.toLocaleString('pt-BR', { maximumFractionDigits: 0 })})</span>.
+                        </p>
+                        <p className="text-xs text-slate-400">
+                          Ou {targetAdr.requiredNights.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} noites/mês à diária atual. Lucro médio hoje: R$ {targetAdr.avgProfit.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}/mês ({targetAdr.months === 1 ? 'último mês' : `últimos ${targetAdr.months} meses`}).
+                        </p>
+                      </div>
+                    )
+                  ) : (
+                    <p className="text-xs text-slate-400 italic">Sem estadias nos últimos 12 meses para calcular a meta.</p>
+                  )}
+                </div>
+
+                <div className="space-y-1">
+                  {rateSuggestions.map((s, idx) => {
+                    const date = parseDateKey(s.date);
+                    return (
+                      <React.Fragment key={s.date}>
+                        {(idx === 0 || date.getDate() === 1) && (
+                          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest pt-2 ml-1">{getPeriodLabelForDate('monthly', date)}</p>
+                        )}
+                        <div className={`flex justify-between items-center gap-2 p-2 rounded-xl ${s.bookedRate !== undefined ? 'opacity-50' : s.isWeekend ? 'bg-cyan-50/50' : ''}`}>
+                          <div className="min-w-0">
+                            <p className="text-sm font-semibold text-slate-700 capitalize">{date.toLocaleDateString('pt-BR', { weekday: 'short', day: '2-digit', month: '2-digit' })}</p>
+                            {s.event && <p className="text-[10px] font-bold text-amber-600">{s.event}</p>}
+                          </div>
+                          <div className="text-right">
+                            <p className="text-sm font-bold text-slate-800">R$ {s.rate.toLocaleString('pt-BR')}</p>
+                            {s.bookedRate !== undefined && (
+                              <p className="text-[10px] text-slate-400">reservado a R$ {s.bookedRate.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</p>
+                            )}
+                          </div>
+                        </div>
+                      </React.Fragment>
+                    );
+                  })}
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Carnê-Leão */}
+      <AnimatePresence>
+        {showTax && (
+          <motion.div 
+            initial={{ opacity: 0 }} 
+            animate={{ opacity: 1 }} 
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, opacity: 0 }} 
+              animate={{ scale: 1, opacity: 1 }} 
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl flex flex-col overflow-hidden"
+            >
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                <div>
+                  <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Landmark className="w-5 h-5 text-cyan-600" /> Carnê-Leão {carneLeao.year}
+                  </h2>
+                  <p className="text-xs text-slate-500 mt-1">Imóveis próprios • aluguéis menos condomínio e IPTU</p>
+                </div>
+                <button onClick={() => { setShowTax(false); setIrpfDraft(null); }} className="bg-white p-2 rounded-full shadow-sm border border-slate-200 text-slate-400 hover:text-slate-600">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="overflow-y-auto p-4 space-y-4 custom-scrollbar">
+                {irpfDraft ? (
+                  <div className="space-y-3">
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Em vigor a partir de</label>
+                      <input
+                        type="month"
+                        value={irpfDraft.effectiveFrom}
+                        disabled={!irpfDraftIsNew}
+                        onChange={(e) => setIrpfDraft({ ...irpfDraft, effectiveFrom: e.target.value })}
+                        className="w-full bg-slate-50 border-2 border-transparent rounded-xl py-2 px-3 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm disabled:opacity-60"
+                      />
+                    </div>
+                    <p className="text-sm text-slate-500">Tabela progressiva mensal, usada até o início da próxima. Deixe o limite vazio na última faixa.</p>
+                    <div className="grid grid-cols-3 gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-1">
+                      <span>Até (R$)</span><span>Alíquota (%)</span><span>Dedução (R$)</span>
+                    </div>
+                    {irpfDraft.brackets.map((bracket, idx) => {
+                      const update = (changes: Partial<typeof bracket>) => setIrpfDraft({ ...irpfDraft, brackets: irpfDraft.brackets.map((b, i) => i === idx ? { ...b, ...changes } : b) });
+                      return (
+                        <div key={idx} className="grid grid-cols-3 gap-2">
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={bracket.upTo ?? ''}
+                            onChange={(e) => update({ upTo: e.target.value === '' ? null : parseFloat(e.target.value) || 0 })}
+                            placeholder="Acima"
+                            className="w-full bg-slate-50 border-2 border-transparent rounded-xl py-2 px-3 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                          />
+                          <input
+                            type="number"
+                            step="0.1"
+                            value={bracket.rate}
+                            onChange={(e) => update({ rate: parseFloat(e.target.value) || 0 })}
+                            className="w-full bg-slate-50 border-2 border-transparent rounded-xl py-2 px-3 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                          />
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={bracket.deduction}
+                            onChange={(e) => update({ deduction: parseFloat(e.target.value) || 0 })}
+                            className="w-full bg-slate-50 border-2 border-transparent rounded-xl py-2 px-3 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                          />
+                        </div>
+                      );
+                    })}
+                    <div className="grid grid-cols-2 gap-2 pt-2">
+                      <button onClick={() => setIrpfDraft(null)} className="py-3 rounded-xl font-bold text-slate-500 bg-slate-100 hover:bg-slate-200">
+                        Cancelar
+                      </button>
+                      <button onClick={saveIrpfTable} className="py-3 rounded-xl font-bold text-white bg-slate-800 hover:bg-slate-700">
+                        Salvar tabela
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-3 gap-3 text-center">
+                      <div className="p-3 bg-emerald-50 rounded-2xl border border-emerald-100">
+                        <p className="text-[10px] text-emerald-600 font-bold uppercase mb-1">Aluguéis</p>
+                        <p className="text-sm font-bold text-emerald-700">R$ {carneLeao.income.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</p>
+                      </div>
+                      <div className="p-3 bg-slate-50 rounded-2xl border border-slate-100">
+                        <p className="text-[10px] text-slate-500 font-bold uppercase mb-1">Deduções</p>
+                        <p className="text-sm font-bold text-slate-700">R$ {carneLeao.deductions.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</p>
+                      </div>
+                      <div className="p-3 bg-indigo-50 rounded-2xl border border-indigo-100">
+                        <p className="text-[10px] text-indigo-600 font-bold uppercase mb-1">DARFs</p>
+                        <p className="text-sm font-bold text-indigo-700">R$ {carneLeao.darf.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</p>
+                      </div>
+                    </div>
+
+                    <div className="space-y-1">
+                      {carneLeao.months.map(m => (
+                        <div key={m.month} className={`flex justify-between items-center gap-2 p-2 rounded-xl ${m.month === selectedDate.getMonth() ? 'bg-cyan-50' : ''}`}>
+                          <div className="min-w-0">
+                            <p className="text-sm font-semibold text-slate-700 capitalize">{new Date(carneLeao.year, m.month, 1).toLocaleDateString('pt-BR', { month: 'long' })}</p>
+                            <p className="text-[10px] text-slate-400">
+                              Base R$ {m.base.toLocaleString('pt-BR', { minimumFractionDigits: 2 })} • {m.rate}%
+                              {m.carriedOver > 0 && ` • inclui R$ ${m.carriedOver.toLocaleString('pt-BR', { minimumFractionDigits: 2 })} de meses anteriores`}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className={`text-sm font-bold ${m.darf > 0 ? 'text-indigo-600' : 'text-slate-300'}`}>R$ {m.darf.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</p>
+                            <p className="text-[10px] text-slate-400">
+                              {m.darf > 0 ? `vence ${parseDateKey(m.dueDate).toLocaleDateString('pt-BR')}` : m.tax > 0 ? `abaixo de R$ ${MINIMUM_DARF}` : 'isento'}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+
+                    {carneLeao.tables.map(table => (
+                      <div key={table.effectiveFrom} className="p-4 rounded-2xl border border-slate-100">
+                        <div className="flex justify-between items-center mb-2">
+                          <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                            Tabela IRPF desde {formatTableStart(table.effectiveFrom)}
+                          </h3>
+                          <button
+                            onClick={() => openIrpfDraft(table, false)}
+                            className="text-[10px] font-bold text-cyan-600 hover:text-cyan-700"
+                          >
+                            Editar
+                          </button>
+                        </div>
+                        {table.brackets.map((bracket, idx) => (
+                          <div key={idx} className="flex justify-between text-xs text-slate-500 py-0.5">
+                            <span>{bracket.upTo === null ? 'Acima' : `Até R$ ${bracket.upTo.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`}</span>
+                            <span className="font-semibold text-slate-700">{bracket.rate}% • deduz R$ {bracket.deduction.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => openIrpfDraft({ ...carneLeao.tables[carneLeao.tables.length - 1], effectiveFrom: `${carneLeao.year}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}` }, true)}
+                      className="w-full py-2 rounded-xl text-xs font-bold text-cyan-600 bg-cyan-50 hover:bg-cyan-100"
+                    >
+                      Nova tabela
+                    </button>
+                  </>
+                )}
+              </div>
+
+              {!irpfDraft && (
+                <div className="p-4 border-t border-slate-100">
+                  <button onClick={exportCarneLeao} className="w-full py-3 rounded-xl font-bold text-white bg-slate-800 hover:bg-slate-700 flex items-center justify-center gap-2">
+                    <FileSpreadsheet className="w-5 h-5" /> Resumo anual (Excel)
+                  </button>
+                </div>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Properties */}
+      <AnimatePresence>
+        {showProperties && (
+          <motion.div 
+            initial={{ opacity: 0 }} 
+            animate={{ opacity: 1 }} 
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, opacity: 0 }} 
+              animate={{ scale: 1, opacity: 1 }} 
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl flex flex-col overflow-hidden"
+            >
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                <div>
+                  <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Building2 className="w-5 h-5 text-cyan-600" /> Imóveis
+                  </h2>
+                  <p className="text-xs text-slate-500 mt-1">Escolha o imóvel exibido no painel, calendário e histórico</p>
+                </div>
+                <button onClick={() => { setShowProperties(false); setPropertyForm(null); }} className="bg-white p-2 rounded-full shadow-sm border border-slate-200 text-slate-400 hover:text-slate-600">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="overflow-y-auto p-4 space-y-2 custom-scrollbar">
+                {propertyForm ? (
+                  <form onSubmit={saveProperty} className="space-y-4">
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Nome</label>
+                      <input
+                        type="text"
+                        value={propertyForm.name}
+                        onChange={(e) => setPropertyForm({ ...propertyForm, name: e.target.value })}
+                        placeholder="Ex: Flat Muro Alto"
+                        className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Localização</label>
+                      <input
+                        type="text"
+                        value={propertyForm.location ?? ''}
+                        onChange={(e) => setPropertyForm({ ...propertyForm, location: e.target.value })}
+                        placeholder="Ex: Ipojuca, PE"
+                        className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Cor</label>
+                      <div className="flex flex-wrap gap-2">
+                        {PROPERTY_COLORS.map(color => (
+                          <button
+                            key={color}
+                            type="button"
+                            onClick={() => setPropertyForm({ ...propertyForm, color })}
+                            className={`w-8 h-8 rounded-full transition-transform ${propertyForm.color === color ? 'ring-4 ring-offset-2 ring-slate-200 scale-110' : ''}`}
+                            style={{ backgroundColor: color }}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Administração</label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {[false, true].map(managed => (
+                          <button
+                            key={String(managed)}
+                            type="button"
+                            onClick={() => setPropertyForm({ ...propertyForm, owner: managed ? propertyForm.owner ?? DEFAULT_OWNER_CONFIG : undefined })}
+                            className={`py-2.5 rounded-xl text-xs font-bold border-2 transition-all ${!!propertyForm.owner === managed ? 'border-cyan-400 bg-cyan-50 text-cyan-700' : 'border-transparent bg-slate-50 text-slate-400'}`}
+                          >
+                            {managed ? 'Para terceiros' : 'Imóvel próprio'}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {propertyForm.owner && (
+                      <>
+                        <div>
+                          <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Proprietário</label>
+                          <input
+                            type="text"
+                            value={propertyForm.owner.name}
+                            onChange={(e) => setPropertyForm({ ...propertyForm, owner: { ...propertyForm.owner!, name: e.target.value } })}
+                            placeholder="Nome do proprietário"
+                            className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                          />
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Taxa de adm. (%)</label>
+                            <input
+                              type="number"
+                              min="0"
+                              max="100"
+                              step="0.1"
+                              value={propertyForm.owner.feePercent}
+                              onChange={(e) => setPropertyForm({ ...propertyForm, owner: { ...propertyForm.owner!, feePercent: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) } })}
+                              className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Calculada sobre</label>
+                            <select
+                              value={propertyForm.owner.feeBase}
+                              onChange={(e) => setPropertyForm({ ...propertyForm, owner: { ...propertyForm.owner!, feeBase: e.target.value as ManagementFeeBase } })}
+                              className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm appearance-none"
+                            >
+                              {(Object.keys(MANAGEMENT_FEE_BASE_LABELS) as ManagementFeeBase[]).map(base => (
+                                <option key={base} value={base}>{MANAGEMENT_FEE_BASE_LABELS[base]}</option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+                        <div>
+                          <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Despesas pagas pelo proprietário</label>
+                          <div className="flex flex-wrap gap-2">
+                            {getBudgetCategories(categories).filter(c => c.id !== Category.PLATFORM_FEES).map(category => {
+                              const active = propertyForm.owner!.ownerPaidCategories.includes(category.id);
+                              return (
+                                <button
+                                  key={category.id}
+                                  type="button"
+                                  onClick={() => setPropertyForm({
+                                    ...propertyForm,
+                                    owner: {
+                                      ...propertyForm.owner!,
+                                      ownerPaidCategories: active
+                                        ? propertyForm.owner!.ownerPaidCategories.filter(id => id !== category.id)
+                                        : [...propertyForm.owner!.ownerPaidCategories, category.id]
+                                    }
+                                  })}
+                                  className={`px-3 py-1.5 rounded-xl text-xs font-bold border-2 transition-all ${active ? 'border-rose-400 bg-rose-50 text-rose-700' : 'border-transparent bg-slate-50 text-slate-400'}`}
+                                >
+                                  {category.name}
+                                </button>
+                              );
+                            })}
+                          </div>
+                          <p className="text-[10px] text-slate-400 mt-2 ml-1">Taxas de plataforma são sempre descontadas do repasse.</p>
+                        </div>
+                      </>
+                    )}
+                    <div className="grid grid-cols-2 gap-2 pt-2">
+                      <button type="button" onClick={() => setPropertyForm(null)} className="py-3 rounded-xl font-bold text-slate-500 bg-slate-100 hover:bg-slate-200">
+                        Cancelar
+                      </button>
+                      <button type="submit" disabled={!propertyForm.name.trim()} className="py-3 rounded-xl font-bold text-white bg-slate-800 hover:bg-slate-700 disabled:opacity-40">
+                        Salvar
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <>
+                    {properties.length > 1 && (
+                      <button
+                        onClick={() => selectPropertyScope('all')}
+                        className={`w-full flex items-center gap-3 p-3 rounded-2xl border-2 text-left transition-colors ${scope === 'all' ? 'border-cyan-400 bg-cyan-50' : 'border-slate-100 hover:bg-slate-50'}`}
+                      >
+                        <div className="p-2 rounded-xl bg-slate-800 text-white">
+                          <Briefcase className="w-4 h-4" />
+                        </div>
+                        <div>
+                          <p className="text-sm font-semibold text-slate-700">Todos os imóveis</p>
+                          <p className="text-[10px] text-slate-400">Visão consolidada do portfólio</p>
+                        </div>
+                      </button>
+                    )}
+                    {properties.map(property => (
+                      <div key={property.id} className={`flex items-center justify-between gap-2 p-3 rounded-2xl border-2 transition-colors ${scope === property.id || (scope === 'all' && properties.length === 1) ? 'border-cyan-400 bg-cyan-50' : 'border-slate-100'}`}>
+                        <button onClick={() => selectPropertyScope(property.id)} className="flex items-center gap-3 min-w-0 flex-1 text-left">
+                          <div className="p-2 rounded-xl text-white" style={{ backgroundColor: property.color }}>
+                            <Building2 className="w-4 h-4" />
+                          </div>
+                          <div className="min-w-0">
+                            <p className="text-sm font-semibold text-slate-700 truncate">{property.name}</p>
+                            <p className="text-[10px] text-slate-400 truncate">
+                              {property.location || 'Sem localização'}
+                              {property.owner && ` • ${property.owner.name || 'Terceiro'} • adm. ${property.owner.feePercent}%`}
+                            </p>
+                          </div>
+                        </button>
+                        <div className="flex items-center gap-1">
+                          <button onClick={() => openPropertyForm(property)} className="text-slate-300 hover:text-cyan-600 transition-colors p-1 hover:bg-cyan-50 rounded-lg">
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          {properties.length > 1 && (
+                            <button onClick={() => deleteProperty(property)} className="text-slate-300 hover:text-rose-500 transition-colors p-1 hover:bg-rose-50 rounded-lg">
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </>
+                )}
+              </div>
+
+              {!propertyForm && (
+                <div className="p-4 border-t border-slate-100">
+                  <button onClick={() => openPropertyForm()} className="w-full py-3 rounded-xl font-bold text-white bg-slate-800 hover:bg-slate-700 flex items-center justify-center gap-2">
+                    <PlusCircle className="w-5 h-5" /> Novo imóvel
+                  </button>
+                </div>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Recurring Templates */}
+      <AnimatePresence>
+        {showRecurring && (
+          <motion.div 
+            initial={{ opacity: 0 }} 
+            animate={{ opacity: 1 }} 
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, opacity: 0 }} 
+              animate={{ scale: 1, opacity: 1 }} 
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl flex flex-col overflow-hidden"
+            >
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                <div>
+                  <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Repeat className="w-5 h-5 text-cyan-600" /> Recorrências
+                  </h2>
+                  <p className="text-xs text-slate-500 mt-1">Lançamentos pendentes são gerados até {MATERIALIZE_AHEAD_DAYS} dias à frente</p>
+                </div>
+                <button onClick={() => { setShowRecurring(false); setRecurringForm(null); }} className="bg-white p-2 rounded-full shadow-sm border border-slate-200 text-slate-400 hover:text-slate-600">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="overflow-y-auto p-4 space-y-2 custom-scrollbar">
+                {recurringForm ? (
+                  <form onSubmit={saveRecurringTemplate} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-2 p-1 bg-slate-50 rounded-2xl">
+                      {[TransactionType.EXPENSE, TransactionType.INCOME].map(type => (
+                        <button
+                          key={type}
+                          type="button"
+                          onClick={() => setRecurringForm({ ...recurringForm, type, category: categoryForType(recurringForm.category, type) })}
+                          className={`py-2.5 rounded-xl text-xs font-bold transition-all ${recurringForm.type === type ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-400'}`}
+                        >
+                          {type === TransactionType.INCOME ? 'Receita' : 'Despesa'}
+                        </button>
+                      ))}
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Descrição</label>
+                      <input
+                        type="text"
+                        value={recurringForm.description}
+                        onChange={(e) => setRecurringForm({ ...recurringForm, description: e.target.value })}
+                        placeholder="Ex: Condomínio"
+                        className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Valor</label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={recurringForm.amount}
+                          onChange={(e) => setRecurringForm({ ...recurringForm, amount: e.target.value })}
+                          placeholder="0,00"
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Categoria</label>
+                        <select
+                          value={recurringForm.category}
+                          onChange={(e) => setRecurringForm({ ...recurringForm, category: e.target.value })}
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm appearance-none"
+                        >
+                          {renderCategoryOptions(recurringForm.type)}
+                        </select>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Frequência</label>
+                        <select
+                          value={recurringForm.frequency}
+                          onChange={(e) => setRecurringForm({ ...recurringForm, frequency: e.target.value as RecurringFrequency })}
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm appearance-none"
+                        >
+                          {(Object.keys(RECURRING_FREQUENCY_LABELS) as RecurringFrequency[]).map(frequency => (
+                            <option key={frequency} value={frequency}>{RECURRING_FREQUENCY_LABELS[frequency]}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">{recurringForm.frequency === 'custom' ? 'Meses / Dia' : 'Dia do mês'}</label>
+                        <div className="flex gap-2">
+                          {recurringForm.frequency === 'custom' && (
+                            <input
+                              type="number"
+                              min="1"
+                              max="60"
+                              value={recurringForm.intervalMonths}
+                              onChange={(e) => setRecurringForm({ ...recurringForm, intervalMonths: parseInt(e.target.value) || 1 })}
+                              className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                            />
+                          )}
+                          <input
+                            type="number"
+                            min="1"
+                            max="31"
+                            value={recurringForm.dayOfMonth}
+                            onChange={(e) => setRecurringForm({ ...recurringForm, dayOfMonth: parseInt(e.target.value) || 1 })}
+                            className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                          />
+                        </div>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Início</label>
+                        <input
+                          type="date"
+                          value={recurringForm.startDate}
+                          onChange={(e) => setRecurringForm({ ...recurringForm, startDate: e.target.value })}
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Fim (opcional)</label>
+                        <input
+                          type="date"
+                          value={recurringForm.endDate ?? ''}
+                          min={recurringForm.startDate}
+                          onChange={(e) => setRecurringForm({ ...recurringForm, endDate: e.target.value || undefined })}
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 pt-2">
+                      <button type="button" onClick={() => setRecurringForm(null)} className="py-3 rounded-xl font-bold text-slate-500 bg-slate-100 hover:bg-slate-200">
+                        Cancelar
+                      </button>
+                      <button type="submit" className="py-3 rounded-xl font-bold text-white bg-slate-800 hover:bg-slate-700">
+                        Salvar
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <>
+                    {recurringTemplates.length === 0 && (
+                      <p className="text-center text-sm text-slate-400 py-10">Nenhuma recorrência cadastrada.</p>
+                    )}
+                    {recurringTemplates.map(template => {
+                      const today = toDateKey(new Date());
+                      const next = getNextOccurrence(template, today);
+                      const ended = !!template.endDate && template.endDate < today;
+                      return (
+                        <div key={template.id} className={`p-3 rounded-2xl border border-slate-100 ${ended ? 'opacity-60' : ''}`}>
+                          <div className="flex justify-between items-start gap-2">
+                            <div className="min-w-0">
+                              <p className="text-sm font-semibold text-slate-700 truncate">{template.description}</p>
+                              <p className="text-[10px] text-slate-400">{describeFrequency(template)} • {categoryLabel(template.category)}</p>
+                              <p className="text-[10px] text-slate-400">
+                                {next ? `Próxima: ${parseDateKey(next.date).toLocaleDateString('pt-BR')}` : 'Série encerrada'}
+                                {template.skipped.length > 0 && ` • ${template.skipped.length} pulada(s)`}
+                              </p>
+                            </div>
+                            <span className={`text-sm font-bold whitespace-nowrap ${template.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-rose-600'}`}>
+                              {template.type === TransactionType.INCOME ? '+' : '-'} {template.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                            </span>
+                          </div>
+                          <div className="flex justify-end gap-2 mt-2">
+                            {!ended && (
+                              <button onClick={() => endRecurringTemplate(template)} className="text-[10px] font-bold text-slate-500 bg-slate-100 px-2 py-1 rounded-lg hover:bg-slate-200">
+                                Encerrar
+                              </button>
+                            )}
+                            <button onClick={() => deleteRecurringTemplate(template)} className="text-[10px] font-bold text-rose-600 bg-rose-50 px-2 py-1 rounded-lg hover:bg-rose-100">
+                              Excluir
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </>
+                )}
+              </div>
+
+              {!recurringForm && (
+                <div className="p-4 border-t border-slate-100">
+                  <button onClick={openRecurringForm} className="w-full py-3 rounded-xl font-bold text-white bg-slate-800 hover:bg-slate-700 flex items-center justify-center gap-2">
+                    <PlusCircle className="w-5 h-5" /> Nova recorrência
+                  </button>
+                </div>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Audit Log */}
+      <AnimatePresence>
+        {showAuditLog && (
+          <motion.div 
+            initial={{ opacity: 0 }} 
+            animate={{ opacity: 1 }} 
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, opacity: 0 }} 
+              animate={{ scale: 1, opacity: 1 }} 
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl flex flex-col overflow-hidden"
+            >
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                <div>
+                  <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <ScrollText className="w-5 h-5 text-cyan-600" /> Histórico de Alterações
+                  </h2>
+                  <p className="text-xs text-slate-500 mt-1">{auditLog.length} registros • mais recentes primeiro</p>
+                </div>
+                <button onClick={() => setShowAuditLog(false)} className="bg-white p-2 rounded-full shadow-sm border border-slate-200 text-slate-400 hover:text-slate-600">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="overflow-y-auto p-4 space-y-2 custom-scrollbar">
+                {auditLog.length === 0 && (
+                  <p className="text-center text-sm text-slate-400 py-10">Nenhuma alteração registrada ainda.</p>
+                )}
+                {[...auditLog].reverse().map(entry => {
+                  const created = entry.transactions.filter(c => !c.before).length;
+                  const updated = entry.transactions.filter(c => c.before && c.after).length;
+                  const removed = entry.transactions.filter(c => !c.after);
+                  return (
+                    <div key={entry.id} className="p-3 rounded-2xl border border-slate-100">
+                      <div className="flex justify-between items-start gap-2">
+                        <div className="min-w-0">
+                          <p className="text-sm font-semibold text-slate-700 truncate">{entry.label}</p>
+                          <p className="text-[10px] text-slate-400">{new Date(entry.timestamp).toLocaleString('pt-BR')}</p>
+                        </div>
+                        <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full whitespace-nowrap ${
+                          entry.action === 'delete' ? 'bg-rose-50 text-rose-600' : entry.action === 'create' || entry.action === 'restore' ? 'bg-emerald-50 text-emerald-600' : 'bg-slate-100 text-slate-500'
+                        }`}>
+                          {AUDIT_ACTION_LABELS[entry.action]}
+                        </span>
+                      </div>
+                      <p className="text-[10px] text-slate-400 mt-1">
+                        {[
+                          created > 0 && `${created} incluído(s)`,
+                          updated > 0 && `${updated} alterado(s)`,
+                          removed.length > 0 && `${removed.length} excluído(s)`,
+                          entry.bookings.length > 0 && `${entry.bookings.length} reserva(s)`,
+                          entry.blockedDates.length > 0 && `${entry.blockedDates.length} bloqueio(s)`,
+                          entry.recurringTemplates.length > 0 && `${entry.recurringTemplates.length} recorrência(s)`,
+                          entry.categories.length > 0 && `${entry.categories.length} categoria(s)`,
+                          entry.properties.length > 0 && `${entry.properties.length} imóvel(is)`,
+                          entry.guests.length > 0 && `${entry.guests.length} hóspede(s)`
+                        ].filter(Boolean).join(' • ')}
+                      </p>
+                      {removed.filter(c => !transactions.some(t => t.id === c.key)).slice(0, 5).map(c => (
+                        <div key={c.key} className="mt-2 flex justify-between items-center gap-2 bg-slate-50 rounded-xl px-3 py-2">
+                          <div className="min-w-0">
+                            <p className="text-xs text-slate-600 truncate">{c.before!.description || categoryLabel(c.before!.category)}</p>
+                            <p className="text-[10px] text-slate-400">
+                              {parseDateKey(c.before!.date).toLocaleDateString('pt-BR')} • R$ {c.before!.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => restoreTransaction(entry, c.key)}
+                            className="flex items-center gap-1 text-[10px] font-bold text-cyan-700 bg-cyan-50 px-2 py-1 rounded-lg hover:bg-cyan-100 whitespace-nowrap"
+                          >
+                            <RotateCcw className="w-3 h-3" /> Restaurar
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Bank Statement Reconciliation */}
+      <AnimatePresence>
+        {statementImport && (
+          <motion.div 
+            initial={{ opacity: 0 }} 
+            animate={{ opacity: 1 }} 
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, opacity: 0 }} 
+              animate={{ scale: 1, opacity: 1 }} 
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl flex flex-col overflow-hidden"
+            >
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                <div>
+                  <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Landmark className="w-5 h-5 text-cyan-600" /> Conciliação Bancária
+                  </h2>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {statementImport.fileName} • {statementImport.items.filter(i => i.status === 'matched').length} conciliados de {statementImport.items.length}
+                  </p>
+                </div>
+                <button onClick={() => setStatementImport(null)} className="bg-white p-2 rounded-full shadow-sm border border-slate-200 text-slate-400 hover:text-slate-600">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="overflow-y-auto p-4 space-y-2 custom-scrollbar">
+                {statementImport.items.map((item, idx) => {
+                  const updateItem = (changes: Partial<{ create: boolean; category: CategoryId }>) =>
+                    setStatementImport(prev => prev && { ...prev, items: prev.items.map((it, i) => i === idx ? { ...it, ...changes } : it) });
+                  return (
+                    <div key={`${item.line.id}-${idx}`} className={`p-3 rounded-2xl border ${item.status === 'matched' ? 'border-emerald-100 bg-emerald-50/40' : item.status === 'already_reconciled' ? 'border-slate-100 bg-slate-50 opacity-60' : 'border-slate-100'}`}>
+                      <div className="flex justify-between items-start gap-2">
+                        <div>
+                          <p className="text-sm font-semibold text-slate-700">{item.line.description || 'Sem descrição'}</p>
+                          <p className="text-[10px] text-slate-400">{parseDateKey(item.line.date).toLocaleDateString('pt-BR')}</p>
+                        </div>
+                        <span className={`text-sm font-bold whitespace-nowrap ${item.line.amount < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                          {item.line.amount < 0 ? '-' : '+'} {Math.abs(item.line.amount).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                        </span>
+                      </div>
+                      {item.status === 'matched' && item.match && (
+                        <p className="text-[10px] text-emerald-600 font-medium mt-1 flex items-center gap-1">
+                          <CircleCheck className="w-3 h-3" /> {item.match.description || categoryLabel(item.match.category)} • {parseDateKey(item.match.date).toLocaleDateString('pt-BR')}
+                        </p>
+                      )}
+                      {item.status === 'already_reconciled' && (
+                        <p className="text-[10px] text-slate-400 font-medium mt-1">Já conciliado anteriormente</p>
+                      )}
+                      {item.status === 'unmatched' && item.line.amount < 0 && (
+                        <div className="flex items-center gap-2 mt-2">
+                          <input
+                            type="checkbox"
+                            checked={item.create}
+                            onChange={(e) => updateItem({ create: e.target.checked })}
+                            className="w-4 h-4 accent-cyan-600"
+                          />
+                          <span className="text-[10px] text-slate-500">Criar despesa em</span>
+                          <select
+                            value={item.category}
+                            disabled={!item.create}
+                            onChange={(e) => updateItem({ category: e.target.value })}
+                            className="flex-1 bg-slate-50 rounded-lg py-1 px-2 text-[11px] font-medium text-slate-600 outline-none disabled:opacity-40"
+                          >
+                            {renderCategoryOptions(TransactionType.EXPENSE)}
+                          </select>
+                        </div>
+                      )}
+                      {item.status === 'unmatched' && item.line.amount > 0 && (
+                        <p className="text-[10px] text-amber-500 font-medium mt-1">Crédito sem lançamento correspondente</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="p-6 border-t border-slate-100 bg-slate-50">
+                <button 
+                  onClick={confirmReconciliation}
+                  className="w-full bg-slate-800 text-white py-4 rounded-xl font-bold flex items-center justify-center gap-2 shadow-lg hover:bg-slate-700 transition-all active:scale-95"
+                >
+                  <CircleCheck className="w-5 h-5" /> Conciliar e criar {statementImport.items.filter(i => i.status === 'unmatched' && i.create).length} despesas
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Backup Restore Preview */}
+      <AnimatePresence>
+        {backupRestore && backupMergePreview && (
+          <motion.div 
+            initial={{ opacity: 0 }} 
+            animate={{ opacity: 1 }} 
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, opacity: 0 }} 
+              animate={{ scale: 1, opacity: 1 }} 
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl flex flex-col overflow-hidden"
+            >
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                <div>
+                  <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Upload className="w-5 h-5 text-cyan-600" /> Restaurar Backup
+                  </h2>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {backupRestore.fileName} • esquema v{backupRestore.parsed.schemaVersion}
+                    {backupRestore.parsed.exportedAt && ` • ${new Date(backupRestore.parsed.exportedAt).toLocaleDateString('pt-BR')}`}
+                    {backupRestore.parsed.appVersion && ` • app ${backupRestore.parsed.appVersion}`}
+                  </p>
+                </div>
+                <button onClick={() => setBackupRestore(null)} className="bg-white p-2 rounded-full shadow-sm border border-slate-200 text-slate-400 hover:text-slate-600">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="overflow-y-auto p-6 space-y-5 custom-scrollbar">
+                {backupRestore.parsed.checksumValid === false && (
+                  <div className="p-3 rounded-2xl bg-rose-50 border border-rose-100 text-rose-600 text-xs font-medium flex items-center gap-2">
+                    <AlertCircle className="w-4 h-4 shrink-0" /> A soma de verificação não confere: o arquivo foi alterado ou está corrompido.
+                  </div>
+                )}
+                {backupRestore.parsed.checksumValid === null && (
+                  <div className="p-3 rounded-2xl bg-amber-50 border border-amber-100 text-amber-600 text-xs font-medium flex items-center gap-2">
+                    <Info className="w-4 h-4 shrink-0" /> Backup em formato antigo, sem verificação de integridade. Os dados foram migrados.
+                  </div>
+                )}
+
+                <div className="grid grid-cols-3 gap-3 text-center">
+                  <div className="p-3 bg-emerald-50 rounded-2xl border border-emerald-100">
+                    <p className="text-[10px] text-emerald-600 font-bold uppercase">Válidos</p>
+                    <p className="text-lg font-bold text-emerald-700">{backupRestore.parsed.data.transactions.length}</p>
+                  </div>
+                  <div className="p-3 bg-rose-50 rounded-2xl border border-rose-100">
+                    <p className="text-[10px] text-rose-600 font-bold uppercase">Com erro</p>
+                    <p className="text-lg font-bold text-rose-700">{backupRestore.parsed.errors.length}</p>
+                  </div>
+                  <div className="p-3 bg-cyan-50 rounded-2xl border border-cyan-100">
+                    <p className="text-[10px] text-cyan-600 font-bold uppercase">Reservas</p>
+                    <p className="text-lg font-bold text-cyan-700">{backupRestore.parsed.data.bookings.length}</p>
+                  </div>
+                </div>
+
+                {backupRestore.parsed.errors.length > 0 && (
+                  <div>
+                    <h3 className="font-bold text-slate-800 mb-2 text-sm uppercase tracking-wide border-b border-slate-100 pb-2">Registros ignorados</h3>
+                    <div className="space-y-1 max-h-32 overflow-y-auto custom-scrollbar">
+                      {backupRestore.parsed.errors.map(error => (
+                        <p key={`${error.collection}-${error.index}`} className="text-[11px] text-rose-500">
+                          {BACKUP_COLLECTION_LABELS[error.collection]} #{error.index + 1}{error.id && ` (${error.id.slice(0, 8)})`}: {error.messages.join(', ')}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <h3 className="font-bold text-slate-800 mb-2 text-sm uppercase tracking-wide border-b border-slate-100 pb-2">Modo de importação</h3>
+                  <div className="flex p-1 bg-slate-100 rounded-xl">
+                    {(['merge', 'replace'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setBackupRestore({ ...backupRestore, mode })}
+                        className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all ${backupRestore.mode === mode ? 'bg-cyan-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                      >
+                        {mode === 'merge' ? 'Mesclar' : 'Substituir tudo'}
+                      </button>
+                    ))}
+                  </div>
+                  {backupRestore.mode === 'merge' ? (
+                    <div className="mt-3 space-y-3">
+                      <p className="text-[11px] text-slate-500">
+                        {backupMergePreview.added} novas • {backupMergePreview.identical} já existentes • {backupMergePreview.conflicts.length} em conflito
+                      </p>
+                      {backupMergePreview.conflicts.length > 0 && (
+                        <div className="p-3 rounded-2xl border border-amber-100 bg-amber-50/50 space-y-2">
+                          <p className="text-[11px] font-bold text-amber-700">Mesmo registro com conteúdo diferente:</p>
+                          <div className="space-y-1 max-h-28 overflow-y-auto custom-scrollbar">
+                            {backupMergePreview.conflicts.map(({ current, incoming }) => (
+                              <p key={current.id} className="text-[10px] text-slate-600">
+                                {current.description || categoryLabel(current.category)}: R$ {current.amount.toLocaleString('pt-BR')} ({parseDateKey(current.date).toLocaleDateString('pt-BR')}) → R$ {incoming.amount.toLocaleString('pt-BR')} ({parseDateKey(incoming.date).toLocaleDateString('pt-BR')})
+                              </p>
+                            ))}
+                          </div>
+                          <div className="flex gap-2">
+                            {(['current', 'backup'] as const).map(prefer => (
+                              <button
+                                key={prefer}
+                                onClick={() => setBackupRestore({ ...backupRestore, prefer })}
+                                className={`flex-1 py-1.5 rounded-lg text-[10px] font-bold ${backupRestore.prefer === prefer ? 'bg-amber-500 text-white' : 'bg-white text-slate-500 border border-slate-200'}`}
+                              >
+                                {prefer === 'current' ? 'Manter atuais' : 'Usar do backup'}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="mt-3 text-[11px] text-rose-500 font-medium">Todos os {transactions.length} registros atuais serão substituídos.</p>
+                  )}
+                  {backupRestore.parsed.data.settings && (
+                    <p className="mt-2 text-[11px] text-slate-500">
+                      O backup inclui orçamentos, taxas dos canais, tabelas do IRPF e metas de lucro.{' '}
+                      {backupRestore.mode === 'merge' ? 'Só os valores ausentes aqui serão adicionados.' : 'Eles substituirão os atuais.'}{' '}
+                      Desfazer a importação não restaura as configurações anteriores.
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="p-6 border-t border-slate-100 bg-slate-50">
+                <button 
+                  onClick={confirmBackupRestore}
+                  disabled={backupRestore.parsed.data.transactions.length === 0}
+                  className="w-full bg-slate-800 text-white py-4 rounded-xl font-bold flex items-center justify-center gap-2 shadow-lg hover:bg-slate-700 transition-all active:scale-95 disabled:opacity-40"
+                >
+                  <Upload className="w-5 h-5" /> {backupRestore.mode === 'merge' ? 'Mesclar dados' : 'Substituir dados'}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Backup Modal */}
+      <AnimatePresence>
+        {showBackupModal && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[70] bg-slate-900/60 backdrop-blur-sm flex items-end sm:items-center justify-center sm:p-4"
+            onClick={() => setShowBackupModal(false)}
+          >
+            <motion.div
+              initial={{ y: 100, opacity: 0 }}
+              animate={{ y: 0, opacity: 1, transition: { type: "spring", stiffness: 300, damping: 30 } }}
+              exit={{ y: 100, opacity: 0 }}
+              className="bg-white w-full max-w-sm rounded-t-[2rem] sm:rounded-3xl shadow-2xl p-6"
+              onClick={e => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-start mb-5">
+                <div className="bg-cyan-100 p-3 rounded-2xl">
+                  <Download className="w-6 h-6 text-cyan-600" />
+                </div>
+                <button onClick={() => setShowBackupModal(false)} className="p-2 bg-slate-50 rounded-full text-slate-400 hover:bg-slate-100 transition-colors">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              <h3 className="text-xl font-bold text-slate-800 mb-1">Backup de Dados</h3>
+              <p className="text-slate-400 text-sm mb-6">Exporte ou importe suas transações para não perder seus dados.</p>
+
+              <div className="space-y-3">
+                <motion.button
+                  whileTap={{ scale: 0.95 }}
+                  onClick={exportData}
+                  className="w-full flex items-center gap-4 p-4 bg-emerald-50 hover:bg-emerald-100 rounded-2xl border border-emerald-100 transition-colors group"
+                >
+                  <div className="bg-emerald-500 p-3 rounded-xl text-white group-hover:scale-110 transition-transform">
+                    <Download className="w-5 h-5" />
+                  </div>
+                  <div className="text-left">
+                    <p className="font-bold text-slate-800 text-sm">Exportar Backup</p>
+                    <p className="text-[11px] text-slate-400">{transactions.length} transações • {bookings.length} reservas • JSON</p>
+                  </div>
+                </motion.button>
+
+                <label className="w-full flex items-center gap-4 p-4 bg-cyan-50 hover:bg-cyan-100 rounded-2xl border border-cyan-100 transition-colors cursor-pointer group">
+                  <div className="bg-cyan-500 p-3 rounded-xl text-white group-hover:scale-110 transition-transform">
+                    <Upload className="w-5 h-5" />
+                  </div>
+                  <div className="text-left">
+                    <p className="font-bold text-slate-800 text-sm">Importar Backup</p>
+                    <p className="text-[11px] text-slate-400">Selecione um arquivo JSON</p>
+                  </div>
+                  <input
+                    type="file"
+                    accept=".json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) importData(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+
+                <label className="w-full flex items-center gap-4 p-4 bg-indigo-50 hover:bg-indigo-100 rounded-2xl border border-indigo-100 transition-colors cursor-pointer group">
+                  <div className="bg-indigo-500 p-3 rounded-xl text-white group-hover:scale-110 transition-transform">
+                    <CalendarDays className="w-5 h-5" />
+                  </div>
+                  <div className="text-left">
+                    <p className="font-bold text-slate-800 text-sm">Importar Calendário</p>
+                    <p className="text-[11px] text-slate-400">Airbnb / Booking.com • ICS</p>
+                  </div>
+                  <input
+                    type="file"
+                    accept=".ics,text/calendar"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) importCalendar(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+
+                <label className="w-full flex items-center gap-4 p-4 bg-amber-50 hover:bg-amber-100 rounded-2xl border border-amber-100 transition-colors cursor-pointer group">
+                  <div className="bg-amber-500 p-3 rounded-xl text-white group-hover:scale-110 transition-transform">
+                    <FileSpreadsheet className="w-5 h-5" />
+                  </div>
+                  <div className="text-left">
+                    <p className="font-bold text-slate-800 text-sm">Importar Repasses</p>
+                    <p className="text-[11px] text-slate-400">Airbnb / Booking.com • CSV</p>
+                  </div>
+                  <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) importPayoutCsv(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+
+                <label className="w-full flex items-center gap-4 p-4 bg-slate-50 hover:bg-slate-100 rounded-2xl border border-slate-100 transition-colors cursor-pointer group">
+                  <div className="bg-slate-600 p-3 rounded-xl text-white group-hover:scale-110 transition-transform">
+                    <Landmark className="w-5 h-5" />
+                  </div>
+                  <div className="text-left">
+                    <p className="font-bold text-slate-800 text-sm">Conciliar Extrato</p>
+                    <p className="text-[11px] text-slate-400">Extrato bancário • OFX ou CSV</p>
+                  </div>
+                  <input
+                    type="file"
+                    accept=".ofx,.csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) importStatement(file);
+                      e.target.value = '';
                     }}
                   />
                 </label>
+
+                <motion.button
+                  whileTap={{ scale: 0.95 }}
+                  onClick={exportCalendar}
+                  className="w-full flex items-center gap-4 p-4 bg-violet-50 hover:bg-violet-100 rounded-2xl border border-violet-100 transition-colors group"
+                >
+                  <div className="bg-violet-500 p-3 rounded-xl text-white group-hover:scale-110 transition-transform">
+                    <Calendar className="w-5 h-5" />
+                  </div>
+                  <div className="text-left">
+                    <p className="font-bold text-slate-800 text-sm">Exportar Calendário</p>
+                    <p className="text-[11px] text-slate-400">{calendarBookings.length} reservas • {calendarBlocked.length} noites bloqueadas • ICS</p>
+                  </div>
+                </motion.button>
               </div>
 
               <motion.button
@@ -558,7 +3622,9 @@ const App: React.FC = () => {
               transition={{ delay: 0.1 }}
             >
               <h1 className="text-2xl font-bold tracking-tight text-white">Porto Finanças</h1>
-              <p className="text-cyan-100 opacity-90 text-sm">Gestão de Flat</p>
+              <button onClick={() => setShowProperties(true)} className="flex items-center gap-1 text-cyan-100 opacity-90 text-sm hover:opacity-100 transition-opacity">
+                {scopeLabel} <ChevronDown className="w-4 h-4" />
+              </button>
             </motion.div>
           </div>
           <div className="flex items-center gap-2">
@@ -582,8 +3648,8 @@ const App: React.FC = () => {
         </div>
 
         {/* Time Filter Tabs */}
-        <div className="flex p-1 bg-black/20 backdrop-blur-md rounded-2xl mb-4 relative z-10">
-          {(['monthly', 'semiannual', 'annual', 'all'] as const).map((range) => (
+        <div className="flex p-1 bg-black/20 backdrop-blur-md rounded-2xl mb-2 relative z-10">
+          {(['monthly', 'quarterly', 'semiannual', 'annual', 'all'] as const).map((range) => (
             <button
               key={range}
               onClick={() => { setTimeRange(range); if (range === 'all') return; }}
@@ -598,24 +3664,59 @@ const App: React.FC = () => {
                   transition={{ type: "spring", bounce: 0.2, duration: 0.6 }}
                 />
               )}
-              <span className="relative z-10">{range === 'monthly' ? 'Mês' : range === 'semiannual' ? 'Semestre' : range === 'annual' ? 'Ano' : 'Tudo'}</span>
+              <span className="relative z-10">{range === 'monthly' ? 'Mês' : range === 'quarterly' ? 'Tri' : range === 'semiannual' ? 'Sem' : range === 'annual' ? 'Ano' : 'Tudo'}</span>
             </button>
           ))}
         </div>
+        <div className="flex flex-wrap gap-2 mb-4 relative z-10">
+          {WINDOW_RANGES.map(({ range, label }) => (
+            <button
+              key={range}
+              onClick={() => setTimeRange(range)}
+              className={`shrink-0 px-3 py-1 rounded-lg text-[10px] font-bold transition-colors border border-white/10 ${
+                timeRange === range ? 'bg-white text-cyan-800' : 'bg-white/10 text-cyan-100 hover:bg-white/20'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {timeRange === 'custom' && (
+          <div className="grid grid-cols-2 gap-2 mb-4 relative z-10">
+            {(['start', 'end'] as const).map(edge => {
+              const bounds = getPeriodBounds('custom', selectedDate, customDays)!;
+              const startKey = toDateKey(bounds.start);
+              const endKey = toDateKey(addDays(bounds.end, -1));
+              return (
+                <label key={edge} className="block">
+                  <span className="text-[10px] text-cyan-50 uppercase font-bold tracking-wider ml-1">{edge === 'start' ? 'De' : 'Até'}</span>
+                  <input
+                    type="date"
+                    value={edge === 'start' ? startKey : endKey}
+                    onChange={e => edge === 'start'
+                      ? applyCustomRange(e.target.value, endKey, setSelectedDate, setCustomDays)
+                      : applyCustomRange(startKey, e.target.value, setSelectedDate, setCustomDays)}
+                    className="w-full bg-white/15 border border-white/10 rounded-xl py-2 px-3 text-xs font-bold text-white outline-none focus:bg-white/25 [color-scheme:dark]"
+                  />
+                </label>
+              );
+            })}
+          </div>
+        )}
 
         {/* Period Navigation */}
         {timeRange !== 'all' && (
           <div className="flex items-center justify-between mb-6 relative z-10">
             <motion.button
               whileTap={{ scale: 0.85 }}
-              onClick={() => setSelectedDate(navigatePeriod('prev', timeRange, selectedDate))}
+              onClick={() => setSelectedDate(navigatePeriod('prev', timeRange, selectedDate, customDays))}
               className="bg-white/15 p-2 rounded-xl backdrop-blur-md border border-white/10 hover:bg-white/25 transition-colors"
             >
               <ChevronLeft className="w-5 h-5 text-white" />
             </motion.button>
             <div className="flex items-center gap-3">
               <span className="text-white font-bold text-sm">
-                {getPeriodLabelForDate(timeRange, selectedDate)}
+                {getPeriodLabel()}
               </span>
               {selectedDate.toDateString() !== new Date().toDateString() && (
                 <motion.button
@@ -629,7 +3730,7 @@ const App: React.FC = () => {
             </div>
             <motion.button
               whileTap={{ scale: 0.85 }}
-              onClick={() => setSelectedDate(navigatePeriod('next', timeRange, selectedDate))}
+              onClick={() => setSelectedDate(navigatePeriod('next', timeRange, selectedDate, customDays))}
               className="bg-white/15 p-2 rounded-xl backdrop-blur-md border border-white/10 hover:bg-white/25 transition-colors"
             >
               <ChevronRight className="w-5 h-5 text-white" />
@@ -649,10 +3750,13 @@ const App: React.FC = () => {
           <motion.h2 
             initial={{ scale: 0.9 }}
             animate={{ scale: 1 }}
-            className="text-4xl font-extrabold mb-4 tracking-tight"
+            className={`text-4xl font-extrabold tracking-tight ${comparisonPeriods.length > 0 ? 'mb-1' : 'mb-4'}`}
           >
             R$ {summary.balance.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
           </motion.h2>
+          {comparisonPeriods.length > 0 && (
+            <div className="flex gap-3 mb-4">{renderDeltas('balance', { light: true })}</div>
+          )}
           <div className="flex justify-between gap-4">
             <div className="flex items-center gap-2">
               <div className="bg-emerald-400/20 p-1.5 rounded-lg border border-emerald-400/30">
@@ -661,6 +3765,7 @@ const App: React.FC = () => {
               <div>
                 <p className="text-[10px] text-cyan-50 uppercase">Entradas</p>
                 <p className="text-sm font-bold">R$ {summary.income.toLocaleString('pt-BR')}</p>
+                {renderDeltas('income', { light: true })}
               </div>
             </div>
             <div className="flex items-center gap-2">
@@ -670,14 +3775,30 @@ const App: React.FC = () => {
               <div>
                 <p className="text-[10px] text-cyan-50 uppercase">Saídas</p>
                 <p className="text-sm font-bold">R$ {summary.expenses.toLocaleString('pt-BR')}</p>
+                {renderDeltas('expenses', { light: true, lowerIsBetter: true })}
               </div>
             </div>
           </div>
+          {(summary.pendingIncome > 0 || summary.pendingExpenses > 0) && (
+            <div className="flex justify-between mt-4 pt-3 border-t border-white/10 text-[11px] text-cyan-50">
+              <span>Realizado <b className="text-white">R$ {summary.realizedBalance.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</b></span>
+              <span>Projetado <b className="text-white">R$ {summary.projectedBalance.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</b></span>
+            </div>
+          )}
         </motion.div>
       </header>
 
       {/* Main Content Area */}
       <main className="flex-1 px-4 py-6 overflow-y-auto custom-scrollbar">
+        {storageError && (
+          <div className="mb-4 p-3 rounded-2xl bg-rose-50 border border-rose-100 text-rose-600 text-xs font-medium flex items-center gap-2">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            <span className="flex-1">Não foi possível salvar as últimas alterações neste navegador (armazenamento cheio ou bloqueado). Exporte um backup para não perdê-las.</span>
+            <button onClick={() => setStorageError(false)} className="text-rose-400 hover:text-rose-600">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
         <AnimatePresence mode="wait">
           {/* Dashboard Tab */}
           {activeTab === 'dashboard' && (
@@ -718,6 +3839,7 @@ const App: React.FC = () => {
                       <h3 className={`text-2xl font-extrabold ${summary.margin >= 50 ? 'text-emerald-500' : summary.margin > 0 ? 'text-cyan-600' : 'text-rose-500'}`}>
                         {summary.margin.toFixed(0)}%
                       </h3>
+                      {renderDeltas('margin')}
                     </div>
                     <div className="w-full bg-slate-100 h-1.5 rounded-full mt-3 overflow-hidden">
                       <motion.div 
@@ -768,6 +3890,246 @@ const App: React.FC = () => {
                  </motion.div>
               </div>
 
+              {/* Occupancy Card */}
+              <motion.div 
+                variants={itemVariants}
+                whileHover={{ scale: 1.01 }}
+                whileTap={{ scale: 0.99 }}
+                onClick={() => setExplanation({
+                  title: "Ocupação e Diárias",
+                  type: 'list',
+                  text: "Noites vendidas frente às noites disponíveis no período:",
+                  data: [
+                    { label: 'Noites Ocupadas', value: `${occupancy.bookedNights} de ${occupancy.availableNights}`, color: '#0891B2' },
+                    { label: 'Receita de Hospedagem', value: `R$ ${occupancy.roomRevenue.toLocaleString('pt-BR', { maximumFractionDigits: 2 })}`, color: '#10B981' },
+                    { label: 'Diária Média (ADR)', value: `R$ ${occupancy.adr.toLocaleString('pt-BR', { maximumFractionDigits: 2 })}`, color: '#6366F1' },
+                    { label: 'RevPAR', value: `R$ ${occupancy.revPar.toLocaleString('pt-BR', { maximumFractionDigits: 2 })}`, color: '#F59E0B' }
+                  ]
+                })}
+                className="bg-white p-4 rounded-3xl shadow-sm border border-slate-100 cursor-help relative"
+              >
+                <div className="absolute top-3 right-3 opacity-20">
+                  <HelpCircle className="w-4 h-4 text-slate-400" />
+                </div>
+                <p className="text-slate-400 text-[10px] font-bold uppercase tracking-wider mb-3 flex items-center gap-1">
+                  <BedDouble className="w-3 h-3" /> Taxa de Ocupação
+                </p>
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div>
+                    <h3 className="text-xl font-extrabold text-cyan-600">{occupancy.occupancyRate.toFixed(0)}%</h3>
+                    <p className="text-[10px] text-slate-400">{occupancy.bookedNights}/{occupancy.availableNights} noites</p>
+                  </div>
+                  <div>
+                    <h3 className="text-xl font-extrabold text-slate-700">R$ {occupancy.adr.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</h3>
+                    <p className="text-[10px] text-slate-400">Diária média</p>
+                  </div>
+                  <div>
+                    <h3 className="text-xl font-extrabold text-slate-700">R$ {occupancy.revPar.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</h3>
+                    <p className="text-[10px] text-slate-400">RevPAR</p>
+                  </div>
+                </div>
+                <div className="w-full bg-slate-100 h-1.5 rounded-full mt-3 overflow-hidden">
+                  <motion.div 
+                    initial={{ width: 0 }}
+                    animate={{ width: `${occupancy.occupancyRate}%` }}
+                    transition={{ duration: 1, ease: "easeOut" }}
+                    className="h-full rounded-full bg-cyan-500" 
+                  />
+                </div>
+              </motion.div>
+
+              {/* Pricing suggestions */}
+              {rateModel && (
+                <motion.div
+                  variants={itemVariants}
+                  whileHover={{ scale: 1.01 }}
+                  whileTap={{ scale: 0.99 }}
+                  onClick={() => setShowPricing(true)}
+                  className="bg-white p-4 rounded-3xl shadow-sm border border-slate-100 cursor-pointer relative"
+                >
+                  <div className="absolute top-3 right-3 opacity-20">
+                    <ChevronRight className="w-4 h-4 text-slate-400" />
+                  </div>
+                  <p className="text-slate-400 text-[10px] font-bold uppercase tracking-wider mb-3 flex items-center gap-1">
+                    <Gauge className="w-3 h-3" /> Diárias Sugeridas • {activeProperty.name}
+                  </p>
+                  <div className="grid grid-cols-7 gap-1 text-center">
+                    {rateSuggestions.slice(0, 7).map(s => (
+                      <div key={s.date} className={`py-2 rounded-xl ${s.bookedRate !== undefined ? 'bg-slate-50 text-slate-300' : s.event ? 'bg-amber-50 text-amber-700' : s.isWeekend ? 'bg-cyan-50 text-cyan-700' : 'text-slate-600'}`}>
+                        <p className="text-[9px] font-bold uppercase">{parseDateKey(s.date).toLocaleDateString('pt-BR', { weekday: 'short' }).replace('.', '')}</p>
+                        <p className="text-xs font-extrabold">{s.rate}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {targetAdr && profitTarget > 0 && (
+                    <p className="text-[10px] text-slate-500 mt-3">
+                      Meta de R$ {profitTarget.toLocaleString('pt-BR')}/mês: diária média de <span className="font-bold text-slate-700">R$ {targetAdr.requiredAdr.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</span>
+                      <span className={`font-bold ${targetAdr.adrChange > 0 ? 'text-rose-500' : 'text-emerald-500'}`}> ({targetAdr.adrChange > 0 ? '+' : ''}{targetAdr.adrChange.toFixed(0)}%)</span>
+                    </p>
+                  )}
+                </motion.div>
+              )}
+
+              {/* Portfolio comparison */}
+              {portfolioSummary.length > 0 && (
+                <motion.div variants={itemVariants} className="bg-white p-4 rounded-3xl shadow-sm border border-slate-100">
+                  <p className="text-slate-400 text-[10px] font-bold uppercase tracking-wider mb-3 flex items-center gap-1">
+                    <Building2 className="w-3 h-3" /> Comparativo de Imóveis
+                  </p>
+                  <div className="space-y-3">
+                    {portfolioSummary.map(item => {
+                      const maxIncome = Math.max(...portfolioSummary.map(p => p.income), 1);
+                      return (
+                        <button key={item.property.id} onClick={() => selectPropertyScope(item.property.id)} className="w-full text-left p-2 rounded-xl hover:bg-slate-50">
+                          <div className="flex items-center justify-between gap-2 mb-1">
+                            <span className="flex items-center gap-2 text-xs font-semibold text-slate-700 min-w-0">
+                              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: item.property.color }} />
+                              <span className="truncate">{item.property.name}</span>
+                            </span>
+                            <span className={`text-xs font-bold whitespace-nowrap ${item.margin >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                              {item.margin.toFixed(0)}% margem
+                            </span>
+                          </div>
+                          <div className="w-full bg-slate-100 h-1.5 rounded-full overflow-hidden">
+                            <motion.div
+                              initial={{ width: 0 }}
+                              animate={{ width: `${(item.income / maxIncome) * 100}%` }}
+                              transition={{ duration: 1, ease: "easeOut" }}
+                              className="h-full rounded-full"
+                              style={{ backgroundColor: item.property.color }}
+                            />
+                          </div>
+                          <p className="text-[10px] text-slate-400 mt-1">
+                            Receita R$ {item.income.toLocaleString('pt-BR', { maximumFractionDigits: 0 })} • Saldo R$ {item.balance.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}
+                          </p>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </motion.div>
+              )}
+
+              {/* Revenue by channel */}
+              {channelBreakdown.length > 0 && (
+                <motion.div variants={itemVariants} className="bg-white p-4 rounded-3xl shadow-sm border border-slate-100">
+                  <div className="flex justify-between items-center mb-3">
+                    <p className="text-slate-400 text-[10px] font-bold uppercase tracking-wider flex items-center gap-1">
+                      <Percent className="w-3 h-3" /> Receita por Canal
+                    </p>
+                    <button onClick={() => setChannelFeeDraft(channelFeeRules)} className="text-[10px] font-bold text-cyan-600 hover:text-cyan-700">
+                      Taxas
+                    </button>
+                  </div>
+                  <div className="space-y-3">
+                    {channelBreakdown.map(item => (
+                      <div key={item.channel}>
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <span className="flex items-center gap-2 text-xs font-semibold text-slate-700">
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: CHANNEL_COLORS[item.channel] }} />
+                            {item.channel}
+                            <span className="text-slate-400 font-medium">{item.share.toFixed(0)}%</span>
+                          </span>
+                          <span className="text-xs font-bold text-emerald-600">{item.margin.toFixed(0)}% margem</span>
+                        </div>
+                        <div className="w-full bg-slate-100 h-1.5 rounded-full overflow-hidden">
+                          <motion.div
+                            initial={{ width: 0 }}
+                            animate={{ width: `${item.share}%` }}
+                            transition={{ duration: 1, ease: "easeOut" }}
+                            className="h-full rounded-full"
+                            style={{ backgroundColor: CHANNEL_COLORS[item.channel] }}
+                          />
+                        </div>
+                        <p className="text-[10px] text-slate-400 mt-1">
+                          Bruto R$ {item.gross.toLocaleString('pt-BR', { maximumFractionDigits: 0 })} • Taxas R$ {item.fees.toLocaleString('pt-BR', { maximumFractionDigits: 0 })} • Líquido R$ {item.net.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </motion.div>
+              )}
+
+              {/* Carnê-Leão */}
+              {carneLeao.income > 0 && (
+                <motion.div
+                  variants={itemVariants}
+                  whileHover={{ scale: 1.01 }}
+                  whileTap={{ scale: 0.99 }}
+                  onClick={() => setShowTax(true)}
+                  className="bg-white p-4 rounded-3xl shadow-sm border border-slate-100 cursor-pointer relative"
+                >
+                  <div className="absolute top-3 right-3 opacity-20">
+                    <ChevronRight className="w-4 h-4 text-slate-400" />
+                  </div>
+                  <p className="text-slate-400 text-[10px] font-bold uppercase tracking-wider mb-3 flex items-center gap-1">
+                    <Landmark className="w-3 h-3" /> Carnê-Leão • {getPeriodLabelForDate('monthly', selectedDate)}
+                  </p>
+                  <div className="grid grid-cols-3 gap-2 text-center">
+                    <div>
+                      <h3 className="text-base font-extrabold text-slate-700">R$ {carneLeaoMonth.base.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</h3>
+                      <p className="text-[10px] text-slate-400">Base de cálculo</p>
+                    </div>
+                    <div>
+                      <h3 className="text-base font-extrabold text-indigo-600">R$ {carneLeaoMonth.darf.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</h3>
+                      <p className="text-[10px] text-slate-400">DARF ({carneLeaoMonth.rate}%)</p>
+                    </div>
+                    <div>
+                      <h3 className="text-base font-extrabold text-slate-700">{parseDateKey(carneLeaoMonth.dueDate).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })}</h3>
+                      <p className="text-[10px] text-slate-400">Vencimento</p>
+                    </div>
+                  </div>
+                </motion.div>
+              )}
+
+              {/* Receivables / Payables */}
+              {(pendingItems.receivables.length > 0 || pendingItems.payables.length > 0) && (
+                <motion.div variants={itemVariants} className="bg-white p-4 rounded-3xl shadow-sm border border-slate-100">
+                  <p className="text-slate-400 text-[10px] font-bold uppercase tracking-wider mb-3 flex items-center gap-1">
+                    <Wallet className="w-3 h-3" /> A receber / A pagar
+                  </p>
+                  <div className="grid grid-cols-2 gap-3 mb-3">
+                    <div className="bg-emerald-50 rounded-2xl p-3">
+                      <p className="text-[10px] font-bold text-emerald-600 uppercase">A receber</p>
+                      <p className="text-lg font-extrabold text-emerald-700">R$ {pendingItems.receivables.reduce((acc, item) => acc + item.transaction.amount, 0).toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</p>
+                      <p className="text-[10px] text-emerald-600/70">{pendingItems.receivables.length} em aberto</p>
+                    </div>
+                    <div className="bg-rose-50 rounded-2xl p-3">
+                      <p className="text-[10px] font-bold text-rose-600 uppercase">A pagar</p>
+                      <p className="text-lg font-extrabold text-rose-700">R$ {pendingItems.payables.reduce((acc, item) => acc + item.transaction.amount, 0).toLocaleString('pt-BR', { maximumFractionDigits: 0 })}</p>
+                      <p className="text-[10px] text-rose-600/70">{pendingItems.payables.length} em aberto</p>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    {[...pendingItems.receivables, ...pendingItems.payables]
+                      .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+                      .slice(0, 5)
+                      .map(item => (
+                        <div key={item.transaction.id} className="flex items-center justify-between gap-2 p-2 rounded-xl hover:bg-slate-50">
+                          <div className="min-w-0">
+                            <p className="text-xs font-semibold text-slate-700 truncate">{item.transaction.description || categoryLabel(item.transaction.category)}</p>
+                            <p className={`text-[10px] font-medium ${item.daysUntilDue < 0 ? 'text-rose-500' : 'text-slate-400'}`}>
+                              {item.daysUntilDue < 0
+                                ? `Venceu há ${-item.daysUntilDue} dia(s)`
+                                : item.daysUntilDue === 0 ? 'Vence hoje' : `Vence em ${parseDateKey(item.dueDate).toLocaleDateString('pt-BR')}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className={`text-xs font-bold whitespace-nowrap ${item.transaction.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-rose-600'}`}>
+                              {item.transaction.type === TransactionType.INCOME ? '+' : '-'} {item.transaction.amount.toLocaleString('pt-BR', { minimumFractionDigits: 0 })}
+                            </span>
+                            <button
+                              onClick={() => setSettling({ transaction: item.transaction, paidAt: toDateKey(new Date()) })}
+                              className="text-[10px] font-bold text-cyan-700 bg-cyan-50 px-2 py-1 rounded-lg hover:bg-cyan-100 whitespace-nowrap"
+                            >
+                              {item.transaction.type === TransactionType.INCOME ? 'Receber' : 'Pagar'}
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                  </div>
+                </motion.div>
+              )}
+
               {/* Insights Button */}
               <motion.div 
                 variants={itemVariants}
@@ -900,6 +4262,109 @@ const App: React.FC = () => {
                  </div>
               </motion.div>
 
+              {/* Period Comparison */}
+              {periodComparisonData.length > 0 && comparisonPeriods[0].txns.length > 0 && (
+                <motion.div variants={itemVariants} className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100">
+                  <h3 className="font-bold text-slate-800 mb-1 flex items-center gap-2">
+                    <CalendarDays className="w-5 h-5 text-cyan-600" /> Comparativo de Períodos
+                  </h3>
+                  <div className="flex gap-4 mb-4 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                    <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-cyan-600 rounded" /> {getPeriodLabel()}</span>
+                    <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-slate-300 rounded" /> {comparisonPeriods[0].periodLabel}</span>
+                  </div>
+                  <div className="h-48 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <AreaChart data={periodComparisonData}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                        <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 10, fill: '#64748b'}} />
+                        <Tooltip 
+                          contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                          formatter={(value: number) => `R$ ${value.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}`}
+                        />
+                        <Area type="monotone" dataKey="previous" name={comparisonPeriods[0].periodLabel} stroke="#CBD5E1" strokeWidth={2} strokeDasharray="4 4" fill="none" animationDuration={1500} />
+                        <Area type="monotone" dataKey="current" name={getPeriodLabel()} stroke="#0891B2" strokeWidth={3} fill="none" animationDuration={1500} />
+                      </AreaChart>
+                    </ResponsiveContainer>
+                  </div>
+                </motion.div>
+              )}
+
+              {/* Seasonality & Forecast */}
+              {seasonality.historyMonths > 0 && (
+                <motion.div variants={itemVariants} className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 space-y-4">
+                  <div>
+                    <h3 className="font-bold text-slate-800 mb-1 flex items-center gap-2">
+                      <Sun className="w-5 h-5 text-cyan-600" /> Sazonalidade
+                    </h3>
+                    <p className="text-xs text-slate-400">Média por mês em {seasonality.historyMonths} {seasonality.historyMonths === 1 ? 'mês' : 'meses'} de histórico</p>
+                  </div>
+                  <div className="h-40 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={seasonality.months}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                        <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 10, fill: '#64748b'}} />
+                        <Tooltip 
+                          contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                          cursor={{fill: '#f8fafc'}}
+                          formatter={(value: number) => `R$ ${value.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}`}
+                        />
+                        <Bar dataKey="avgIncome" name="Receita média" fill="#0891B2" radius={[4, 4, 0, 0]} animationDuration={1500} />
+                        <Bar dataKey="avgExpenses" name="Despesa média" fill="#F43F5E" radius={[4, 4, 0, 0]} animationDuration={1500} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                  {seasonality.best && (
+                    <div className="grid grid-cols-2 gap-2">
+                      {[{ label: 'Melhor mês', month: seasonality.best, color: 'text-emerald-600 bg-emerald-50' }, { label: 'Pior mês', month: seasonality.worst, color: 'text-rose-600 bg-rose-50' }]
+                        .filter(item => item.month)
+                        .map(item => (
+                          <div key={item.label} className={`p-3 rounded-2xl ${item.color}`}>
+                            <p className="text-[10px] font-bold uppercase tracking-wider opacity-70">{item.label}</p>
+                            <p className="font-bold text-sm capitalize">{item.month!.name}</p>
+                            <p className="text-[10px] font-semibold">R$ {item.month!.avgIncome.toLocaleString('pt-BR', { maximumFractionDigits: 0 })} de receita média</p>
+                          </div>
+                        ))}
+                    </div>
+                  )}
+
+                  <div className="pt-4 border-t border-slate-100">
+                    <div className="flex justify-between items-baseline mb-1">
+                      <h4 className="font-bold text-slate-700 text-sm">Previsão 12 meses</h4>
+                      {forecast.length > 0 && (
+                        <span className={`text-xs font-bold ${forecastBalance >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                          Saldo R$ {forecastBalance.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}
+                        </span>
+                      )}
+                    </div>
+                    {forecast.length > 0 ? (
+                      <>
+                        <p className="text-[10px] text-slate-400 mb-3">Média mensal com tendência; a faixa cobre cerca de 80% dos cenários</p>
+                        <div className="h-44 w-full">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <AreaChart data={forecast.map(m => ({ ...m, band: [m.balanceLow, m.balanceHigh] }))}>
+                              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                              <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 10, fill: '#64748b'}} />
+                              <Tooltip 
+                                contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                                formatter={(value: number | number[]) => Array.isArray(value)
+                                  ? value.map(v => `R$ ${v.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}`).join(' a ')
+                                  : `R$ ${value.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}`}
+                              />
+                              <Area type="monotone" dataKey="band" name="Faixa" stroke="none" fill="#0891B2" fillOpacity={0.12} animationDuration={1500} />
+                              <Area type="monotone" dataKey="income" name="Receita" stroke="#10B981" strokeWidth={2} fill="none" animationDuration={1500} />
+                              <Area type="monotone" dataKey="expenses" name="Despesas" stroke="#F43F5E" strokeWidth={2} fill="none" animationDuration={1500} />
+                              <Area type="monotone" dataKey="balance" name="Saldo" stroke="#0891B2" strokeWidth={3} fill="none" animationDuration={1500} />
+                            </AreaChart>
+                          </ResponsiveContainer>
+                        </div>
+                      </>
+                    ) : (
+                      <p className="text-xs text-slate-400 italic">São necessários ao menos {MIN_FORECAST_MONTHS} meses completos de histórico.</p>
+                    )}
+                  </div>
+                </motion.div>
+              )}
+
               {/* Row with Bar Chart and Categories */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {/* Monthly Bar Chart */}
@@ -959,7 +4424,7 @@ const App: React.FC = () => {
                     data: chartData.map((item, index) => ({
                       label: item.name,
                       value: `R$ ${item.value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`,
-                      color: COLORS[index % COLORS.length],
+                      color: item.color,
                       percent: summary.expenses > 0 ? `${((item.value / summary.expenses) * 100).toFixed(1)}%` : '0%'
                     }))
                   })}
@@ -985,7 +4450,7 @@ const App: React.FC = () => {
                               animationDuration={1500}
                             >
                               {chartData.map((entry, index) => (
-                                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                                <Cell key={`cell-${index}`} fill={entry.color} />
                               ))}
                             </Pie>
                             <Tooltip 
@@ -1008,7 +4473,7 @@ const App: React.FC = () => {
               </div>
 
               {/* Top Expenses List */}
-              {topExpenses.length > 0 && (
+              {(topExpenses.length > 0 || budgetVariances.size > 0) && (
                 <motion.div 
                   variants={itemVariants}
                   whileHover={{ scale: 1.01 }}
@@ -1016,27 +4481,57 @@ const App: React.FC = () => {
                   onClick={() => setExplanation({
                     title: "Ranking Completo de Gastos",
                     type: 'list',
-                    text: "Detalhamento de todos os seus centros de custo:",
-                    data: chartData.map((item, idx) => ({
+                    text: budgetVariances.size > 0
+                      ? `Detalhamento de todos os seus centros de custo, com o orçamento do período:`
+                      : "Detalhamento de todos os seus centros de custo:",
+                    data: [
+                      ...chartData,
+                      ...[...budgetVariances.values()].filter(v => v.actual === 0).map(v => ({ name: v.name, value: 0 }))
+                    ].map((item, idx) => {
+                      const budget = budgetVariances.get(item.name);
+                      return {
                         label: `${idx + 1}º ${item.name}`,
                         value: `R$ ${item.value.toLocaleString('pt-BR')}`,
-                        color: '#F43F5E',
-                        percent: summary.expenses > 0 ? `${((item.value / summary.expenses) * 100).toFixed(1)}%` : '0%'
-                    }))
+                        color: budget?.overBudget ? '#E11D48' : '#F43F5E',
+                        percent: summary.expenses > 0 ? `${((item.value / summary.expenses) * 100).toFixed(1)}%` : '0%',
+                        budget: budget && {
+                          usage: budget.usage,
+                          over: budget.overBudget,
+                          text: budget.overBudget
+                            ? `R$ ${budget.variance.toLocaleString('pt-BR', { maximumFractionDigits: 0 })} acima do orçamento de R$ ${budget.budget.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}`
+                            : `R$ ${(-budget.variance).toLocaleString('pt-BR', { maximumFractionDigits: 0 })} disponíveis de R$ ${budget.budget.toLocaleString('pt-BR', { maximumFractionDigits: 0 })}`
+                        }
+                      };
+                    })
                   })}
                   className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 cursor-help relative"
                 >
-                   <div className="absolute top-6 right-6 opacity-20">
-                      <HelpCircle className="w-5 h-5 text-slate-400" />
-                   </div>
+                   <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setBudgetDraft(Object.fromEntries(getBudgetCategories(categories).map(c => [c.id, budgets[c.id] ? String(budgets[c.id]) : ''])));
+                      }}
+                      className="absolute top-5 right-5 flex items-center gap-1 text-[10px] font-bold text-slate-500 bg-slate-100 px-2 py-1 rounded-lg hover:bg-slate-200"
+                   >
+                      <Target className="w-3 h-3" /> Orçamentos
+                   </button>
                    <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">
                       <Wallet className="w-5 h-5 text-rose-500" /> Maiores Custos
                    </h3>
+                   {[...budgetVariances.values()].some(v => v.overBudget) && (
+                      <p className="text-[11px] font-medium text-rose-600 bg-rose-50 rounded-xl px-3 py-2 mb-4 flex items-center gap-1.5">
+                        <AlertCircle className="w-3.5 h-3.5" />
+                        Acima do orçamento: {[...budgetVariances.values()].filter(v => v.overBudget).map(v => v.name).join(', ')}
+                      </p>
+                   )}
                    <div className="space-y-4">
                       {topExpenses.map((item, idx) => (
                         <div key={idx} className="relative">
                           <div className="flex justify-between text-sm mb-1 relative z-10">
-                            <span className="font-medium text-slate-700">{item.name}</span>
+                            <span className="font-medium text-slate-700 flex items-center gap-1">
+                              {item.name}
+                              {item.budget?.overBudget && <AlertCircle className="w-3.5 h-3.5 text-rose-500" />}
+                            </span>
                             <span className="font-bold text-slate-900">R$ {item.value.toLocaleString('pt-BR')}</span>
                           </div>
                           <div className="w-full bg-slate-100 h-3 rounded-full overflow-hidden">
@@ -1048,8 +4543,26 @@ const App: React.FC = () => {
                             />
                           </div>
                           <p className="text-[10px] text-slate-400 mt-1 text-right">{item.percent.toFixed(1)}% dos gastos</p>
+                          {item.budget && (
+                            <div className="mt-1">
+                              <div className="w-full bg-slate-100 h-1.5 rounded-full overflow-hidden">
+                                <motion.div 
+                                  initial={{ width: 0 }}
+                                  animate={{ width: `${Math.min(100, item.budget.usage)}%` }}
+                                  transition={{ duration: 1, delay: idx * 0.1 }}
+                                  className={`h-full rounded-full ${item.budget.overBudget ? 'bg-rose-600' : item.budget.usage >= 80 ? 'bg-amber-400' : 'bg-emerald-400'}`} 
+                                />
+                              </div>
+                              <p className={`text-[10px] mt-1 text-right font-medium ${item.budget.overBudget ? 'text-rose-600' : 'text-slate-400'}`}>
+                                {item.budget.usage.toFixed(0)}% do orçamento (R$ {item.budget.budget.toLocaleString('pt-BR', { maximumFractionDigits: 0 })})
+                              </p>
+                            </div>
+                          )}
                         </div>
                       ))}
+                      {topExpenses.length === 0 && (
+                        <p className="text-sm text-slate-400">Nenhuma despesa no período.</p>
+                      )}
                    </div>
                 </motion.div>
               )}
@@ -1067,15 +4580,68 @@ const App: React.FC = () => {
             >
               <div className="flex justify-between items-center mb-2 px-2">
                 <h3 className="font-bold text-xl text-slate-800">Transações</h3>
-                <span className="bg-slate-100 text-slate-500 px-3 py-1 rounded-full text-xs font-bold">
-                  {historyFilteredTransactions.length} registros
-                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={undo}
+                    disabled={undoStack.length === 0}
+                    title={undoStack.length > 0 ? `Desfazer: ${undoStack[undoStack.length - 1].label}` : 'Desfazer'}
+                    className="bg-slate-100 text-slate-500 p-1.5 rounded-full hover:bg-slate-200 disabled:opacity-40"
+                  >
+                    <Undo2 className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={redo}
+                    disabled={redoStack.length === 0}
+                    title={redoStack.length > 0 ? `Refazer: ${redoStack[redoStack.length - 1].label}` : 'Refazer'}
+                    className="bg-slate-100 text-slate-500 p-1.5 rounded-full hover:bg-slate-200 disabled:opacity-40"
+                  >
+                    <Redo2 className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => setShowGuests(true)}
+                    title="Hóspedes"
+                    className="bg-slate-100 text-slate-500 p-1.5 rounded-full hover:bg-slate-200"
+                  >
+                    <Users className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => setShowRecurring(true)}
+                    title="Recorrências"
+                    className="bg-slate-100 text-slate-500 p-1.5 rounded-full hover:bg-slate-200"
+                  >
+                    <Repeat className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => setShowAuditLog(true)}
+                    title="Histórico de alterações"
+                    className="bg-slate-100 text-slate-500 p-1.5 rounded-full hover:bg-slate-200"
+                  >
+                    <ScrollText className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => exportSpreadsheet(historyFilteredTransactions, historyTimeRange, historySelectedDate, historyCustomDays, 'csv')}
+                    disabled={historyFilteredTransactions.length === 0}
+                    className="bg-slate-100 text-slate-500 px-2 py-1 rounded-full text-[10px] font-bold hover:bg-slate-200 disabled:opacity-40"
+                  >
+                    CSV
+                  </button>
+                  <button
+                    onClick={() => exportSpreadsheet(historyFilteredTransactions, historyTimeRange, historySelectedDate, historyCustomDays, 'xlsx')}
+                    disabled={historyFilteredTransactions.length === 0}
+                    className="bg-slate-100 text-slate-500 px-2 py-1 rounded-full text-[10px] font-bold hover:bg-slate-200 disabled:opacity-40"
+                  >
+                    XLSX
+                  </button>
+                  <span className="bg-slate-100 text-slate-500 px-3 py-1 rounded-full text-xs font-bold">
+                    {historyFilteredTransactions.length} registros
+                  </span>
+                </div>
               </div>
 
               {/* History Filter Bar */}
               <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-3 space-y-3">
                 <div className="flex p-1 bg-slate-100 rounded-xl">
-                  {(['daily', 'monthly', 'semiannual', 'annual', 'all'] as const).map((range) => (
+                  {(['daily', 'monthly', 'quarterly', 'semiannual', 'annual', 'all'] as const).map((range) => (
                     <button
                       key={range}
                       onClick={() => setHistoryTimeRange(range)}
@@ -1093,25 +4659,60 @@ const App: React.FC = () => {
                       <span className="relative z-10">{
                         range === 'daily' ? 'Dia' :
                         range === 'monthly' ? 'Mês' :
+                        range === 'quarterly' ? 'Tri' :
                         range === 'semiannual' ? 'Sem' :
                         range === 'annual' ? 'Ano' : 'Tudo'
                       }</span>
                     </button>
                   ))}
                 </div>
+                <div className="flex flex-wrap gap-2">
+                  {WINDOW_RANGES.map(({ range, label }) => (
+                    <button
+                      key={range}
+                      onClick={() => setHistoryTimeRange(range)}
+                      className={`shrink-0 px-2.5 py-1 rounded-lg text-[10px] font-bold transition-colors ${
+                        historyTimeRange === range ? 'bg-cyan-600 text-white' : 'bg-slate-100 text-slate-400 hover:text-slate-600'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {historyTimeRange === 'custom' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['start', 'end'] as const).map(edge => {
+                      const bounds = getPeriodBounds('custom', historySelectedDate, historyCustomDays)!;
+                      const startKey = toDateKey(bounds.start);
+                      const endKey = toDateKey(addDays(bounds.end, -1));
+                      return (
+                        <input
+                          key={edge}
+                          type="date"
+                          aria-label={edge === 'start' ? 'Início' : 'Fim'}
+                          value={edge === 'start' ? startKey : endKey}
+                          onChange={e => edge === 'start'
+                            ? applyCustomRange(e.target.value, endKey, setHistorySelectedDate, setHistoryCustomDays)
+                            : applyCustomRange(startKey, e.target.value, setHistorySelectedDate, setHistoryCustomDays)}
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-xl py-1.5 px-2 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-xs"
+                        />
+                      );
+                    })}
+                  </div>
+                )}
 
                 {historyTimeRange !== 'all' && (
                   <div className="flex items-center justify-between">
                     <motion.button
                       whileTap={{ scale: 0.85 }}
-                      onClick={() => setHistorySelectedDate(navigatePeriod('prev', historyTimeRange, historySelectedDate))}
+                      onClick={() => setHistorySelectedDate(navigatePeriod('prev', historyTimeRange, historySelectedDate, historyCustomDays))}
                       className="bg-slate-100 p-1.5 rounded-lg hover:bg-slate-200 transition-colors"
                     >
                       <ChevronLeft className="w-4 h-4 text-slate-500" />
                     </motion.button>
                     <div className="flex items-center gap-2">
                       <span className="text-slate-700 font-bold text-xs">
-                        {getPeriodLabelForDate(historyTimeRange, historySelectedDate)}
+                        {getPeriodLabelForDate(historyTimeRange, historySelectedDate, historyCustomDays)}
                       </span>
                       {historySelectedDate.toDateString() !== new Date().toDateString() && (
                         <motion.button
@@ -1125,13 +4726,20 @@ const App: React.FC = () => {
                     </div>
                     <motion.button
                       whileTap={{ scale: 0.85 }}
-                      onClick={() => setHistorySelectedDate(navigatePeriod('next', historyTimeRange, historySelectedDate))}
+                      onClick={() => setHistorySelectedDate(navigatePeriod('next', historyTimeRange, historySelectedDate, historyCustomDays))}
                       className="bg-slate-100 p-1.5 rounded-lg hover:bg-slate-200 transition-colors"
                     >
                       <ChevronRight className="w-4 h-4 text-slate-500" />
                     </motion.button>
                   </div>
                 )}
+
+                <button
+                  onClick={() => setHistoryOnlyUnreconciled(!historyOnlyUnreconciled)}
+                  className={`w-full flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-[10px] font-bold transition-colors ${historyOnlyUnreconciled ? 'bg-amber-50 text-amber-600' : 'bg-slate-50 text-slate-400 hover:text-slate-600'}`}
+                >
+                  <Filter className="w-3 h-3" /> {historyOnlyUnreconciled ? 'Mostrando apenas não conciliados' : 'Filtrar não conciliados'}
+                </button>
               </div>
 
               <AnimatePresence>
@@ -1147,13 +4755,23 @@ const App: React.FC = () => {
                     >
                       <div className="flex items-center gap-3">
                         <div className={`p-3 rounded-2xl ${t.type === TransactionType.INCOME ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>
-                          {t.type === TransactionType.INCOME ? <TrendingUp className="w-5 h-5" /> : <TrendingDown className="w-5 h-5" />}
+                          {renderCategoryIcon(t)}
                         </div>
                         <div>
-                          <h4 className="font-bold text-slate-700 leading-tight text-sm">{t.description || t.category}</h4>
+                          <h4 className="font-bold text-slate-700 leading-tight text-sm">{t.description || categoryLabel(t.category)}</h4>
                           <div className="flex items-center gap-2 mt-1">
-                            <p className="text-[10px] bg-slate-100 px-2 py-0.5 rounded-md text-slate-500">{new Date(t.date).toLocaleDateString('pt-BR')}</p>
-                            <p className="text-[10px] text-slate-400 font-medium">{t.category}</p>
+                            <p className="text-[10px] bg-slate-100 px-2 py-0.5 rounded-md text-slate-500">{parseDateKey(t.date).toLocaleDateString('pt-BR')}</p>
+                            <p className="text-[10px] text-slate-400 font-medium">{categoryLabel(t.category)}</p>
+                            {t.reconciled && <CircleCheck className="w-3 h-3 text-emerald-500" />}
+                            {t.recurringId && <Repeat className="w-3 h-3 text-slate-400" />}
+                            {!t.isPaid && (
+                              <button
+                                onClick={() => setSettling({ transaction: t, paidAt: toDateKey(new Date()) })}
+                                className="text-[10px] font-bold bg-amber-50 text-amber-600 px-2 py-0.5 rounded-md hover:bg-amber-100"
+                              >
+                                {t.type === TransactionType.INCOME ? 'A receber' : 'A pagar'} • {parseDateKey(getDueDate(t)).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })}
+                              </button>
+                            )}
                           </div>
                           {t.guestName && <p className="text-xs font-medium text-cyan-600 mt-1 flex items-center gap-1"><ArrowRight className="w-3 h-3" /> {t.guestName}</p>}
                         </div>
@@ -1162,13 +4780,22 @@ const App: React.FC = () => {
                         <span className={`font-bold text-base ${t.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-rose-600'}`}>
                           {t.type === TransactionType.INCOME ? '+' : '-'} {t.amount.toLocaleString('pt-BR', { minimumFractionDigits: 0 })}
                         </span>
-                        <motion.button
-                          whileTap={{ scale: 0.8 }}
-                          onClick={() => deleteTransaction(t.id)}
-                          className="text-slate-300 hover:text-rose-500 transition-colors p-1 hover:bg-rose-50 rounded-lg"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </motion.button>
+                        <div className="flex items-center gap-1">
+                          <motion.button
+                            whileTap={{ scale: 0.8 }}
+                            onClick={() => startEditTransaction(t)}
+                            className="text-slate-300 hover:text-cyan-600 transition-colors p-1 hover:bg-cyan-50 rounded-lg"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </motion.button>
+                          <motion.button
+                            whileTap={{ scale: 0.8 }}
+                            onClick={() => deleteTransaction(t.id)}
+                            className="text-slate-300 hover:text-rose-500 transition-colors p-1 hover:bg-rose-50 rounded-lg"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </motion.button>
+                        </div>
                       </div>
                     </motion.div>
                   ))
@@ -1192,6 +4819,92 @@ const App: React.FC = () => {
             </motion.div>
           )}
 
+          {/* Calendar Tab */}
+          {activeTab === 'calendar' && (
+            <motion.div
+              key="calendar"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              className="space-y-4"
+            >
+              <div className="flex justify-between items-center mb-2 px-2">
+                <h3 className="font-bold text-xl text-slate-800">Agenda</h3>
+                <span className="bg-slate-100 text-slate-500 px-3 py-1 rounded-full text-xs font-bold">
+                  {calculateOccupancy(calendarBookings, 'monthly', selectedDate).occupancyRate.toFixed(0)}% ocupado
+                </span>
+              </div>
+
+              <div className="bg-white rounded-3xl shadow-sm border border-slate-100 p-4">
+                <div className="flex items-center justify-between mb-4">
+                  <motion.button
+                    whileTap={{ scale: 0.85 }}
+                    onClick={() => setSelectedDate(navigatePeriod('prev', 'monthly', selectedDate))}
+                    className="bg-slate-100 p-1.5 rounded-lg hover:bg-slate-200 transition-colors"
+                  >
+                    <ChevronLeft className="w-4 h-4 text-slate-500" />
+                  </motion.button>
+                  <span className="text-slate-700 font-bold text-sm">{getPeriodLabelForDate('monthly', selectedDate)}</span>
+                  <motion.button
+                    whileTap={{ scale: 0.85 }}
+                    onClick={() => setSelectedDate(navigatePeriod('next', 'monthly', selectedDate))}
+                    className="bg-slate-100 p-1.5 rounded-lg hover:bg-slate-200 transition-colors"
+                  >
+                    <ChevronRight className="w-4 h-4 text-slate-500" />
+                  </motion.button>
+                </div>
+
+                <div className="grid grid-cols-7 gap-1 mb-1">
+                  {['D', 'S', 'T', 'Q', 'Q', 'S', 'S'].map((weekday, idx) => (
+                    <span key={idx} className="text-center text-[10px] font-bold text-slate-400">{weekday}</span>
+                  ))}
+                </div>
+                <div className="space-y-1">
+                  {calendarWeeks.map((week, weekIdx) => (
+                    <div key={weekIdx} className="grid grid-cols-7 gap-1">
+                      {week.map(day => {
+                        const heat = day.booking && calendarMaxRate > 0 ? 0.35 + 0.65 * (day.nightlyRate / calendarMaxRate) : 0;
+                        return (
+                          <motion.button
+                            key={day.dateKey}
+                            whileTap={{ scale: 0.9 }}
+                            onClick={() => setSelectedCalendarDay(day)}
+                            className={`aspect-square rounded-lg flex flex-col items-center justify-center relative overflow-hidden ${day.inMonth ? '' : 'opacity-30'} ${!day.booking && !day.blocked ? 'bg-slate-50 hover:bg-slate-100' : ''} ${day.blocked && !day.booking ? 'bg-slate-300' : ''}`}
+                          >
+                            {day.booking && (
+                              <div className="absolute inset-0" style={{ backgroundColor: CHANNEL_COLORS[day.booking.channel], opacity: heat }} />
+                            )}
+                            <span className={`relative z-10 text-[11px] font-bold ${day.booking ? 'text-white' : 'text-slate-600'}`}>{day.date.getDate()}</span>
+                            {day.booking && (
+                              <span className="relative z-10 text-[8px] font-medium text-white/90 leading-none">
+                                {day.isCheckIn ? (day.booking.guestName || '•').split(' ')[0].slice(0, 6) : day.nightlyRate.toLocaleString('pt-BR', { notation: 'compact' })}
+                              </span>
+                            )}
+                            {day.blocked && !day.booking && <Ban className="relative z-10 w-3 h-3 text-slate-500" />}
+                          </motion.button>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-3 mt-4 pt-3 border-t border-slate-100">
+                  {Object.values(BookingChannel).map(channel => (
+                    <span key={channel} className="flex items-center gap-1 text-[10px] text-slate-500 font-medium">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: CHANNEL_COLORS[channel] }}></span>
+                      {channel}
+                    </span>
+                  ))}
+                  <span className="flex items-center gap-1 text-[10px] text-slate-500 font-medium">
+                    <span className="w-2 h-2 rounded-full bg-slate-300"></span>
+                    Bloqueado
+                  </span>
+                </div>
+                <p className="text-[10px] text-slate-400 mt-2">Cores mais intensas indicam diárias mais altas.</p>
+              </div>
+            </motion.div>
+          )}
+
           {/* Add Transaction Tab */}
           {activeTab === 'add' && (
             <motion.div 
@@ -1204,14 +4917,31 @@ const App: React.FC = () => {
                {/* Decorative */}
                <div className="absolute top-0 right-0 w-32 h-32 bg-cyan-50 rounded-full blur-2xl -mr-10 -mt-10 pointer-events-none"></div>
 
-              <h3 className="text-2xl font-bold text-slate-800 mb-6 relative z-10">Novo Lançamento</h3>
+              <div className="flex justify-between items-start mb-6 relative z-10">
+                <div>
+                  <h3 className="text-2xl font-bold text-slate-800">{editing ? 'Editar Lançamento' : 'Novo Lançamento'}</h3>
+                  {editing && (() => {
+                    const updatedAt = transactions.find(t => t.id === editing.transactionId)?.updatedAt;
+                    return updatedAt && <p className="text-[10px] text-slate-400 mt-1">Última alteração em {new Date(updatedAt).toLocaleString('pt-BR')}</p>;
+                  })()}
+                </div>
+                {editing && (
+                  <button
+                    type="button"
+                    onClick={() => { resetForm(); setActiveTab(previousTabRef.current); }}
+                    className="p-2 bg-slate-50 rounded-full text-slate-400 hover:bg-slate-100 transition-colors"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                )}
+              </div>
               
               <form onSubmit={handleAddTransaction} className="space-y-6 relative z-10">
                 <div className="grid grid-cols-2 gap-4">
                   <motion.button
                     whileTap={{ scale: 0.95 }}
                     type="button"
-                    onClick={() => setFormType(TransactionType.INCOME)}
+                    onClick={() => { setFormType(TransactionType.INCOME); setFormCategory(categoryForType(formCategory, TransactionType.INCOME)); }}
                     className={`py-4 rounded-2xl font-bold transition-all duration-300 flex flex-col items-center gap-2 ${formType === TransactionType.INCOME ? 'bg-emerald-500 text-white shadow-xl shadow-emerald-200 ring-4 ring-emerald-50 scale-105' : 'bg-slate-50 text-slate-400 hover:bg-slate-100'}`}
                   >
                     <TrendingUp className="w-6 h-6" />
@@ -1220,7 +4950,7 @@ const App: React.FC = () => {
                   <motion.button
                     whileTap={{ scale: 0.95 }}
                     type="button"
-                    onClick={() => setFormType(TransactionType.EXPENSE)}
+                    onClick={() => { setFormType(TransactionType.EXPENSE); setFormCategory(categoryForType(formCategory, TransactionType.EXPENSE)); }}
                     className={`py-4 rounded-2xl font-bold transition-all duration-300 flex flex-col items-center gap-2 ${formType === TransactionType.EXPENSE ? 'bg-rose-500 text-white shadow-xl shadow-rose-200 ring-4 ring-rose-50 scale-105' : 'bg-slate-50 text-slate-400 hover:bg-slate-100'}`}
                   >
                     <TrendingDown className="w-6 h-6" />
@@ -1229,6 +4959,19 @@ const App: React.FC = () => {
                 </div>
 
                 <div className="space-y-5">
+                  {properties.length > 1 && (
+                    <div>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Imóvel</label>
+                      <select
+                        value={formPropertyId || activePropertyId}
+                        onChange={(e) => setFormPropertyId(e.target.value)}
+                        className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm appearance-none"
+                      >
+                        {properties.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                      </select>
+                    </div>
+                  )}
+
                   <div>
                     <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Valor da Transação</label>
                     <div className="relative group">
@@ -1246,7 +4989,7 @@ const App: React.FC = () => {
 
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Data</label>
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">{formType === TransactionType.INCOME && formCategory === Category.RENTAL ? 'Check-in' : 'Data'}</label>
                       <div className="relative">
                         <input 
                           type="date" 
@@ -1258,15 +5001,18 @@ const App: React.FC = () => {
                     </div>
 
                     <div>
-                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Categoria</label>
+                      <div className="flex justify-between items-center mb-2 ml-1">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Categoria</label>
+                        <button type="button" onClick={() => setShowCategories(true)} className="text-[10px] font-bold text-cyan-600 hover:text-cyan-700">
+                          Gerenciar
+                        </button>
+                      </div>
                       <select 
                         value={formCategory}
-                        onChange={(e) => setFormCategory(e.target.value as Category)}
+                        onChange={(e) => setFormCategory(e.target.value)}
                         className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none appearance-none text-sm"
                       >
-                        {Object.values(Category).map(cat => (
-                          <option key={cat} value={cat}>{cat}</option>
-                        ))}
+                        {renderCategoryOptions(formType)}
                       </select>
                     </div>
                   </div>
@@ -1281,11 +5027,127 @@ const App: React.FC = () => {
                         <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Hóspede Principal</label>
                         <input 
                           type="text" 
+                          list="guest-options"
                           value={formGuest}
                           onChange={(e) => setFormGuest(e.target.value)}
                           placeholder="Ex: Ana Souza"
                           className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-4 px-4 font-medium text-slate-800 focus:border-cyan-500 focus:bg-white outline-none"
                         />
+                        <datalist id="guest-options">
+                          {guestDirectory.map(entry => <option key={entry.key} value={entry.name} />)}
+                        </datalist>
+                        {formGuestSummary && formGuestSummary.stays > 0 && (
+                          <p className="text-[10px] text-cyan-600 font-semibold mt-2 ml-1">
+                            {formGuestSummary.guest ? 'Hóspede cadastrado' : 'Hóspede recorrente'} • {formGuestSummary.stays} estadia(s)
+                            {formGuestSummary.lastStay && `, a última em ${parseDateKey(formGuestSummary.lastStay).toLocaleDateString('pt-BR')}`}
+                          </p>
+                        )}
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+
+                  <AnimatePresence>
+                    {formType === TransactionType.INCOME && formCategory === Category.RENTAL && (
+                      <motion.div 
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: 'auto', opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        className="space-y-4"
+                      >
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Check-out</label>
+                            <input 
+                              type="date" 
+                              value={formCheckOut}
+                              min={formDate}
+                              onChange={(e) => setFormCheckOut(e.target.value)}
+                              className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Hóspedes</label>
+                            <input 
+                              type="number" 
+                              min="1"
+                              value={formGuests}
+                              onChange={(e) => setFormGuests(e.target.value)}
+                              className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                            />
+                          </div>
+                        </div>
+                        <div>
+                          <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Canal</label>
+                          <select 
+                            value={formChannel}
+                            onChange={(e) => setFormChannel(e.target.value as BookingChannel | '')}
+                            className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none appearance-none text-sm"
+                          >
+                            <option value="">Sem canal</option>
+                            {Object.values(BookingChannel).map(channel => (
+                              <option key={channel} value={channel}>{channel}</option>
+                            ))}
+                          </select>
+                        </div>
+                        {parseFloat(formAmount) > 0 && (
+                          <div className="grid grid-cols-3 gap-2 text-center bg-slate-50 rounded-2xl p-3">
+                            {(() => {
+                              const gross = parseFloat(formAmount);
+                              const fee = calculateChannelFee(gross, channelFeeRules[formChannel || BookingChannel.DIRECT]);
+                              return [
+                                { label: 'Bruto', value: gross, color: 'text-slate-700' },
+                                { label: 'Taxas', value: fee, color: 'text-rose-600' },
+                                { label: 'Líquido', value: gross - fee, color: 'text-emerald-600' }
+                              ].map(item => (
+                                <div key={item.label}>
+                                  <p className="text-[10px] font-bold text-slate-400 uppercase">{item.label}</p>
+                                  <p className={`text-sm font-extrabold ${item.color}`}>R$ {item.value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+                                </div>
+                              ));
+                            })()}
+                          </div>
+                        )}
+                        <p className="text-[10px] text-slate-400 ml-1">
+                          {isBookingForm
+                            ? 'Será criada uma reserva; o valor é dividido entre os meses da estadia.'
+                            : 'Informe o check-out para registrar como reserva.'}
+                        </p>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+
+                  <div>
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Situação</label>
+                    <div className="grid grid-cols-2 gap-2 p-1 bg-slate-50 rounded-2xl">
+                      {[true, false].map(paid => (
+                        <button
+                          key={String(paid)}
+                          type="button"
+                          onClick={() => setFormIsPaid(paid)}
+                          className={`py-2.5 rounded-xl text-xs font-bold transition-all ${formIsPaid === paid ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-400'}`}
+                        >
+                          {paid
+                            ? (formType === TransactionType.INCOME ? 'Recebido' : 'Pago')
+                            : (formType === TransactionType.INCOME ? 'A receber' : 'A pagar')}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <AnimatePresence>
+                    {!formIsPaid && (
+                      <motion.div 
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: 'auto', opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                      >
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 block ml-1">Vencimento</label>
+                        <input 
+                          type="date" 
+                          value={formDueDate || formDate}
+                          onChange={(e) => setFormDueDate(e.target.value)}
+                          className="w-full bg-slate-50 border-2 border-transparent rounded-2xl py-3 px-4 font-bold text-slate-600 focus:border-cyan-500 focus:bg-white outline-none text-sm"
+                        />
                       </motion.div>
                     )}
                   </AnimatePresence>
@@ -1306,8 +5168,8 @@ const App: React.FC = () => {
                   type="submit"
                   className="w-full bg-slate-800 text-white py-5 rounded-2xl font-bold text-lg shadow-xl hover:bg-slate-700 active:scale-95 transition-all flex items-center justify-center gap-2"
                 >
-                  <PlusCircle className="w-5 h-5" />
-                  Salvar Registro
+                  {editing ? <Pencil className="w-5 h-5" /> : <PlusCircle className="w-5 h-5" />}
+                  {editing ? 'Salvar Alterações' : 'Salvar Registro'}
                 </motion.button>
               </form>
             </motion.div>
@@ -1325,13 +5187,22 @@ const App: React.FC = () => {
           <span className="text-[10px] font-bold uppercase tracking-widest">Painel</span>
         </button>
 
+        <button 
+          onClick={() => setActiveTab('calendar')}
+          className={`flex-1 flex flex-col items-center py-3 rounded-[2rem] transition-all duration-300 ${activeTab === 'calendar' ? 'bg-cyan-500 text-white shadow-lg shadow-cyan-200' : 'text-slate-400 hover:text-slate-600'}`}
+        >
+          <Calendar className="w-6 h-6 mb-1" />
+          <span className="text-[10px] font-bold uppercase tracking-widest">Agenda</span>
+        </button>
+
         <motion.button 
           whileTap={{ scale: 0.9 }}
           onClick={() => {
             if (activeTab === 'add') {
+              resetForm();
               setActiveTab(previousTabRef.current);
             } else {
-              previousTabRef.current = activeTab as 'dashboard' | 'history';
+              previousTabRef.current = activeTab;
               setActiveTab('add');
             }
           }}
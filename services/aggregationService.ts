@@ -0,0 +1,108 @@
+import { CategoryDefinition, CategoryId, TimeRange, Transaction, TransactionType } from "../types";
+import { getCategoryColor, getCategoryLabel, getRootCategoryId } from "./categoryService";
+import { daysBetween, getPeriodBounds, getWindowDays, parseDateKey, usesDailyBuckets } from "./periodService";
+
+export interface CategoryTotal {
+  id: CategoryId;
+  name: string;
+  color: string;
+  value: number;
+}
+
+export interface PeriodTotals {
+  income: number;
+  expenses: number;
+  balance: number;
+  // Balance over income, in %
+  margin: number;
+}
+
+export interface PeriodBucket {
+  name: string;
+  income: number;
+  expense: number;
+}
+
+// Expense totals per top-level category (subcategories included), largest first.
+export const groupExpensesByCategory = (txns: Transaction[], definitions: CategoryDefinition[]): CategoryTotal[] => {
+  const categories: Record<string, number> = {};
+  txns.filter(t => t.type === TransactionType.EXPENSE).forEach(t => {
+    const rootId = getRootCategoryId(definitions, t.category);
+    categories[rootId] = (categories[rootId] || 0) + t.amount;
+  });
+  return Object.entries(categories)
+    .map(([id, value]) => ({ id, name: getCategoryLabel(definitions, id), color: getCategoryColor(definitions, id), value }))
+    .sort((a, b) => b.value - a.value);
+};
+
+// Income and expenses per day for monthly views and short windows, per month for longer ranges.
+// Periods that cross the turn of the year label their months with the year.
+export const groupByPeriodBucket = (txns: Transaction[], range: TimeRange, customDays = 1): PeriodBucket[] => {
+  const months: Record<string, { income: number; expense: number }> = {};
+  const daily = usesDailyBuckets(range, customDays);
+  const withYear = range === 'highSeason' || getWindowDays(range, customDays) !== null;
+  txns.forEach(t => {
+    const date = parseDateKey(t.date);
+    let key = '';
+    if (daily) {
+      key = date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+    } else {
+      key = date.toLocaleDateString('pt-BR', withYear ? { month: 'short', year: '2-digit' } : { month: 'short' });
+    }
+
+    if (!months[key]) months[key] = { income: 0, expense: 0 };
+    if (t.type === TransactionType.INCOME) months[key].income += t.amount;
+    else months[key].expense += t.amount;
+  });
+  if (Object.keys(months).length === 0) return [];
+  return Object.entries(months).map(([name, data]) => ({ name, ...data }));
+};
+
+export const summarizeTransactions = (txns: Transaction[]): PeriodTotals => {
+  const income = txns.filter(t => t.type === TransactionType.INCOME).reduce((acc, t) => acc + t.amount, 0);
+  const expenses = txns.filter(t => t.type === TransactionType.EXPENSE).reduce((acc, t) => acc + t.amount, 0);
+  const balance = income - expenses;
+  return { income, expenses, balance, margin: income > 0 ? (balance / income) * 100 : 0 };
+};
+
+// Cumulative balance of two periods of the same kind, aligned by day of the period (monthly and short windows)
+// or by month of the period (longer ranges) so they can be overlaid.
+export const buildCumulativeComparison = (
+  current: Transaction[],
+  previous: Transaction[],
+  range: TimeRange,
+  currentDate: Date,
+  previousDate: Date,
+  customDays = 1
+): { name: string; current: number; previous: number }[] => {
+  const currentBounds = getPeriodBounds(range, currentDate, customDays);
+  const previousBounds = getPeriodBounds(range, previousDate, customDays);
+  if (!currentBounds || !previousBounds) return [];
+  const byDay = range === 'daily' || usesDailyBuckets(range, customDays);
+  const slots = (bounds: { start: Date; end: Date }) => byDay
+    ? daysBetween(bounds.start, bounds.end)
+    : (bounds.end.getFullYear() - bounds.start.getFullYear()) * 12 + bounds.end.getMonth() - bounds.start.getMonth();
+  const slotOf = (t: Transaction, start: Date) => {
+    const date = parseDateKey(t.date);
+    return byDay ? daysBetween(start, date) : (date.getFullYear() - start.getFullYear()) * 12 + date.getMonth() - start.getMonth();
+  };
+  const length = Math.max(slots(currentBounds), slots(previousBounds));
+  const accumulate = (txns: Transaction[], start: Date) => {
+    const deltas = Array(length).fill(0);
+    txns.forEach(t => {
+      const slot = slotOf(t, start);
+      if (slot >= 0 && slot < length) deltas[slot] += t.type === TransactionType.INCOME ? t.amount : -t.amount;
+    });
+    let running = 0;
+    return deltas.map(delta => (running += delta));
+  };
+  const currentSeries = accumulate(current, currentBounds.start);
+  const previousSeries = accumulate(previous, previousBounds.start);
+  return currentSeries.map((value, idx) => ({
+    name: byDay
+      ? String(idx + 1)
+      : new Date(currentBounds.start.getFullYear(), currentBounds.start.getMonth() + idx, 1).toLocaleDateString('pt-BR', { month: 'short' }),
+    current: value,
+    previous: previousSeries[idx]
+  }));
+};
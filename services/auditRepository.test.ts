@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Category, Transaction, TransactionType } from '../types';
+import { createLocalStorageAuditRepository } from './auditRepository';
+import { createAuditEntry, AUDIT_STORAGE_KEY, DataSnapshot } from './auditService';
+
+const record = (id: string): Transaction => ({
+  id, date: '2026-01-10', type: TransactionType.EXPENSE, category: Category.CLEANING, amount: 100, description: '', isPaid: true
+});
+
+const empty: DataSnapshot = { transactions: [], bookings: [], blockedDates: [], recurringTemplates: [], categories: [], properties: [], guests: [] };
+
+const entryCreating = (id: string) => createAuditEntry('create', 'Teste', empty, { ...empty, transactions: [record(id)] })!;
+
+describe('createLocalStorageAuditRepository', () => {
+  let storage: Map<string, string>;
+  let quota: number;
+
+  beforeEach(() => {
+    storage = new Map();
+    quota = Infinity;
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        if (value.length > quota) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        storage.set(key, value);
+      },
+      removeItem: (key: string) => { storage.delete(key); }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps every entry in the order it was appended', async () => {
+    const repository = createLocalStorageAuditRepository();
+    const entries = Array.from({ length: 400 }, (_, idx) => entryCreating(`t${idx}`));
+    for (const entry of entries) await repository.append(entry);
+    expect((await repository.getAll()).map(e => e.id)).toEqual(entries.map(e => e.id));
+  });
+
+  it('fills the collections missing from entries logged by older versions', async () => {
+    const { id, timestamp, action, label, transactions } = entryCreating('a');
+    storage.set(AUDIT_STORAGE_KEY, JSON.stringify([{ id, timestamp, action, label, transactions }]));
+    const [entry] = await createLocalStorageAuditRepository().getAll();
+    expect(entry.transactions).toEqual(transactions);
+    expect(entry.guests).toEqual([]);
+    expect(entry.recurringTemplates).toEqual([]);
+  });
+
+  it('rejects an append that does not fit and leaves the stored log untouched', async () => {
+    const repository = createLocalStorageAuditRepository();
+    const first = entryCreating('a');
+    await repository.append(first);
+    quota = storage.get(AUDIT_STORAGE_KEY)!.length;
+    await expect(repository.append(entryCreating('b'))).rejects.toThrow();
+    expect((await repository.getAll()).map(e => e.id)).toEqual([first.id]);
+  });
+});
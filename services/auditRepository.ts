@@ -0,0 +1,64 @@
+import { AuditEntry, AUDIT_STORAGE_KEY, normalizeAuditEntry } from "./auditService";
+import { openDatabase, promisify, transactionDone, AUDIT_STORE } from "./transactionRepository";
+
+// Append-only: entries are never changed or dropped once written.
+export interface AuditRepository {
+  // Oldest first
+  getAll(): Promise<AuditEntry[]>;
+  append(entry: AuditEntry): Promise<void>;
+}
+
+export const createIndexedDbAuditRepository = async (): Promise<AuditRepository> => {
+  const db = await openDatabase();
+  return {
+    getAll: async () => {
+      const tx = db.transaction(AUDIT_STORE, 'readonly');
+      const entries: AuditEntry[] = await promisify(tx.objectStore(AUDIT_STORE).getAll());
+      return entries.map(normalizeAuditEntry);
+    },
+    append: async entry => {
+      const tx = db.transaction(AUDIT_STORE, 'readwrite');
+      tx.objectStore(AUDIT_STORE).add(entry);
+      await transactionDone(tx);
+    }
+  };
+};
+
+const readStoredLog = (): AuditEntry[] => {
+  try {
+    const saved = localStorage.getItem(AUDIT_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.map(normalizeAuditEntry) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Used when IndexedDB is unavailable. The log shares the localStorage quota with the rest of the data, so an
+// append can fail; it rejects and the caller tells the user instead of dropping older entries.
+export const createLocalStorageAuditRepository = (): AuditRepository => ({
+  getAll: async () => readStoredLog(),
+  append: async entry => {
+    localStorage.setItem(AUDIT_STORAGE_KEY, JSON.stringify([...readStoredLog(), entry]));
+  }
+});
+
+// The log used to live in localStorage; it moves to IndexedDB once, then the key is dropped.
+const migrateStoredLog = async (repository: AuditRepository) => {
+  const stored = readStoredLog();
+  if (stored.length === 0) return;
+  for (const entry of stored) await repository.append(entry);
+  localStorage.removeItem(AUDIT_STORAGE_KEY);
+};
+
+export const openAuditRepository = async (): Promise<AuditRepository> => {
+  try {
+    if (typeof indexedDB === 'undefined') throw new Error('IndexedDB indisponível');
+    const repository = await createIndexedDbAuditRepository();
+    await migrateStoredLog(repository);
+    return repository;
+  } catch (error) {
+    console.error("Falling back to localStorage for the audit log:", error);
+    return createLocalStorageAuditRepository();
+  }
+};
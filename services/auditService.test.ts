@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { Category, RecurringTemplate, Transaction, TransactionType } from '../types';
+import { applyAuditEntry, createAuditEntry, restoreDeletedTransaction, DataSnapshot } from './auditService';
+
+const record = (id: string, description = ''): Transaction => ({
+  id, date: '2026-01-10', type: TransactionType.EXPENSE, category: Category.CLEANING, amount: 100, description, isPaid: true
+});
+
+const empty: DataSnapshot = { transactions: [], bookings: [], blockedDates: [], recurringTemplates: [], categories: [], properties: [], guests: [] };
+
+describe('applyAuditEntry', () => {
+  it('undoes a template delete together with its pending occurrences', () => {
+    const template: RecurringTemplate = {
+      id: 'r1', type: TransactionType.EXPENSE, category: Category.UTILITIES, amount: 80, description: 'Internet',
+      frequency: 'monthly', intervalMonths: 1, startDate: '2026-01-05', dayOfMonth: 5, skipped: []
+    };
+    const occurrence = { ...record('o1'), isPaid: false, recurringId: 'r1', occurrenceKey: '2026-02' };
+    const before: DataSnapshot = { ...empty, transactions: [occurrence], recurringTemplates: [template] };
+    const after: DataSnapshot = { ...empty };
+    const entry = createAuditEntry('delete', 'Recorrência: Internet', before, after)!;
+    expect(applyAuditEntry(after, entry, 'undo')).toEqual(before);
+    expect(applyAuditEntry(before, entry, 'redo')).toEqual(after);
+  });
+});
+
+describe('createAuditEntry', () => {
+  it('logs only the records that changed', () => {
+    const before: DataSnapshot = { ...empty, transactions: [record('a'), record('b')] };
+    const entry = createAuditEntry('update', 'Teste', before, { ...empty, transactions: [record('a'), { ...record('b'), amount: 120 }] })!;
+    expect(entry.transactions).toEqual([{ key: 'b', before: record('b'), after: { ...record('b'), amount: 120 } }]);
+    expect(createAuditEntry('update', 'Teste', before, before)).toBeNull();
+  });
+});
+
+describe('restoreDeletedTransaction', () => {
+  it('brings a deleted income back with its fee', () => {
+    const income = { ...record('i1'), type: TransactionType.INCOME, category: Category.RENTAL };
+    const fee = { ...record('f1'), category: Category.PLATFORM_FEES, feeFor: 'i1' };
+    const before: DataSnapshot = { ...empty, transactions: [income, fee, record('x')] };
+    const after: DataSnapshot = { ...empty, transactions: [record('x')] };
+    const entry = createAuditEntry('delete', 'Teste', before, after)!;
+    expect(restoreDeletedTransaction(after, entry, 'i1').transactions.map(t => t.id).sort()).toEqual(['f1', 'i1', 'x']);
+  });
+});
@@ -0,0 +1,138 @@
+import { BlockedDate, Booking, CategoryDefinition, Guest, Property, RecurringTemplate, Transaction } from "../types";
+import { getPropertyId } from "./propertyService";
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'import' | 'restore' | 'undo' | 'redo';
+
+// Record collections covered by the log and by undo. Settings (budgets, fee rules, IRPF tables, profit targets)
+// are not: they are edited in their own forms and never changed together with records.
+export interface DataSnapshot {
+  transactions: Transaction[];
+  bookings: Booking[];
+  blockedDates: BlockedDate[];
+  recurringTemplates: RecurringTemplate[];
+  categories: CategoryDefinition[];
+  properties: Property[];
+  guests: Guest[];
+}
+
+// `before` is absent for created records and `after` for removed ones.
+export interface RecordChange<T> {
+  key: string;
+  before?: T;
+  after?: T;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  action: AuditAction;
+  label: string;
+  transactions: RecordChange<Transaction>[];
+  bookings: RecordChange<Booking>[];
+  blockedDates: RecordChange<BlockedDate>[];
+  recurringTemplates: RecordChange<RecurringTemplate>[];
+  categories: RecordChange<CategoryDefinition>[];
+  properties: RecordChange<Property>[];
+  guests: RecordChange<Guest>[];
+}
+
+export const AUDIT_STORAGE_KEY = 'porto_audit_log';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Criação',
+  update: 'Alteração',
+  delete: 'Exclusão',
+  import: 'Importação',
+  restore: 'Restauração',
+  undo: 'Desfeito',
+  redo: 'Refeito'
+};
+
+const idKey = <T extends { id: string }>(record: T) => record.id;
+const blockedKey = (b: BlockedDate) => `${getPropertyId(b)}|${b.date}`;
+
+const SNAPSHOT_COLLECTIONS = ['transactions', 'bookings', 'blockedDates', 'recurringTemplates', 'categories', 'properties', 'guests'] as const;
+
+const sameRecord = <T>(a: T, b: T) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const diffRecords = <T>(before: T[], after: T[], key: (item: T) => string): RecordChange<T>[] => {
+  const previous = new Map(before.map(item => [key(item), item]));
+  const changes: RecordChange<T>[] = [];
+  after.forEach(item => {
+    const old = previous.get(key(item));
+    previous.delete(key(item));
+    if (!old) changes.push({ key: key(item), after: item });
+    else if (!sameRecord(old, item)) changes.push({ key: key(item), before: old, after: item });
+  });
+  previous.forEach((old, k) => changes.push({ key: k, before: old }));
+  return changes;
+};
+
+// Returns null when the two snapshots hold the same data, so no-op actions are not logged.
+export const createAuditEntry = (action: AuditAction, label: string, before: DataSnapshot, after: DataSnapshot): AuditEntry | null => {
+  const entry: AuditEntry = {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    action,
+    label,
+    transactions: diffRecords(before.transactions, after.transactions, idKey),
+    bookings: diffRecords(before.bookings, after.bookings, idKey),
+    blockedDates: diffRecords(before.blockedDates, after.blockedDates, blockedKey),
+    recurringTemplates: diffRecords(before.recurringTemplates, after.recurringTemplates, idKey),
+    categories: diffRecords(before.categories, after.categories, idKey),
+    properties: diffRecords(before.properties, after.properties, idKey),
+    guests: diffRecords(before.guests, after.guests, idKey)
+  };
+  return SNAPSHOT_COLLECTIONS.some(key => entry[key].length > 0) ? entry : null;
+};
+
+const applyRecordChanges = <T>(items: T[], changes: RecordChange<T>[], key: (item: T) => string, direction: 'undo' | 'redo'): T[] => {
+  const targets = new Map(changes.map(c => [c.key, direction === 'undo' ? c.before : c.after]));
+  const kept = items
+    .filter(item => !targets.has(key(item)) || targets.get(key(item)))
+    .map(item => targets.get(key(item)) ?? item);
+  const present = new Set(kept.map(key));
+  const added = [...targets.values()].filter((item): item is T => !!item && !present.has(key(item)));
+  return [...added, ...kept];
+};
+
+// Reverts (undo) or re-applies (redo) an entry on top of the current data.
+export const applyAuditEntry = (data: DataSnapshot, entry: AuditEntry, direction: 'undo' | 'redo'): DataSnapshot => ({
+  transactions: applyRecordChanges(data.transactions, entry.transactions, idKey, direction),
+  bookings: applyRecordChanges(data.bookings, entry.bookings, idKey, direction),
+  blockedDates: applyRecordChanges(data.blockedDates, entry.blockedDates, blockedKey, direction),
+  recurringTemplates: applyRecordChanges(data.recurringTemplates, entry.recurringTemplates, idKey, direction),
+  categories: applyRecordChanges(data.categories, entry.categories, idKey, direction),
+  properties: applyRecordChanges(data.properties, entry.properties, idKey, direction),
+  guests: applyRecordChanges(data.guests, entry.guests, idKey, direction)
+});
+
+// Entries logged before a collection was covered have no changes for it.
+export const normalizeAuditEntry = (entry: Partial<AuditEntry> & Pick<AuditEntry, 'id' | 'timestamp' | 'action' | 'label'>): AuditEntry => ({
+  ...entry,
+  transactions: entry.transactions ?? [],
+  bookings: entry.bookings ?? [],
+  blockedDates: entry.blockedDates ?? [],
+  recurringTemplates: entry.recurringTemplates ?? [],
+  categories: entry.categories ?? [],
+  properties: entry.properties ?? [],
+  guests: entry.guests ?? []
+});
+
+// Brings back a deleted transaction. Stay income returns with its booking and sibling month segments,
+// and income with a platform fee returns with the fee.
+export const restoreDeletedTransaction = (data: DataSnapshot, entry: AuditEntry, transactionId: string): DataSnapshot => {
+  const target = entry.transactions.find(c => c.key === transactionId)?.before;
+  if (!target) return data;
+  const currentIds = new Set(data.transactions.map(t => t.id));
+  const restored = entry.transactions
+    .filter(c => c.before && !c.after && !currentIds.has(c.key))
+    .map(c => c.before!)
+    .filter(t => t.id === target.id || t.feeFor === target.id || (!!target.bookingId && t.bookingId === target.bookingId));
+  const booking = target.bookingId ? entry.bookings.find(c => c.key === target.bookingId && !c.after)?.before : undefined;
+  return {
+    ...data,
+    transactions: [...restored, ...data.transactions],
+    bookings: booking && !data.bookings.some(b => b.id === booking.id) ? [booking, ...data.bookings] : data.bookings
+  };
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { BookingChannel, Category, Transaction, TransactionType } from '../types';
+import { DEFAULT_CHANNEL_FEE_RULES } from './channelService';
+import { createBackup, parseBackup, restoreSettings, BackupData, BackupError, BackupSettings, BACKUP_FORMAT, BACKUP_SCHEMA_VERSION } from './backupService';
+
+const transaction: Transaction = {
+  id: 't1', date: '2026-01-10', type: TransactionType.INCOME, category: Category.RENTAL, amount: 500, description: 'Estadia', isPaid: true
+};
+
+const emptyData: BackupData = { transactions: [], bookings: [], blockedDates: [], recurringTemplates: [], categories: [], properties: [], guests: [], settings: null };
+
+const settings: BackupSettings = {
+  budgets: { [Category.CLEANING]: 300 },
+  channelFeeRules: { ...DEFAULT_CHANNEL_FEE_RULES, [BookingChannel.AIRBNB]: { commissionPercent: 15.5, fixedFee: 0 } },
+  irpfTables: [{ effectiveFrom: '2026-01', brackets: [{ upTo: 2000, rate: 0, deduction: 0 }, { upTo: null, rate: 27.5, deduction: 500 }] }],
+  profitTargets: { default: 4000 }
+};
+
+const envelope = (data: unknown, schemaVersion: unknown = BACKUP_SCHEMA_VERSION) => JSON.stringify({ format: BACKUP_FORMAT, schemaVersion, data });
+
+describe('parseBackup', () => {
+  it('reads a current backup and checks its checksum', async () => {
+    const backup = await createBackup({ ...emptyData, transactions: [transaction] });
+    const parsed = await parseBackup(JSON.stringify(backup));
+    expect(parsed.checksumValid).toBe(true);
+    expect(parsed.data.transactions).toEqual([transaction]);
+    expect(parsed.errors).toEqual([]);
+  });
+
+  it('migrates the bare transactions array of the first exporter', async () => {
+    const parsed = await parseBackup(JSON.stringify([{ ...transaction, category: 'Aluguel', amount: '500,50', isPaid: undefined }]));
+    expect(parsed.schemaVersion).toBe(1);
+    expect(parsed.checksumValid).toBeNull();
+    expect(parsed.data.transactions).toEqual([{ ...transaction, amount: 500.5 }]);
+  });
+
+  it('reports invalid records without rejecting the file', async () => {
+    const parsed = await parseBackup(envelope({ ...emptyData, transactions: [transaction, { ...transaction, id: 't2', channel: 'Fax' }, 'texto'] }));
+    expect(parsed.data.transactions).toEqual([transaction]);
+    expect(parsed.errors.map(e => e.index)).toEqual([1, 2]);
+  });
+
+  it('builds records from the checked fields only', async () => {
+    const full: Transaction = {
+      ...transaction, channel: BookingChannel.AIRBNB, reconciled: true, bankRef: 'l1', recurringId: 'r1', occurrenceKey: '2026-01',
+      importedFee: false, feeFor: 'i1', updatedAt: '2026-01-10T12:00:00.000Z'
+    };
+    const parsed = await parseBackup(envelope({
+      ...emptyData,
+      transactions: [{ ...full, extra: 'x', guestName: '' }, { ...transaction, id: 't2', reconciled: 'sim' }, { ...transaction, id: 't3', occurrenceKey: 'janeiro' }]
+    }));
+    expect(parsed.data.transactions).toStrictEqual([full]);
+    expect(parsed.errors.map(e => [e.id, e.messages])).toEqual([['t2', ['reconciled inválido (sim)']], ['t3', ['occurrenceKey inválido (janeiro)']]]);
+  });
+
+  it('reports invalid records in every collection', async () => {
+    const booking = { id: 'b1', checkIn: '2026-01-10', checkOut: '2026-01-12', guestName: 'Ana', channel: BookingChannel.DIRECT, grossAmount: 400, guests: 2 };
+    const parsed = await parseBackup(envelope({
+      ...emptyData,
+      bookings: [booking, { ...booking, id: 'b2', guests: 0 }],
+      blockedDates: [{ date: '2026-01-20' }, { date: 'amanhã' }],
+      recurringTemplates: [{ id: 'r1', type: TransactionType.EXPENSE, category: Category.UTILITIES, amount: 80, startDate: '2026-01-05', dayOfMonth: 40 }],
+      categories: [{ id: 'c1', name: 'Lazer', types: ['OUTRO'], color: '#000', icon: 'Tag' }],
+      properties: [{ id: 'p1', name: 'Casa', color: '#000', owner: { name: 'João' } }],
+      guests: [{ id: 'g1', name: 'Ana', rating: 9 }]
+    }));
+    expect(parsed.data.bookings).toStrictEqual([booking]);
+    expect(parsed.data.blockedDates).toStrictEqual([{ date: '2026-01-20' }]);
+    expect(parsed.errors.map(e => [e.collection, e.index])).toEqual([
+      ['bookings', 1], ['blockedDates', 1], ['recurringTemplates', 0], ['categories', 0], ['properties', 0], ['guests', 0]
+    ]);
+  });
+
+  it('fills the template fields added after the first version', async () => {
+    const parsed = await parseBackup(envelope({
+      ...emptyData,
+      recurringTemplates: [{ id: 'r1', type: TransactionType.EXPENSE, category: Category.UTILITIES, amount: 80, startDate: '2026-01-05', dayOfMonth: 5, skipped: [] }]
+    }));
+    expect(parsed.data.recurringTemplates[0]).toMatchObject({ description: '', frequency: 'monthly', intervalMonths: 1 });
+  });
+
+  it('rejects malformed backups with a clear error', async () => {
+    await expect(parseBackup('{')).rejects.toThrow('O arquivo não é um JSON válido.');
+    await expect(parseBackup('"texto"')).rejects.toThrow('Formato de backup não reconhecido.');
+    await expect(parseBackup(envelope(null))).rejects.toThrow('os dados estão ausentes');
+    await expect(parseBackup(envelope(emptyData, 2.5))).rejects.toThrow('Versão de esquema inválida');
+    await expect(parseBackup(envelope({ ...emptyData, bookings: 'nenhuma' }))).rejects.toThrow(BackupError);
+  });
+});
+
+describe('backup settings', () => {
+  it('round-trips budgets, fee rules, IRPF tables and profit targets', async () => {
+    const backup = await createBackup({ ...emptyData, settings });
+    expect((await parseBackup(JSON.stringify(backup))).data.settings).toEqual(settings);
+  });
+
+  it('has no settings in backups written before they were included', async () => {
+    expect((await parseBackup(envelope(emptyData, 6))).data.settings).toBeNull();
+  });
+
+  it('drops invalid entries and keeps the default rule of a channel missing from the file', async () => {
+    const parsed = await parseBackup(envelope({
+      ...emptyData,
+      settings: {
+        budgets: { [Category.CLEANING]: 300, [Category.UTILITIES]: 'muito' },
+        channelFeeRules: { [BookingChannel.AIRBNB]: { commissionPercent: 15.5, fixedFee: 0 }, [BookingChannel.BOOKING]: { commissionPercent: -1, fixedFee: 0 } },
+        irpfTables: [...settings.irpfTables, { effectiveFrom: '2026', brackets: [] }],
+        profitTargets: { default: 4000, extra: null }
+      }
+    }));
+    expect(parsed.data.settings).toEqual(settings);
+    await expect(parseBackup(envelope({ ...emptyData, settings: [] }))).rejects.toThrow(BackupError);
+  });
+
+  it('replaces the current settings or only adds the missing ones', () => {
+    const current: BackupSettings = { budgets: { [Category.CLEANING]: 100 }, channelFeeRules: DEFAULT_CHANNEL_FEE_RULES, irpfTables: [], profitTargets: {} };
+    expect(restoreSettings(current, settings, 'replace')).toEqual(settings);
+    const merged = restoreSettings(current, settings, 'merge');
+    expect(merged.budgets).toEqual({ [Category.CLEANING]: 100 });
+    expect(merged.channelFeeRules).toBe(DEFAULT_CHANNEL_FEE_RULES);
+    expect(merged.irpfTables).toEqual(settings.irpfTables);
+    expect(merged.profitTargets).toEqual({ default: 4000 });
+    expect(restoreSettings(current, null, 'replace')).toBe(current);
+  });
+});
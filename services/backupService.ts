@@ -0,0 +1,519 @@
+import { version as APP_VERSION } from "../package.json";
+import { BlockedDate, Booking, BookingChannel, CategoryBudgets, CategoryDefinition, ChannelFeeRule, ChannelFeeRules, Guest, IrpfBracket, IrpfTable, OwnerConfig, Property, RecurringTemplate, Transaction, TransactionType } from "../types";
+import { DEFAULT_CATEGORIES, migrateCategoryId } from "./categoryService";
+import { DEFAULT_CHANNEL_FEE_RULES } from "./channelService";
+
+export const BACKUP_FORMAT = 'porto-financas-backup';
+export const BACKUP_SCHEMA_VERSION = 7;
+
+// Settings are restored with the records but, unlike them, are not covered by the undo history.
+export interface BackupSettings {
+  budgets: CategoryBudgets;
+  channelFeeRules: ChannelFeeRules;
+  irpfTables: IrpfTable[];
+  profitTargets: Record<string, number>;
+}
+
+export interface BackupData {
+  transactions: Transaction[];
+  bookings: Booking[];
+  blockedDates: BlockedDate[];
+  recurringTemplates: RecurringTemplate[];
+  categories: CategoryDefinition[];
+  properties: Property[];
+  guests: Guest[];
+  // null for backups written before settings were included
+  settings: BackupSettings | null;
+}
+
+export interface BackupEnvelope {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  appVersion: string;
+  checksum: string;
+  data: BackupData;
+}
+
+export type RecordCollection = Exclude<keyof BackupData, 'settings'>;
+
+export const BACKUP_COLLECTION_LABELS: Record<RecordCollection, string> = {
+  transactions: 'Transação',
+  bookings: 'Reserva',
+  blockedDates: 'Bloqueio',
+  recurringTemplates: 'Recorrência',
+  categories: 'Categoria',
+  properties: 'Imóvel',
+  guests: 'Hóspede'
+};
+
+export interface RecordError {
+  collection: RecordCollection;
+  // Position in the file's list for that collection
+  index: number;
+  id?: string;
+  messages: string[];
+}
+
+export interface ParsedBackup {
+  schemaVersion: number;
+  exportedAt?: string;
+  appVersion?: string;
+  // null when the file carries no checksum (legacy backups)
+  checksumValid: boolean | null;
+  data: BackupData;
+  errors: RecordError[];
+}
+
+export interface MergeResult {
+  transactions: Transaction[];
+  added: number;
+  identical: number;
+  conflicts: { current: Transaction; incoming: Transaction }[];
+}
+
+export class BackupError extends Error {}
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_KEY = /^\d{4}-\d{2}$/;
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const createBackup = async (data: BackupData): Promise<BackupEnvelope> => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: BACKUP_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  appVersion: APP_VERSION,
+  checksum: await sha256(JSON.stringify(data)),
+  data
+});
+
+// Backup files come from outside the app: everything is read as unknown and narrowed before use.
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isDateKey = (value: unknown): value is string => typeof value === 'string' && DATE_KEY.test(value);
+
+const isOneOf = <T extends string>(values: Record<string, T>, value: unknown): value is T => (Object.values(values) as unknown[]).includes(value);
+
+// Optional fields may be missing (or null in hand-edited files) but must have the right type when present.
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || value === null || check(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isAmount = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value >= 0;
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const mapRecords = (value: unknown, update: (record: RawRecord) => RawRecord): unknown[] => {
+  return asArray(value).map(item => (isRecord(item) ? update(item) : item));
+};
+
+// Each migration upgrades the payload from version N to N + 1.
+const MIGRATIONS: Record<number, (payload: unknown) => RawRecord> = {
+  // v1: the bare transactions array written by the first exporter
+  1: payload => ({
+    transactions: mapRecords(payload, t => ({
+      ...t,
+      date: isString(t.date) ? t.date.slice(0, 10) : t.date,
+      amount: isString(t.amount) ? parseFloat(t.amount.replace(',', '.')) : t.amount,
+      isPaid: t.isPaid ?? true
+    })),
+    bookings: [],
+    blockedDates: []
+  }),
+  // v2: recurring templates did not exist yet
+  2: payload => ({ ...(isRecord(payload) ? payload : {}), recurringTemplates: [] }),
+  // v3: categories were stored as the enum label ('Aluguel') instead of an id
+  3: payload => {
+    const data = isRecord(payload) ? payload : {};
+    const migrate = (record: RawRecord) => ({ ...record, category: isString(record.category) ? migrateCategoryId(record.category) : record.category });
+    return {
+      ...data,
+      transactions: mapRecords(data.transactions, migrate),
+      recurringTemplates: mapRecords(data.recurringTemplates, migrate),
+      categories: DEFAULT_CATEGORIES
+    };
+  },
+  // v4: single property; records without propertyId keep belonging to the default one
+  4: payload => ({ ...(isRecord(payload) ? payload : {}), properties: [] }),
+  // v5: no guest directory; rentals only carried a free-text guestName
+  5: payload => ({ ...(isRecord(payload) ? payload : {}), guests: [] }),
+  // v6: budgets, channel fees, IRPF tables and profit targets were not exported
+  6: payload => ({ ...(isRecord(payload) ? payload : {}), settings: null })
+};
+
+type ValidationResult<T> = { value?: T; errors: string[] };
+
+type FieldChecks<T> = { [K in keyof T]?: (value: unknown) => boolean };
+
+// Copies the optional fields that are set and valid; an invalid one is reported. Keys not listed are dropped.
+const pickOptional = <T>(raw: RawRecord, checks: FieldChecks<T>, errors: string[]): Partial<T> => {
+  const picked: Partial<T> = {};
+  (Object.keys(checks) as (keyof T & string)[]).forEach(key => {
+    const value = raw[key];
+    if (value === undefined || value === null || value === '') return;
+    if (checks[key]!(value)) picked[key] = value as T[keyof T & string];
+    else errors.push(`${key} inválido (${String(value)})`);
+  });
+  return picked;
+};
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isTimestamp = (value: unknown) => isString(value) && !isNaN(Date.parse(value));
+
+const isMonthKey = (value: unknown) => isString(value) && MONTH_KEY.test(value);
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isInteger = (min: number, max = Infinity) => (value: unknown): value is number => Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isRequiredString = (value: unknown): value is string => isString(value) && !!value.trim();
+
+export const validateTransaction = (raw: unknown): ValidationResult<Transaction> => {
+  const errors: string[] = [];
+  if (!isRecord(raw)) return { errors: ['Registro não é um objeto'] };
+  if (!isRequiredString(raw.id)) errors.push('id ausente');
+  if (!isDateKey(raw.date) || isNaN(new Date(raw.date).getTime())) errors.push(`data inválida (${raw.date})`);
+  if (!isOneOf(TransactionType, raw.type)) errors.push(`tipo inválido (${raw.type})`);
+  if (!isRequiredString(raw.category)) errors.push(`categoria inválida (${raw.category})`);
+  if (typeof raw.amount !== 'number' || !isFinite(raw.amount) || raw.amount <= 0) errors.push(`valor inválido (${raw.amount})`);
+  if (!isOptional(raw.description, isString)) errors.push('descrição inválida');
+  if (!isBoolean(raw.isPaid)) errors.push('isPaid ausente');
+  const optional = pickOptional<Transaction>(raw, {
+    propertyId: isString, guestName: isString, guestId: isString, dueDate: isDateKey, paidAt: isDateKey, bookingId: isString,
+    channel: value => isOneOf(BookingChannel, value), feeFor: isString, importedFee: isBoolean, recurringId: isString,
+    occurrenceKey: isMonthKey, reconciled: isBoolean, bankRef: isString, updatedAt: isTimestamp
+  }, errors);
+  if (errors.length > 0) return { errors };
+
+  return {
+    value: {
+      ...optional,
+      id: raw.id as string,
+      date: raw.date as string,
+      type: raw.type as TransactionType,
+      category: raw.category as string,
+      amount: raw.amount as number,
+      description: isString(raw.description) ? raw.description : '',
+      isPaid: raw.isPaid as boolean
+    },
+    errors
+  };
+};
+
+const validateBooking = (raw: unknown): ValidationResult<Booking> => {
+  const errors: string[] = [];
+  if (!isRecord(raw)) return { errors: ['Registro não é um objeto'] };
+  if (!isRequiredString(raw.id)) errors.push('id ausente');
+  if (!isDateKey(raw.checkIn) || !isDateKey(raw.checkOut) || raw.checkOut <= raw.checkIn) errors.push(`período inválido (${raw.checkIn} a ${raw.checkOut})`);
+  if (!isString(raw.guestName)) errors.push('hóspede ausente');
+  if (!isOneOf(BookingChannel, raw.channel)) errors.push(`canal inválido (${raw.channel})`);
+  if (!isAmount(raw.grossAmount)) errors.push(`valor inválido (${raw.grossAmount})`);
+  if (!isInteger(1)(raw.guests)) errors.push(`número de hóspedes inválido (${raw.guests})`);
+  const optional = pickOptional<Booking>(raw, {
+    propertyId: isString, guestId: isString, description: isString, externalUid: isString, updatedAt: isTimestamp
+  }, errors);
+  if (errors.length > 0) return { errors };
+
+  return {
+    value: {
+      ...optional,
+      id: raw.id as string,
+      checkIn: raw.checkIn as string,
+      checkOut: raw.checkOut as string,
+      guestName: raw.guestName as string,
+      channel: raw.channel as BookingChannel,
+      grossAmount: raw.grossAmount as number,
+      guests: raw.guests as number
+    },
+    errors
+  };
+};
+
+// Templates saved before the frequency options were added repeat monthly.
+const validateRecurringTemplate = (raw: unknown): ValidationResult<RecurringTemplate> => {
+  const errors: string[] = [];
+  if (!isRecord(raw)) return { errors: ['Registro não é um objeto'] };
+  if (!isRequiredString(raw.id)) errors.push('id ausente');
+  if (!isOneOf(TransactionType, raw.type)) errors.push(`tipo inválido (${raw.type})`);
+  if (!isRequiredString(raw.category)) errors.push(`categoria inválida (${raw.category})`);
+  if (typeof raw.amount !== 'number' || !isFinite(raw.amount) || raw.amount <= 0) errors.push(`valor inválido (${raw.amount})`);
+  if (!isOptional(raw.description, isString)) errors.push('descrição inválida');
+  if (!isOptional(raw.frequency, value => value === 'monthly' || value === 'yearly' || value === 'custom')) errors.push(`frequência inválida (${raw.frequency})`);
+  if (!isOptional(raw.intervalMonths, isInteger(1))) errors.push(`intervalo inválido (${raw.intervalMonths})`);
+  if (!isDateKey(raw.startDate)) errors.push(`início inválido (${raw.startDate})`);
+  if (!isInteger(1, 31)(raw.dayOfMonth)) errors.push(`dia inválido (${raw.dayOfMonth})`);
+  if (!isOptional(raw.skipped, isStringList)) errors.push('ocorrências puladas inválidas');
+  const optional = pickOptional<RecurringTemplate>(raw, { propertyId: isString, endDate: isDateKey }, errors);
+  if (errors.length > 0) return { errors };
+
+  return {
+    value: {
+      ...optional,
+      id: raw.id as string,
+      type: raw.type as TransactionType,
+      category: raw.category as string,
+      amount: raw.amount as number,
+      description: isString(raw.description) ? raw.description : '',
+      frequency: (raw.frequency as RecurringTemplate['frequency'] | undefined) ?? 'monthly',
+      intervalMonths: (raw.intervalMonths as number | undefined) ?? 1,
+      startDate: raw.startDate as string,
+      dayOfMonth: raw.dayOfMonth as number,
+      skipped: isStringList(raw.skipped) ? raw.skipped : []
+    },
+    errors
+  };
+};
+
+const validateCategory = (raw: unknown): ValidationResult<CategoryDefinition> => {
+  const errors: string[] = [];
+  if (!isRecord(raw)) return { errors: ['Registro não é um objeto'] };
+  if (!isRequiredString(raw.id)) errors.push('id ausente');
+  if (!isRequiredString(raw.name)) errors.push('nome ausente');
+  if (!Array.isArray(raw.types) || raw.types.length === 0 || !raw.types.every(type => isOneOf(TransactionType, type))) errors.push('tipos inválidos');
+  if (!isRequiredString(raw.color)) errors.push('cor ausente');
+  if (!isRequiredString(raw.icon)) errors.push('ícone ausente');
+  const optional = pickOptional<CategoryDefinition>(raw, { parentId: isString }, errors);
+  if (errors.length > 0) return { errors };
+
+  return {
+    value: {
+      ...optional,
+      id: raw.id as string,
+      name: raw.name as string,
+      types: raw.types as TransactionType[],
+      color: raw.color as string,
+      icon: raw.icon as string
+    },
+    errors
+  };
+};
+
+const readOwnerConfig = (raw: unknown): OwnerConfig | null => {
+  return isRecord(raw) && isRequiredString(raw.name) && isAmount(raw.feePercent) && raw.feePercent <= 100
+    && (raw.feeBase === 'gross' || raw.feeBase === 'net') && isStringList(raw.ownerPaidCategories)
+    ? { name: raw.name, feePercent: raw.feePercent, feeBase: raw.feeBase, ownerPaidCategories: raw.ownerPaidCategories }
+    : null;
+};
+
+const validateProperty = (raw: unknown): ValidationResult<Property> => {
+  const errors: string[] = [];
+  if (!isRecord(raw)) return { errors: ['Registro não é um objeto'] };
+  if (!isRequiredString(raw.id)) errors.push('id ausente');
+  if (!isRequiredString(raw.name)) errors.push('nome ausente');
+  if (!isRequiredString(raw.color)) errors.push('cor ausente');
+  const owner = raw.owner === undefined || raw.owner === null ? undefined : readOwnerConfig(raw.owner);
+  if (owner === null) errors.push('proprietário inválido');
+  const optional = pickOptional<Property>(raw, { location: isString }, errors);
+  if (errors.length > 0) return { errors };
+
+  return {
+    value: {
+      ...optional,
+      ...(owner ? { owner } : {}),
+      id: raw.id as string,
+      name: raw.name as string,
+      color: raw.color as string
+    },
+    errors
+  };
+};
+
+const validateGuest = (raw: unknown): ValidationResult<Guest> => {
+  const errors: string[] = [];
+  if (!isRecord(raw)) return { errors: ['Registro não é um objeto'] };
+  if (!isRequiredString(raw.id)) errors.push('id ausente');
+  if (!isRequiredString(raw.name)) errors.push('nome ausente');
+  const optional = pickOptional<Guest>(raw, {
+    phone: isString, email: isString, document: isString, city: isString, notes: isString, rating: isInteger(1, 5)
+  }, errors);
+  if (errors.length > 0) return { errors };
+
+  return { value: { ...optional, id: raw.id as string, name: raw.name as string }, errors };
+};
+
+const validateBlockedDate = (raw: unknown): ValidationResult<BlockedDate> => {
+  const errors: string[] = [];
+  if (!isRecord(raw)) return { errors: ['Registro não é um objeto'] };
+  if (!isDateKey(raw.date)) errors.push(`data inválida (${raw.date})`);
+  const optional = pickOptional<BlockedDate>(raw, { propertyId: isString, reason: isString, externalUid: isString, blockId: isString }, errors);
+  if (errors.length > 0) return { errors };
+
+  return { value: { ...optional, date: raw.date as string }, errors };
+};
+
+// Keeps the entries of an id -> amount map that hold a valid amount.
+const readAmounts = (value: unknown): Record<string, number> => {
+  return isRecord(value) ? Object.fromEntries(Object.entries(value).filter(([, amount]) => isAmount(amount))) as Record<string, number> : {};
+};
+
+const readFeeRule = (raw: unknown): ChannelFeeRule | null => {
+  return isRecord(raw) && isAmount(raw.commissionPercent) && isAmount(raw.fixedFee)
+    ? { commissionPercent: raw.commissionPercent, fixedFee: raw.fixedFee }
+    : null;
+};
+
+const readIrpfTable = (raw: unknown): IrpfTable | null => {
+  if (!isRecord(raw) || !isString(raw.effectiveFrom) || !MONTH_KEY.test(raw.effectiveFrom) || !Array.isArray(raw.brackets)) return null;
+  const brackets = raw.brackets.map((b): IrpfBracket | null => (
+    isRecord(b) && (b.upTo === null || isAmount(b.upTo)) && isAmount(b.rate) && isAmount(b.deduction)
+      ? { upTo: b.upTo as number | null, rate: b.rate, deduction: b.deduction }
+      : null
+  ));
+  return brackets.length > 0 && brackets.every(b => !!b) ? { effectiveFrom: raw.effectiveFrom, brackets: brackets as IrpfBracket[] } : null;
+};
+
+// Invalid entries are dropped; channels missing from the file keep the default rule.
+const readSettings = (value: unknown): BackupSettings | null => {
+  if (value === undefined || value === null) return null;
+  if (!isRecord(value)) throw new BackupError('Backup corrompido: "settings" não é um objeto.');
+  const rules = isRecord(value.channelFeeRules) ? value.channelFeeRules : {};
+  const channelFeeRules = { ...DEFAULT_CHANNEL_FEE_RULES };
+  Object.values(BookingChannel).forEach(channel => {
+    const rule = readFeeRule(rules[channel]);
+    if (rule) channelFeeRules[channel] = rule;
+  });
+  return {
+    budgets: readAmounts(value.budgets),
+    channelFeeRules,
+    irpfTables: asArray(value.irpfTables).map(readIrpfTable).filter((t): t is IrpfTable => !!t)
+      .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)),
+    profitTargets: readAmounts(value.profitTargets)
+  };
+};
+
+// A collection may be missing (older schemas) but anything else than a list means the file is damaged.
+const readCollection = (payload: RawRecord, key: RecordCollection): unknown[] => {
+  const value = payload[key];
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new BackupError(`Backup corrompido: "${key}" não é uma lista.`);
+  return value;
+};
+
+export const parseBackup = async (text: string): Promise<ParsedBackup> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new BackupError('O arquivo não é um JSON válido.');
+  }
+
+  let schemaVersion: number;
+  let payload: unknown;
+  let checksumValid: boolean | null = null;
+  let exportedAt: string | undefined;
+  let appVersion: string | undefined;
+  if (Array.isArray(json)) {
+    schemaVersion = 1;
+    payload = json;
+  } else if (isRecord(json) && json.format === BACKUP_FORMAT && typeof json.schemaVersion === 'number') {
+    if (!Number.isInteger(json.schemaVersion) || json.schemaVersion < 1) {
+      throw new BackupError(`Versão de esquema inválida (${json.schemaVersion}).`);
+    }
+    if (!isRecord(json.data) && !(json.schemaVersion === 1 && Array.isArray(json.data))) {
+      throw new BackupError('Backup corrompido: os dados estão ausentes.');
+    }
+    schemaVersion = json.schemaVersion;
+    payload = json.data;
+    exportedAt = isString(json.exportedAt) ? json.exportedAt : undefined;
+    appVersion = isString(json.appVersion) ? json.appVersion : undefined;
+    if (isString(json.checksum)) {
+      checksumValid = (await sha256(JSON.stringify(json.data))) === json.checksum;
+    }
+  } else {
+    throw new BackupError('Formato de backup não reconhecido.');
+  }
+  if (schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new BackupError(`Backup criado por uma versão mais nova do app (esquema v${schemaVersion}). Atualize o aplicativo.`);
+  }
+
+  for (let v = schemaVersion; v < BACKUP_SCHEMA_VERSION; v++) {
+    payload = MIGRATIONS[v](payload);
+  }
+  const data = isRecord(payload) ? payload : {};
+
+  const errors: RecordError[] = [];
+  const readRecords = <T>(collection: RecordCollection, validate: (raw: unknown) => ValidationResult<T>): T[] => {
+    const records: T[] = [];
+    readCollection(data, collection).forEach((raw, index) => {
+      const result = validate(raw);
+      if (result.value) records.push(result.value);
+      else errors.push({ collection, index, id: isRecord(raw) && isString(raw.id) ? raw.id : undefined, messages: result.errors });
+    });
+    return records;
+  };
+
+  return {
+    schemaVersion,
+    exportedAt,
+    appVersion,
+    checksumValid,
+    data: {
+      transactions: readRecords('transactions', validateTransaction),
+      bookings: readRecords('bookings', validateBooking),
+      blockedDates: readRecords('blockedDates', validateBlockedDate),
+      recurringTemplates: readRecords('recurringTemplates', validateRecurringTemplate),
+      categories: readRecords('categories', validateCategory),
+      properties: readRecords('properties', validateProperty),
+      guests: readRecords('guests', validateGuest),
+      settings: readSettings(data.settings)
+    },
+    errors
+  };
+};
+
+const sameContents = (a: Transaction, b: Transaction) => JSON.stringify(a, Object.keys(a).sort()) === JSON.stringify(b, Object.keys(b).sort());
+
+// Dedupes by id. Records with the same id but different contents are conflicts, resolved by `prefer`.
+export const mergeTransactions = (current: Transaction[], incoming: Transaction[], prefer: 'current' | 'backup'): MergeResult => {
+  const byId = new Map(current.map(t => [t.id, t]));
+  const conflicts: MergeResult['conflicts'] = [];
+  const added: Transaction[] = [];
+  let identical = 0;
+
+  incoming.forEach(t => {
+    const existing = byId.get(t.id);
+    if (!existing) {
+      added.push(t);
+      byId.set(t.id, t);
+    } else if (sameContents(existing, t)) {
+      identical++;
+    } else {
+      conflicts.push({ current: existing, incoming: t });
+    }
+  });
+
+  const replacements = prefer === 'backup' ? new Map(conflicts.map(c => [c.current.id, c.incoming])) : new Map<string, Transaction>();
+  return {
+    transactions: [...added, ...current.map(t => replacements.get(t.id) ?? t)],
+    added: added.length,
+    identical,
+    conflicts
+  };
+};
+
+export const mergeById = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+  const ids = new Set(current.map(item => item.id));
+  return [...incoming.filter(item => !ids.has(item.id)), ...current];
+};
+
+// Replacing takes the backup's settings. Merging only adds what is missing here: current values win.
+export const restoreSettings = (current: BackupSettings, incoming: BackupSettings | null, mode: 'replace' | 'merge'): BackupSettings => {
+  if (!incoming) return current;
+  if (mode === 'replace') {
+    return { ...incoming, irpfTables: incoming.irpfTables.length > 0 ? incoming.irpfTables : current.irpfTables };
+  }
+  return {
+    budgets: { ...incoming.budgets, ...current.budgets },
+    channelFeeRules: current.channelFeeRules,
+    irpfTables: [...current.irpfTables, ...incoming.irpfTables.filter(t => !current.irpfTables.some(c => c.effectiveFrom === t.effectiveFrom))]
+      .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)),
+    profitTargets: { ...incoming.profitTargets, ...current.profitTargets }
+  };
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Category, Transaction, TransactionType } from '../types';
+import { parseBankCsv, parseOfx, reconcileStatement, suggestCategory, StatementLine } from './bankStatementService';
+
+const BANK_CSV = [
+  'Data;Histórico;Valor',
+  '05/03/2026;Saldo anterior;1.000,00',
+  '06/03/2026;PIX enviado - Faxina;-150,00',
+  '06/03/2026;PIX enviado - Faxina;-150,00',
+  '08/03/2026;PIX recebido;800,00'
+].join('\n');
+
+const record = (id: string, date: string, type: TransactionType, amount: number, extra: Partial<Transaction> = {}): Transaction => ({
+  id, date, type, category: type === TransactionType.INCOME ? Category.RENTAL : Category.CLEANING, amount, description: '', isPaid: true, ...extra
+});
+
+const line = (id: string, date: string, amount: number): StatementLine => ({ id, date, amount, description: '' });
+
+describe('parseBankCsv', () => {
+  it('skips balance rows and keeps identical lines apart', () => {
+    const lines = parseBankCsv(BANK_CSV);
+    expect(lines.map(l => [l.date, l.amount])).toEqual([['2026-03-06', -150], ['2026-03-06', -150], ['2026-03-08', 800]]);
+    expect(lines[0].id).toBe('2026-03-06|-150.00|PIX enviado - Faxina');
+    expect(lines[1].id).toBe('2026-03-06|-150.00|PIX enviado - Faxina|2');
+  });
+});
+
+describe('parseOfx', () => {
+  it('reads SGML statements and uses FITID as the id', () => {
+    const ofx = '<OFX><STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260310120000[-3:BRT]<TRNAMT>-89,90<FITID>abc<MEMO>CELPE</STMTTRN></OFX>';
+    expect(parseOfx(ofx)).toEqual([{ id: 'abc', date: '2026-03-10', amount: -89.9, description: 'CELPE' }]);
+  });
+});
+
+describe('suggestCategory', () => {
+  it('recognises common bills', () => {
+    expect(suggestCategory('DARF carnê-leão')).toBe(Category.INCOME_TAX);
+    expect(suggestCategory('Condomínio março')).toBe(Category.TAXES);
+    expect(suggestCategory('Padaria')).toBe(Category.OTHERS);
+  });
+});
+
+describe('reconcileStatement', () => {
+  it('matches the closest transaction of the same value and type in the property', () => {
+    const txns = [
+      record('e1', '2026-03-01', TransactionType.EXPENSE, 150),
+      record('e2', '2026-03-05', TransactionType.EXPENSE, 150),
+      record('e3', '2026-03-06', TransactionType.EXPENSE, 150, { propertyId: 'p2' }),
+      record('i1', '2026-03-07', TransactionType.INCOME, 800)
+    ];
+    const items = reconcileStatement([line('l1', '2026-03-06', -150), line('l2', '2026-03-06', -150), line('l3', '2026-03-08', 800)], txns, 'default');
+    expect(items.map(item => [item.status, item.match?.id])).toEqual([['matched', 'e2'], ['matched', 'e1'], ['matched', 'i1']]);
+  });
+
+  it('leaves out lines already reconciled and suggests a category for unmatched debits', () => {
+    const txns = [record('e1', '2026-03-06', TransactionType.EXPENSE, 150, { propertyId: 'p2', reconciled: true, bankRef: 'l1' })];
+    const items = reconcileStatement([line('l1', '2026-03-06', -150), { ...line('l2', '2026-03-06', -150), description: 'Faxina' }], txns, 'default');
+    expect(items.map(item => [item.status, item.suggestedCategory])).toEqual([['already_reconciled', undefined], ['unmatched', Category.CLEANING]]);
+  });
+});
@@ -0,0 +1,114 @@
+import { Category, Transaction, TransactionType } from "../types";
+import { parseAmount, parseCsv, parseDateValue } from "./csvImportService";
+import { daysBetween, parseDateKey } from "./periodService";
+import { filterByProperty } from "./propertyService";
+
+export interface StatementLine {
+  id: string;
+  date: string;
+  amount: number;
+  description: string;
+}
+
+export interface ReconciliationItem {
+  line: StatementLine;
+  status: 'matched' | 'unmatched' | 'already_reconciled';
+  match?: Transaction;
+  suggestedCategory?: Category;
+}
+
+// Days of tolerance between the bank posting date and the recorded transaction date.
+export const MATCH_WINDOW_DAYS = 5;
+
+const CATEGORY_RULES: { pattern: RegExp; category: Category }[] = [
+  { pattern: /darf|carn[êe][ -]le[ãa]o|irpf/i, category: Category.INCOME_TAX },
+  { pattern: /condom[ií]nio|iptu|taxa condominial|imposto|tribut/i, category: Category.TAXES },
+  { pattern: /celpe|neoenergia|compesa|energia|luz|[áa]gua|internet|claro|vivo|tim |oi fibra|net servi|g[áa]s/i, category: Category.UTILITIES },
+  { pattern: /limpeza|faxina|diarista|lavanderia/i, category: Category.CLEANING },
+  { pattern: /manuten|reparo|conserto|material|constru|leroy|eletricista|encanador|pintura/i, category: Category.MAINTENANCE }
+];
+
+export const suggestCategory = (description: string): Category => {
+  return CATEGORY_RULES.find(rule => rule.pattern.test(description))?.category ?? Category.OTHERS;
+};
+
+// Identical lines (two equal transfers on the same day) get their position among them appended, so their ids
+// differ. The first one keeps the plain id, which matches the references saved before.
+const withDistinctIds = (lines: StatementLine[]): StatementLine[] => {
+  const seen = new Map<string, number>();
+  return lines.map(line => {
+    const count = seen.get(line.id) ?? 0;
+    seen.set(line.id, count + 1);
+    return count === 0 ? line : { ...line, id: `${line.id}|${count + 1}` };
+  });
+};
+
+// OFX 1.x is SGML (unclosed tags) and 2.x is XML; reading tag values up to the next '<' handles both.
+export const parseOfx = (content: string): StatementLine[] => {
+  const blocks = content.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+  const tag = (block: string, name: string) => block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'))?.[1].trim() ?? '';
+
+  return withDistinctIds(blocks.flatMap(block => {
+    const posted = tag(block, 'DTPOSTED').match(/^(\d{4})(\d{2})(\d{2})/);
+    const amount = parseFloat(tag(block, 'TRNAMT').replace(',', '.'));
+    if (!posted || isNaN(amount)) return [];
+    const date = `${posted[1]}-${posted[2]}-${posted[3]}`;
+    const description = [tag(block, 'NAME'), tag(block, 'MEMO')].filter(Boolean).join(' - ');
+    return [{ id: tag(block, 'FITID') || `${date}|${amount}|${description}`, date, amount, description }];
+  }));
+};
+
+// Brazilian bank exports: 'Data;Histórico/Descrição;Valor' with dd/mm/yyyy dates and decimal commas.
+export const parseBankCsv = (content: string): StatementLine[] => {
+  const rows = parseCsv(content);
+  if (rows.length < 2) return [];
+  const headers = rows[0].map(h => h.toLowerCase());
+  const find = (pattern: RegExp) => headers.findIndex(h => pattern.test(h));
+  const dateCol = find(/^data/);
+  const descCol = find(/hist[óo]rico|descri|lan[çc]amento/);
+  const amountCol = find(/^valor/);
+  if (dateCol < 0 || amountCol < 0) return [];
+
+  return withDistinctIds(rows.slice(1).flatMap(row => {
+    const date = parseDateValue(row[dateCol] ?? '', 'dd/mm/yyyy');
+    const amount = parseAmount(row[amountCol] ?? '', ',');
+    if (!date || amount === null || amount === 0) return [];
+    const description = descCol >= 0 ? row[descCol] ?? '' : '';
+    if (/saldo/i.test(description)) return [];
+    return [{ id: `${date}|${amount.toFixed(2)}|${description}`, date, amount, description }];
+  }));
+};
+
+export const parseStatement = (fileName: string, content: string): StatementLine[] => {
+  return /\.ofx$/i.test(fileName) || /<OFX>/i.test(content) ? parseOfx(content) : parseBankCsv(content);
+};
+
+// Debits match expenses and credits match income of the same value in the property; the closest date inside the
+// window wins. A line reconciled in any property is not offered again.
+export const reconcileStatement = (lines: StatementLine[], transactions: Transaction[], propertyId: string): ReconciliationItem[] => {
+  const knownRefs = new Set(transactions.map(t => t.bankRef).filter(Boolean));
+  const candidates = filterByProperty(transactions, propertyId);
+  const used = new Set<string>();
+
+  return lines.map(line => {
+    if (knownRefs.has(line.id)) return { line, status: 'already_reconciled' as const };
+
+    const type = line.amount < 0 ? TransactionType.EXPENSE : TransactionType.INCOME;
+    const lineDate = parseDateKey(line.date);
+    const match = candidates
+      .filter(t => !t.reconciled && !used.has(t.id) && t.type === type && Math.abs(t.amount - Math.abs(line.amount)) < 0.01)
+      .map(t => ({ t, distance: Math.abs(daysBetween(parseDateKey(t.date), lineDate)) }))
+      .filter(candidate => candidate.distance <= MATCH_WINDOW_DAYS)
+      .sort((a, b) => a.distance - b.distance)[0]?.t;
+
+    if (match) {
+      used.add(match.id);
+      return { line, status: 'matched' as const, match };
+    }
+    return {
+      line,
+      status: 'unmatched' as const,
+      suggestedCategory: line.amount < 0 ? suggestCategory(line.description) : undefined
+    };
+  });
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { Booking, BookingChannel, Category, Transaction, TransactionType } from '../types';
+import { createBookingTransactions, rebuildBookingTransactions, splitStayByMonth } from './bookingService';
+
+const rule = { commissionPercent: 3, fixedFee: 0 };
+
+const booking: Booking = {
+  id: 'b1', checkIn: '2026-01-30', checkOut: '2026-02-03', guestName: 'Ana', channel: BookingChannel.AIRBNB, grossAmount: 1000, guests: 2
+};
+
+const fees = (txns: Transaction[]) => txns.filter(t => t.feeFor);
+
+describe('createBookingTransactions', () => {
+  it('splits income and fee by the nights in each month', () => {
+    const txns = createBookingTransactions(booking, rule);
+    expect(splitStayByMonth(booking).map(s => s.nights)).toEqual([2, 2]);
+    expect(txns.filter(t => t.type === TransactionType.INCOME).map(t => [t.date, t.amount])).toEqual([['2026-01-30', 500], ['2026-02-01', 500]]);
+    expect(fees(txns).map(t => t.amount)).toEqual([15, 15]);
+  });
+});
+
+describe('rebuildBookingTransactions', () => {
+  const current = createBookingTransactions(booking, rule);
+
+  it('keeps the current fees when amount, channel and split are unchanged', () => {
+    const rebuilt = rebuildBookingTransactions({ ...booking, guestName: 'Ana Souza' }, booking, current, { commissionPercent: 10, fixedFee: 0 });
+    expect(fees(rebuilt)).toEqual(fees(current));
+    expect(rebuilt.filter(t => !t.feeFor).map(t => t.id)).toEqual(current.filter(t => !t.feeFor).map(t => t.id));
+    expect(rebuilt.find(t => !t.feeFor)?.guestName).toBe('Ana Souza');
+  });
+
+  it('recalculates the fees when the amount changes', () => {
+    const rebuilt = rebuildBookingTransactions({ ...booking, grossAmount: 2000 }, booking, current, rule);
+    expect(fees(rebuilt).map(t => t.amount)).toEqual([30, 30]);
+    expect(fees(rebuilt).map(t => t.id)).toEqual(fees(current).map(t => t.id));
+  });
+
+  it('recalculates the fees when the month split changes', () => {
+    const rebuilt = rebuildBookingTransactions({ ...booking, checkIn: '2026-02-01', checkOut: '2026-02-05' }, booking, current, rule);
+    expect(fees(rebuilt).map(t => t.amount)).toEqual([30]);
+  });
+
+  it('never recalculates a fee read from a payout report', () => {
+    const income: Transaction = {
+      id: 'i1', date: '2026-01-30', type: TransactionType.INCOME, category: Category.RENTAL, amount: 1000, description: '', isPaid: true, channel: BookingChannel.AIRBNB
+    };
+    const imported: Transaction = {
+      id: 'f1', date: '2026-01-30', type: TransactionType.EXPENSE, category: Category.PLATFORM_FEES, amount: 42.5, description: '', isPaid: true,
+      channel: BookingChannel.AIRBNB, feeFor: 'i1', importedFee: true
+    };
+    const rebuilt = rebuildBookingTransactions({ ...booking, grossAmount: 1200 }, undefined, [income, imported], rule);
+    expect(fees(rebuilt)).toEqual([{ ...imported, bookingId: 'b1', feeFor: 'i1' }]);
+    expect(rebuilt.some(t => t.id === 'i1' && t.bookingId === 'b1')).toBe(true);
+  });
+});
@@ -0,0 +1,161 @@
+import { Booking, BookingChannel, Category, ChannelFeeRule, OccupancyMetrics, TimeRange, Transaction, TransactionType } from "../types";
+import { calculateChannelFee, createFeeTransaction } from "./channelService";
+import { addDays, daysBetween, getPeriodBounds, parseDateKey, toDateKey } from "./periodService";
+
+export const getStayNights = (booking: Booking): number => {
+  return Math.max(0, daysBetween(parseDateKey(booking.checkIn), parseDateKey(booking.checkOut)));
+};
+
+// Nights of the stay that fall inside [start, end). The check-out day is not a night.
+export const getNightsInRange = (booking: Booking, start: Date, end: Date): number => {
+  const checkIn = parseDateKey(booking.checkIn);
+  const checkOut = parseDateKey(booking.checkOut);
+  const from = checkIn > start ? checkIn : start;
+  const to = checkOut < end ? checkOut : end;
+  return Math.max(0, daysBetween(from, to));
+};
+
+export const getBookingNightlyRate = (booking: Booking): number => {
+  const nights = getStayNights(booking);
+  return nights > 0 ? booking.grossAmount / nights : 0;
+};
+
+export const isNightBooked = (booking: Booking, date: Date): boolean => {
+  return getNightsInRange(booking, date, addDays(date, 1)) > 0;
+};
+
+// Splits a stay into one segment per calendar month it touches.
+export const splitStayByMonth = (booking: Booking): { firstNight: Date; nights: number }[] => {
+  const segments: { firstNight: Date; nights: number }[] = [];
+  const checkOut = parseDateKey(booking.checkOut);
+  let cursor = parseDateKey(booking.checkIn);
+  while (cursor < checkOut) {
+    const nextMonth = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1);
+    const segmentEnd = nextMonth < checkOut ? nextMonth : checkOut;
+    segments.push({ firstNight: cursor, nights: daysBetween(cursor, segmentEnd) });
+    cursor = segmentEnd;
+  }
+  return segments;
+};
+
+// Spreads `total` over the segments in proportion to their nights; the last one absorbs rounding.
+const allocateByNights = (total: number, segments: { nights: number }[], totalNights: number): number[] => {
+  let allocated = 0;
+  return segments.map((segment, idx) => {
+    const amount = idx === segments.length - 1
+      ? Math.round((total - allocated) * 100) / 100
+      : Math.round((total * segment.nights / totalNights) * 100) / 100;
+    allocated += amount;
+    return amount;
+  });
+};
+
+// Income is recognised per month in proportion to the nights spent in it. With a fee rule, each
+// month segment gets its share of the channel's platform fee as a linked expense.
+export const createBookingTransactions = (booking: Booking, feeRule?: ChannelFeeRule): Transaction[] => {
+  const totalNights = getStayNights(booking);
+  const segments = splitStayByMonth(booking);
+  const stayLabel = `${parseDateKey(booking.checkIn).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })}–${parseDateKey(booking.checkOut).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })}`;
+  const amounts = allocateByNights(booking.grossAmount, segments, totalNights);
+  const fees = allocateByNights(calculateChannelFee(booking.grossAmount, feeRule), segments, totalNights);
+
+  const incomes: Transaction[] = segments.map((segment, idx) => {
+    const split = segments.length > 1 ? ` (${segment.nights}/${totalNights} noites)` : ` (${totalNights} noites)`;
+
+    return {
+      id: crypto.randomUUID(),
+      propertyId: booking.propertyId,
+      date: toDateKey(segment.firstNight),
+      type: TransactionType.INCOME,
+      category: Category.RENTAL,
+      amount: amounts[idx],
+      description: booking.description || `Hospedagem ${stayLabel}${split}`,
+      guestName: booking.guestName,
+      guestId: booking.guestId,
+      isPaid: true,
+      bookingId: booking.id,
+      channel: booking.channel
+    };
+  });
+  return [...incomes, ...incomes.flatMap((income, idx) => fees[idx] > 0 ? [createFeeTransaction(income, fees[idx])] : [])];
+};
+
+// Regenerated records take over the ids of the ones they replace (matched by type, in date order),
+// so edits show up as updates in the audit log; fee links follow the renamed incomes.
+export const reuseTransactionIds = (generated: Transaction[], previous: Transaction[]): Transaction[] => {
+  const pools = new Map<TransactionType, string[]>();
+  [...previous].sort((a, b) => a.date.localeCompare(b.date)).forEach(t => pools.set(t.type, [...(pools.get(t.type) ?? []), t.id]));
+  const renamed = new Map<string, string>();
+  generated.forEach(t => {
+    const id = pools.get(t.type)?.shift();
+    if (id) renamed.set(t.id, id);
+  });
+  return generated.map(t => ({
+    ...t,
+    id: renamed.get(t.id) ?? t.id,
+    feeFor: t.feeFor && (renamed.get(t.feeFor) ?? t.feeFor)
+  }));
+};
+
+const sameMonthSplit = (a: Booking, b: Booking) => {
+  const split = (booking: Booking) => splitStayByMonth(booking).map(s => `${toDateKey(s.firstNight)}:${s.nights}`).join('|');
+  return split(a) === split(b);
+};
+
+// Month segments of an edited stay, replacing `replaced` (the previous segments and fees, or the plain income
+// turned into a stay). The current fees are kept, following their income's date, unless the gross amount,
+// channel or month split changed; fees read from a payout report are never recalculated.
+export const rebuildBookingTransactions = (booking: Booking, previous: Booking | undefined, replaced: Transaction[], feeRule?: ChannelFeeRule): Transaction[] => {
+  const generated = reuseTransactionIds(createBookingTransactions(booking, feeRule), replaced);
+  const currentFees = replaced.filter(t => t.feeFor);
+  const keepFees = currentFees.some(t => t.importedFee)
+    || (!!previous && previous.grossAmount === booking.grossAmount && previous.channel === booking.channel && sameMonthSplit(previous, booking));
+  if (!keepFees) return generated;
+
+  const incomes = generated.filter(t => !t.feeFor);
+  return [
+    ...incomes,
+    ...currentFees.map(fee => {
+      const income = incomes.find(t => t.id === fee.feeFor) ?? incomes[0];
+      return { ...fee, date: income.date, propertyId: income.propertyId, bookingId: booking.id, feeFor: income.id };
+    })
+  ];
+};
+
+export const calculateOccupancy = (bookings: Booking[], range: TimeRange, refDate: Date, customDays = 1): OccupancyMetrics => {
+  let bounds = getPeriodBounds(range, refDate, customDays);
+  if (!bounds) {
+    if (bookings.length === 0) {
+      return { availableNights: 0, bookedNights: 0, occupancyRate: 0, roomRevenue: 0, adr: 0, revPar: 0 };
+    }
+    const checkIns = bookings.map(b => parseDateKey(b.checkIn).getTime());
+    const checkOuts = bookings.map(b => parseDateKey(b.checkOut).getTime());
+    bounds = { start: new Date(Math.min(...checkIns)), end: new Date(Math.max(...checkOuts)) };
+  }
+
+  const { start, end } = bounds;
+  const availableNights = daysBetween(start, end);
+  let bookedNights = 0;
+  let roomRevenue = 0;
+  bookings.forEach(b => {
+    const nights = getNightsInRange(b, start, end);
+    bookedNights += nights;
+    roomRevenue += nights * getBookingNightlyRate(b);
+  });
+
+  return {
+    availableNights,
+    bookedNights,
+    occupancyRate: availableNights > 0 ? Math.min(100, (bookedNights / availableNights) * 100) : 0,
+    roomRevenue,
+    adr: bookedNights > 0 ? roomRevenue / bookedNights : 0,
+    revPar: availableNights > 0 ? roomRevenue / availableNights : 0
+  };
+};
+
+export const CHANNEL_COLORS: Record<BookingChannel, string> = {
+  [BookingChannel.AIRBNB]: '#F43F5E',
+  [BookingChannel.BOOKING]: '#6366F1',
+  [BookingChannel.DIRECT]: '#10B981',
+  [BookingChannel.OTHER]: '#F59E0B'
+};
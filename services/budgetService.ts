@@ -0,0 +1,61 @@
+import { CategoryBudgets, CategoryDefinition, CategoryId, TimeRange, Transaction, TransactionType } from "../types";
+import { CategoryTotal } from "./aggregationService";
+import { daysBetween, getPeriodBounds, getWindowDays, parseDateKey } from "./periodService";
+
+export interface BudgetVariance {
+  id: CategoryId;
+  name: string;
+  actual: number;
+  budget: number;
+  // actual - budget; positive means overspent
+  variance: number;
+  // Share of the budget used, in %
+  usage: number;
+  overBudget: boolean;
+}
+
+// Budgets are set on top-level expense categories; subcategory spending counts towards the parent.
+export const getBudgetCategories = (categories: CategoryDefinition[]) => {
+  return categories.filter(c => !c.parentId && c.types.includes(TransactionType.EXPENSE));
+};
+
+// How many months of budget the period represents. 'all' spans the months that have transactions.
+// Windows that do not start on the 1st count in average months.
+export const getBudgetMonths = (range: TimeRange, refDate: Date, txns: Transaction[], customDays = 1): number => {
+  if (range === 'daily') {
+    return 1 / new Date(refDate.getFullYear(), refDate.getMonth() + 1, 0).getDate();
+  }
+  const bounds = getPeriodBounds(range, refDate, customDays);
+  if (bounds && getWindowDays(range, customDays) !== null) {
+    return daysBetween(bounds.start, bounds.end) / (365 / 12);
+  }
+  if (bounds) {
+    return (bounds.end.getFullYear() - bounds.start.getFullYear()) * 12 + bounds.end.getMonth() - bounds.start.getMonth();
+  }
+  if (txns.length === 0) return 1;
+  const dates = txns.map(t => t.date).sort();
+  const first = parseDateKey(dates[0]);
+  const last = parseDateKey(dates[dates.length - 1]);
+  return (last.getFullYear() - first.getFullYear()) * 12 + last.getMonth() - first.getMonth() + 1;
+};
+
+// Actual spending vs the budget scaled to the period; budgeted categories without spending are included.
+export const compareToBudget = (totals: CategoryTotal[], budgets: CategoryBudgets, months: number, categories: CategoryDefinition[]): BudgetVariance[] => {
+  const actuals = new Map(totals.map(c => [c.id, c.value]));
+  const unspent = getBudgetCategories(categories).filter(c => budgets[c.id] && !actuals.has(c.id));
+  return [...totals.map(c => ({ id: c.id, name: c.name })), ...unspent.map(c => ({ id: c.id, name: c.name }))]
+    .filter(({ id }) => budgets[id])
+    .map(({ id, name }) => {
+      const actual = actuals.get(id) ?? 0;
+      const budget = budgets[id] * months;
+      return {
+        id,
+        name,
+        actual,
+        budget,
+        variance: actual - budget,
+        usage: budget > 0 ? (actual / budget) * 100 : 0,
+        overBudget: actual > budget
+      };
+    });
+};
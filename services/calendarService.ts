@@ -0,0 +1,60 @@
+import { BlockedDate, Booking } from "../types";
+import { getBookingNightlyRate, isNightBooked } from "./bookingService";
+import { addDays, parseDateKey, toDateKey } from "./periodService";
+import { getPropertyId } from "./propertyService";
+
+export interface CalendarDay {
+  date: Date;
+  dateKey: string;
+  inMonth: boolean;
+  booking?: Booking;
+  nightlyRate: number;
+  isCheckIn: boolean;
+  blocked?: BlockedDate;
+}
+
+// Weeks (Sunday first) covering the month of refDate, padded with days of the neighbouring months.
+export const buildMonthCalendar = (refDate: Date, bookings: Booking[], blockedDates: BlockedDate[]): CalendarDay[][] => {
+  const firstOfMonth = new Date(refDate.getFullYear(), refDate.getMonth(), 1);
+  const lastOfMonth = new Date(refDate.getFullYear(), refDate.getMonth() + 1, 0);
+  const gridStart = addDays(firstOfMonth, -firstOfMonth.getDay());
+  const gridEnd = addDays(lastOfMonth, 6 - lastOfMonth.getDay());
+  const blockedByKey = new Map(blockedDates.map(b => [b.date, b]));
+
+  const weeks: CalendarDay[][] = [];
+  for (let cursor = gridStart; cursor <= gridEnd; cursor = addDays(cursor, 1)) {
+    if (cursor.getDay() === 0) weeks.push([]);
+    const dateKey = toDateKey(cursor);
+    const booking = bookings.find(b => isNightBooked(b, cursor));
+    weeks[weeks.length - 1].push({
+      date: cursor,
+      dateKey,
+      inMonth: cursor.getMonth() === refDate.getMonth(),
+      booking,
+      nightlyRate: booking ? getBookingNightlyRate(booking) : 0,
+      isCheckIn: booking?.checkIn === dateKey,
+      blocked: blockedByKey.get(dateKey)
+    });
+  }
+  return weeks;
+};
+
+// A night blocked next to a range joins it and keeps its blockId, so the range's iCal UID survives when it grows
+// on either side. Unblocking a night inside a range gives the nights after it an id of their own.
+export const toggleBlockedNight = (blockedDates: BlockedDate[], propertyId: string, dateKey: string): BlockedDate[] => {
+  const nightAt = (key: string) => blockedDates.find(b => b.date === key && getPropertyId(b) === propertyId);
+  const shiftKey = (key: string, days: number) => toDateKey(addDays(parseDateKey(key), days));
+  const current = nightAt(dateKey);
+
+  if (!current) {
+    const neighbour = [nightAt(shiftKey(dateKey, -1)), nightAt(shiftKey(dateKey, 1))].find(b => b?.blockId && !b.externalUid);
+    return [...blockedDates, { date: dateKey, reason: 'Bloqueio manual', propertyId, blockId: neighbour?.blockId ?? crypto.randomUUID() }];
+  }
+
+  const remaining = blockedDates.filter(b => b.date !== dateKey || getPropertyId(b) !== propertyId);
+  const following = new Set<string>();
+  for (let key = shiftKey(dateKey, 1); current.blockId && nightAt(key)?.blockId === current.blockId; key = shiftKey(key, 1)) following.add(key);
+  if (following.size === 0) return remaining;
+  const blockId = crypto.randomUUID();
+  return remaining.map(b => (following.has(b.date) && getPropertyId(b) === propertyId ? { ...b, blockId } : b));
+};
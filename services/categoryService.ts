@@ -0,0 +1,72 @@
+import { Category, CategoryDefinition, CategoryId, TransactionType } from "../types";
+
+export const CATEGORIES_STORAGE_KEY = 'porto_categories';
+
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  { id: Category.RENTAL, name: 'Aluguel', types: [TransactionType.INCOME], color: '#0891B2', icon: 'House' },
+  { id: Category.CLEANING, name: 'Limpeza', types: [TransactionType.EXPENSE], color: '#2DD4BF', icon: 'Sparkles' },
+  { id: Category.MAINTENANCE, name: 'Manutenção', types: [TransactionType.EXPENSE], color: '#10B981', icon: 'Wrench' },
+  { id: Category.UTILITIES, name: 'Contas (Luz/Água)', types: [TransactionType.EXPENSE], color: '#F43F5E', icon: 'Zap' },
+  { id: Category.TAXES, name: 'Impostos/Condomínio', types: [TransactionType.EXPENSE], color: '#6366F1', icon: 'Landmark' },
+  { id: Category.INCOME_TAX, name: 'IR (Carnê-Leão)', parentId: Category.TAXES, types: [TransactionType.EXPENSE], color: '#6366F1', icon: 'Landmark' },
+  { id: Category.PLATFORM_FEES, name: 'Taxas de Plataforma', types: [TransactionType.EXPENSE], color: '#8B5CF6', icon: 'Percent' },
+  { id: Category.OTHERS, name: 'Outros', types: [TransactionType.INCOME, TransactionType.EXPENSE], color: '#F59E0B', icon: 'Tag' }
+];
+
+// Palette offered when creating categories
+export const CATEGORY_COLORS = ['#0891B2', '#2DD4BF', '#10B981', '#F43F5E', '#6366F1', '#F59E0B', '#8B5CF6', '#EC4899', '#64748B', '#84CC16'];
+
+// Labels persisted by versions where the category was stored as the enum text
+const LEGACY_CATEGORY_IDS: Record<string, Category> = {
+  'Aluguel': Category.RENTAL,
+  'Limpeza': Category.CLEANING,
+  'Manutenção': Category.MAINTENANCE,
+  'Contas (Luz/Água)': Category.UTILITIES,
+  'Impostos/Condomínio': Category.TAXES,
+  'Outros': Category.OTHERS
+};
+
+export const migrateCategoryId = (value: string): CategoryId => LEGACY_CATEGORY_IDS[value] ?? value;
+
+export const isBuiltInCategory = (id: CategoryId) => (Object.values(Category) as string[]).includes(id);
+
+export const findCategory = (categories: CategoryDefinition[], id: CategoryId) => {
+  const migrated = migrateCategoryId(id);
+  return categories.find(c => c.id === migrated);
+};
+
+// Subcategories roll up into their parent in totals, charts and budgets.
+export const getRootCategoryId = (categories: CategoryDefinition[], id: CategoryId): CategoryId => {
+  const category = findCategory(categories, id);
+  return category?.parentId ?? category?.id ?? id;
+};
+
+export const getCategoryLabel = (categories: CategoryDefinition[], id: CategoryId): string => {
+  const category = findCategory(categories, id);
+  if (!category) return id;
+  const parent = category.parentId ? findCategory(categories, category.parentId) : undefined;
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+};
+
+export const getCategoryColor = (categories: CategoryDefinition[], id: CategoryId): string => {
+  return findCategory(categories, id)?.color ?? '#94A3B8';
+};
+
+// Categories usable for a transaction type, each parent followed by its subcategories.
+export const getCategoriesForType = (categories: CategoryDefinition[], type: TransactionType): CategoryDefinition[] => {
+  const applicable = categories.filter(c => c.types.includes(type));
+  return applicable
+    .filter(c => !c.parentId)
+    .flatMap(root => [root, ...applicable.filter(c => c.parentId === root.id)]);
+};
+
+// Built-ins are always present; missing ones (older saved lists) are added back.
+export const loadCategories = (): CategoryDefinition[] => {
+  try {
+    const saved = localStorage.getItem(CATEGORIES_STORAGE_KEY);
+    const categories: CategoryDefinition[] = saved ? JSON.parse(saved) : [];
+    return [...DEFAULT_CATEGORIES.filter(d => !categories.some(c => c.id === d.id)), ...categories];
+  } catch {
+    return DEFAULT_CATEGORIES;
+  }
+};
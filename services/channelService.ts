@@ -0,0 +1,83 @@
+import { Booking, BookingChannel, Category, ChannelFeeRule, ChannelFeeRules, Transaction, TransactionType } from "../types";
+
+export const CHANNEL_FEES_STORAGE_KEY = 'porto_channel_fees';
+
+// Host-side fees charged by default; edited by the user in the channel settings.
+export const DEFAULT_CHANNEL_FEE_RULES: ChannelFeeRules = {
+  [BookingChannel.AIRBNB]: { commissionPercent: 3, fixedFee: 0 },
+  [BookingChannel.BOOKING]: { commissionPercent: 15, fixedFee: 0 },
+  [BookingChannel.DIRECT]: { commissionPercent: 0, fixedFee: 0 },
+  [BookingChannel.OTHER]: { commissionPercent: 0, fixedFee: 0 }
+};
+
+export const calculateChannelFee = (gross: number, rule?: ChannelFeeRule): number => {
+  if (!rule || gross <= 0) return 0;
+  return Math.round((gross * rule.commissionPercent / 100 + rule.fixedFee) * 100) / 100;
+};
+
+// Platform fee expense charged on an income record; it follows the income's dates and payment status.
+export const createFeeTransaction = (income: Transaction, amount: number): Transaction => ({
+  id: crypto.randomUUID(),
+  propertyId: income.propertyId,
+  date: income.date,
+  type: TransactionType.EXPENSE,
+  category: Category.PLATFORM_FEES,
+  amount,
+  description: `Taxa ${income.channel ?? 'plataforma'}${income.description ? ` • ${income.description}` : ''}`,
+  isPaid: income.isPaid,
+  dueDate: income.dueDate,
+  paidAt: income.paidAt,
+  bookingId: income.bookingId,
+  channel: income.channel,
+  feeFor: income.id
+});
+
+// Income recorded before channels were tracked takes the channel of its booking.
+export const getTransactionChannel = (t: Transaction, bookings: Booking[]): BookingChannel | undefined => {
+  return t.channel ?? (t.bookingId ? bookings.find(b => b.id === t.bookingId)?.channel : undefined);
+};
+
+export interface ChannelPerformance {
+  channel: BookingChannel;
+  gross: number;
+  fees: number;
+  net: number;
+  // Net over gross, in %
+  margin: number;
+  // Share of the gross revenue of all channels, in %
+  share: number;
+}
+
+export const buildChannelBreakdown = (txns: Transaction[], bookings: Booking[]): ChannelPerformance[] => {
+  const totals = new Map<BookingChannel, { gross: number; fees: number }>();
+  txns.forEach(t => {
+    const channel = getTransactionChannel(t, bookings);
+    // The only expenses tied to a channel are its platform fees
+    if (!channel) return;
+    const entry = totals.get(channel) ?? { gross: 0, fees: 0 };
+    if (t.type === TransactionType.INCOME) entry.gross += t.amount;
+    else entry.fees += t.amount;
+    totals.set(channel, entry);
+  });
+  const totalGross = [...totals.values()].reduce((acc, entry) => acc + entry.gross, 0);
+  return [...totals.entries()]
+    .map(([channel, { gross, fees }]) => ({
+      channel,
+      gross,
+      fees,
+      net: gross - fees,
+      margin: gross > 0 ? ((gross - fees) / gross) * 100 : 0,
+      share: totalGross > 0 ? (gross / totalGross) * 100 : 0
+    }))
+    .sort((a, b) => b.gross - a.gross);
+};
+
+// Saved rules are merged over the defaults so channels added later get a value.
+export const loadChannelFeeRules = (): ChannelFeeRules => {
+  try {
+    const saved = localStorage.getItem(CHANNEL_FEES_STORAGE_KEY);
+    return { ...DEFAULT_CHANNEL_FEE_RULES, ...(saved ? JSON.parse(saved) : {}) };
+  } catch {
+    return DEFAULT_CHANNEL_FEE_RULES;
+  }
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { BookingChannel, Category, Transaction, TransactionType } from '../types';
+import { buildCsvPreview, buildMappingFromPreset, detectPreset, parseAmount, parseCsv, parseDateValue } from './csvImportService';
+
+const AIRBNB_CSV = [
+  'Date,Type,Start Date,Guest,Confirmation Code,Gross Earnings,Host Fee',
+  '03/02/2026,Reservation,03/01/2026,"Silva, Ana",HM1,"1,000.00",30.00',
+  '03/02/2026,Payout,,,,970.00,',
+  '03/05/2026,Reservation,03/04/2026,Bruno,HM2,500.00,15.00'
+].join('\n');
+
+const preview = (existing: Transaction[], propertyId = 'default') => {
+  const rows = parseCsv(AIRBNB_CSV);
+  const preset = detectPreset(rows[0]);
+  return buildCsvPreview(rows, buildMappingFromPreset(rows[0], preset), preset, existing, propertyId);
+};
+
+describe('parsing helpers', () => {
+  it('reads quoted fields, amounts and dates in each format', () => {
+    expect(parseCsv('a;b\n"x;y";"say ""hi"""')).toEqual([['a', 'b'], ['x;y', 'say "hi"']]);
+    expect(parseAmount('R$ 1.234,56', ',')).toBe(1234.56);
+    expect(parseAmount('(15.00)', '.')).toBe(-15);
+    expect(parseDateValue('31/01/26', 'dd/mm/yyyy')).toBe('2026-01-31');
+    expect(parseDateValue('02/30/2026', 'mm/dd/yyyy')).toBeNull();
+  });
+});
+
+describe('buildCsvPreview', () => {
+  it('builds the income and its imported fee and skips payout rows', () => {
+    const rows = preview([]);
+    expect(rows.map(r => r.skipped)).toEqual([false, true, false]);
+    const [income, fee] = rows[0].transactions;
+    expect(income).toMatchObject({ date: '2026-03-01', amount: 1000, guestName: 'Silva, Ana', channel: BookingChannel.AIRBNB, propertyId: 'default' });
+    expect(fee).toMatchObject({ category: Category.PLATFORM_FEES, amount: 30, feeFor: income.id, importedFee: true, propertyId: 'default' });
+  });
+
+  it('flags duplicates of the property being imported into only', () => {
+    const existing: Transaction = {
+      id: 't1', date: '2026-03-01', type: TransactionType.INCOME, category: Category.RENTAL, amount: 1000, description: '', guestName: 'silva, ana', isPaid: true
+    };
+    expect(preview([existing]).map(r => r.duplicate)).toEqual([true, false, false]);
+    expect(preview([{ ...existing, propertyId: 'p2' }]).map(r => r.duplicate)).toEqual([false, false, false]);
+  });
+});
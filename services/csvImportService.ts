@@ -0,0 +1,247 @@
+import { BookingChannel, Category, Transaction, TransactionType } from "../types";
+import { filterByProperty } from "./propertyService";
+
+export type DateFormat = 'dd/mm/yyyy' | 'mm/dd/yyyy' | 'yyyy-mm-dd';
+export type DecimalSeparator = ',' | '.';
+
+export interface CsvColumnMapping {
+  date: number;
+  amount: number;
+  guest: number;
+  type: number;
+  fee: number;
+  description: number;
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+}
+
+export interface CsvPreset {
+  id: string;
+  label: string;
+  // Candidate header names (lowercase) for each mapped column, in order of preference
+  headers: Record<'date' | 'amount' | 'guest' | 'type' | 'fee' | 'description', string[]>;
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+  // Rows whose type column matches are transfers/summaries, not earnings
+  skipTypes?: RegExp;
+  // Channel of the imported earnings; fee columns become its platform fees
+  channel?: BookingChannel;
+}
+
+export interface CsvPreviewRow {
+  line: number;
+  transactions: Transaction[];
+  errors: string[];
+  skipped: boolean;
+  duplicate: boolean;
+}
+
+export const CSV_PRESETS: CsvPreset[] = [
+  {
+    id: 'airbnb',
+    label: 'Airbnb',
+    headers: {
+      date: ['start date', 'data de início', 'date', 'data'],
+      amount: ['gross earnings', 'ganhos brutos', 'amount', 'valor'],
+      guest: ['guest', 'hóspede'],
+      type: ['type', 'tipo'],
+      fee: ['host fee', 'taxa de serviço', 'taxa do anfitrião'],
+      description: ['confirmation code', 'código de confirmação', 'listing', 'anúncio']
+    },
+    dateFormat: 'mm/dd/yyyy',
+    decimalSeparator: '.',
+    skipTypes: /payout|repasse|pagamento/i,
+    channel: BookingChannel.AIRBNB
+  },
+  {
+    id: 'booking',
+    label: 'Booking.com',
+    headers: {
+      date: ['check-in', 'arrival', 'chegada', 'data de chegada'],
+      amount: ['amount', 'final amount', 'valor', 'preço', 'price'],
+      guest: ['guest name', 'booker name', 'nome do hóspede', 'hóspede'],
+      type: ['reservation status', 'status', 'status da reserva'],
+      fee: ['commission', 'commission amount', 'comissão', 'valor da comissão'],
+      description: ['reservation number', 'book number', 'número da reserva']
+    },
+    dateFormat: 'yyyy-mm-dd',
+    decimalSeparator: '.',
+    skipTypes: /cancel|no.?show/i,
+    channel: BookingChannel.BOOKING
+  },
+  {
+    id: 'generic',
+    label: 'Planilha genérica',
+    headers: {
+      date: ['data', 'date'],
+      amount: ['valor', 'amount'],
+      guest: ['hóspede', 'hospede', 'guest'],
+      type: ['tipo', 'type'],
+      fee: ['taxa', 'fee'],
+      description: ['descrição', 'descricao', 'description']
+    },
+    dateFormat: 'dd/mm/yyyy',
+    decimalSeparator: ','
+  }
+];
+
+// Splits CSV text into rows, honouring quoted fields. The delimiter is inferred from the header line.
+export const parseCsv = (content: string): string[][] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const headerLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [';', '\t', ','].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim()); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim()); field = '';
+      if (row.some(cell => cell !== '')) rows.push(row);
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+  row.push(field.trim());
+  if (row.some(cell => cell !== '')) rows.push(row);
+  return rows;
+};
+
+export const parseAmount = (value: string, decimalSeparator: DecimalSeparator): number | null => {
+  let cleaned = value.replace(/[^\d,.\-()]/g, '');
+  if (!cleaned) return null;
+  const negative = cleaned.includes('-') || /^\(.*\)$/.test(cleaned);
+  cleaned = cleaned.replace(/[-()]/g, '');
+  cleaned = decimalSeparator === ','
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+  const parsed = parseFloat(cleaned);
+  if (isNaN(parsed)) return null;
+  return negative ? -parsed : parsed;
+};
+
+// Returns a 'YYYY-MM-DD' key, or null when the value does not match the format.
+export const parseDateValue = (value: string, format: DateFormat): string | null => {
+  const parts = value.trim().split(/[\s T]/)[0].split(/[/.-]/).map(p => parseInt(p, 10));
+  if (parts.length !== 3 || parts.some(isNaN)) return null;
+  let [year, month, day] = [0, 0, 0];
+  if (format === 'dd/mm/yyyy') [day, month, year] = parts;
+  else if (format === 'mm/dd/yyyy') [month, day, year] = parts;
+  else [year, month, day] = parts;
+  if (year < 100) year += 2000;
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const findColumn = (headers: string[], candidates: string[]): number => {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  for (const candidate of candidates) {
+    const idx = normalized.indexOf(candidate);
+    if (idx >= 0) return idx;
+  }
+  return -1;
+};
+
+export const buildMappingFromPreset = (headers: string[], preset: CsvPreset): CsvColumnMapping => ({
+  date: findColumn(headers, preset.headers.date),
+  amount: findColumn(headers, preset.headers.amount),
+  guest: findColumn(headers, preset.headers.guest),
+  type: findColumn(headers, preset.headers.type),
+  fee: findColumn(headers, preset.headers.fee),
+  description: findColumn(headers, preset.headers.description),
+  dateFormat: preset.dateFormat,
+  decimalSeparator: preset.decimalSeparator
+});
+
+// Picks the preset that recognises the most columns of the file.
+export const detectPreset = (headers: string[]): CsvPreset => {
+  const score = (preset: CsvPreset) => Object.values(preset.headers).filter(c => findColumn(headers, c) >= 0).length;
+  return CSV_PRESETS.reduce((best, preset) => score(preset) > score(best) ? preset : best, CSV_PRESETS[CSV_PRESETS.length - 1]);
+};
+
+const duplicateKey = (t: Pick<Transaction, 'date' | 'type' | 'amount' | 'guestName'>) =>
+  `${t.date}|${t.type}|${t.amount.toFixed(2)}|${(t.guestName || '').trim().toLowerCase()}`;
+
+// Rows are imported into propertyId, so only that property's records make a row a duplicate.
+export const buildCsvPreview = (
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  preset: CsvPreset,
+  existing: Transaction[],
+  propertyId: string
+): CsvPreviewRow[] => {
+  const seen = new Set(filterByProperty(existing, propertyId).map(duplicateKey));
+  const cell = (row: string[], idx: number) => (idx >= 0 ? row[idx] ?? '' : '');
+
+  return rows.slice(1).map((row, idx) => {
+    const errors: string[] = [];
+    const typeValue = cell(row, mapping.type);
+    if (preset.skipTypes && typeValue && preset.skipTypes.test(typeValue)) {
+      return { line: idx + 2, transactions: [], errors, skipped: true, duplicate: false };
+    }
+
+    const date = parseDateValue(cell(row, mapping.date), mapping.dateFormat);
+    const amount = parseAmount(cell(row, mapping.amount), mapping.decimalSeparator);
+    const fee = mapping.fee >= 0 ? parseAmount(cell(row, mapping.fee), mapping.decimalSeparator) : null;
+    if (mapping.date < 0) errors.push('Coluna de data não mapeada');
+    else if (!date) errors.push(`Data inválida: "${cell(row, mapping.date)}"`);
+    if (mapping.amount < 0) errors.push('Coluna de valor não mapeada');
+    else if (amount === null) errors.push(`Valor inválido: "${cell(row, mapping.amount)}"`);
+    else if (amount === 0) errors.push('Valor zerado');
+    if (errors.length > 0 || !date || amount === null) {
+      return { line: idx + 2, transactions: [], errors, skipped: false, duplicate: false };
+    }
+
+    const guestName = cell(row, mapping.guest) || undefined;
+    const reference = cell(row, mapping.description);
+    const isExpense = amount < 0 || /despesa|expense|débito|debit/i.test(typeValue);
+    const transactions: Transaction[] = [{
+      id: crypto.randomUUID(),
+      propertyId,
+      date,
+      type: isExpense ? TransactionType.EXPENSE : TransactionType.INCOME,
+      category: isExpense ? Category.OTHERS : Category.RENTAL,
+      amount: Math.abs(amount),
+      description: [preset.label, reference].filter(Boolean).join(' • '),
+      guestName: isExpense ? undefined : guestName,
+      isPaid: true,
+      channel: isExpense ? undefined : preset.channel
+    }];
+    if (fee) {
+      transactions.push({
+        id: crypto.randomUUID(),
+        propertyId,
+        date,
+        type: TransactionType.EXPENSE,
+        category: Category.PLATFORM_FEES,
+        amount: Math.abs(fee),
+        description: [`Taxa ${preset.label}`, reference].filter(Boolean).join(' • '),
+        isPaid: true,
+        channel: preset.channel,
+        feeFor: isExpense ? undefined : transactions[0].id,
+        importedFee: true
+      });
+    }
+
+    const key = duplicateKey(transactions[0]);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { line: idx + 2, transactions, errors, skipped: false, duplicate };
+  });
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Category, Transaction, TransactionType } from '../types';
+import { DEFAULT_CATEGORIES } from './categoryService';
+import { buildForecast, buildSeasonality, MIN_FORECAST_MONTHS } from './forecastService';
+
+const record = (id: string, date: string, type: TransactionType, amount: number): Transaction => ({
+  id, date, type, category: type === TransactionType.INCOME ? Category.RENTAL : Category.CLEANING, amount, description: '', isPaid: true
+});
+
+// Two years of R$ 3000 in January and R$ 1000 in every other month, with R$ 500 of expenses each month
+const history = Array.from({ length: 24 }, (_, idx) => {
+  const month = String(idx % 12 + 1).padStart(2, '0');
+  const year = 2024 + Math.floor(idx / 12);
+  return [
+    record(`i${idx}`, `${year}-${month}-10`, TransactionType.INCOME, idx % 12 === 0 ? 3000 : 1000),
+    record(`e${idx}`, `${year}-${month}-20`, TransactionType.EXPENSE, 500)
+  ];
+}).flat();
+
+describe('buildSeasonality', () => {
+  it('averages each calendar month over the completed history', () => {
+    const seasonality = buildSeasonality(history, DEFAULT_CATEGORIES, new Date(2026, 0, 15));
+    expect(seasonality.historyMonths).toBe(24);
+    expect(seasonality.months[0]).toMatchObject({ avgIncome: 3000, avgExpenses: 500, avgBalance: 2500, years: 2 });
+    expect(seasonality.best?.month).toBe(0);
+    expect(seasonality.worst?.avgIncome).toBe(1000);
+  });
+
+  it('counts the months without records in between as zero', () => {
+    const txns = [record('a', '2025-01-10', TransactionType.INCOME, 900), record('b', '2025-03-10', TransactionType.INCOME, 300)];
+    const seasonality = buildSeasonality(txns, DEFAULT_CATEGORIES, new Date(2025, 3, 1));
+    expect(seasonality.months.slice(0, 3).map(m => [m.avgIncome, m.years])).toEqual([[900, 1], [0, 1], [300, 1]]);
+  });
+});
+
+describe('buildForecast', () => {
+  it('repeats a flat seasonal history with a narrow band', () => {
+    const forecast = buildForecast(history, DEFAULT_CATEGORIES, new Date(2026, 0, 15));
+    expect(forecast).toHaveLength(12);
+    expect(forecast[0].key).toBe('2026-01');
+    expect(forecast[0].balance).toBeCloseTo(2500);
+    expect(forecast[1].balance).toBeCloseTo(500);
+    expect(forecast[1].balanceHigh - forecast[1].balanceLow).toBeLessThan(1);
+  });
+
+  it('needs a minimum history', () => {
+    const short = history.slice(0, (MIN_FORECAST_MONTHS - 1) * 2);
+    expect(buildForecast(short, DEFAULT_CATEGORIES, new Date(2024, MIN_FORECAST_MONTHS - 1, 15))).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import { Category, CategoryDefinition, Transaction, TransactionType } from "../types";
+import { getRootCategoryId } from "./categoryService";
+import { parseDateKey } from "./periodService";
+
+// Width of the forecast band: ±1.28 standard deviations of the fit error covers ~80% of months.
+const BAND_Z = 1.28;
+
+// Below this many months of history there is no trend to fit.
+export const MIN_FORECAST_MONTHS = 3;
+
+interface MonthlyPoint {
+  year: number;
+  month: number;
+  income: number;
+  expenses: number;
+}
+
+export interface SeasonalityMonth {
+  month: number;
+  name: string;
+  avgIncome: number;
+  avgExpenses: number;
+  avgBalance: number;
+  // How many years of history the average is based on
+  years: number;
+}
+
+export interface Seasonality {
+  months: SeasonalityMonth[];
+  // By average rental income, among the months with history
+  best: SeasonalityMonth | null;
+  worst: SeasonalityMonth | null;
+  historyMonths: number;
+}
+
+export interface ForecastMonth {
+  key: string;
+  name: string;
+  income: number;
+  expenses: number;
+  balance: number;
+  balanceLow: number;
+  balanceHigh: number;
+}
+
+const MONTH_NAMES = Array.from({ length: 12 }, (_, month) => new Date(2000, month, 1).toLocaleDateString('pt-BR', { month: 'short' }).replace('.', ''));
+
+// Rental income and all expenses per month, from the first month with records to the last one
+// completed before refDate. Months without records in between count as zero.
+const buildMonthlyHistory = (txns: Transaction[], categories: CategoryDefinition[], refDate: Date): MonthlyPoint[] => {
+  if (txns.length === 0) return [];
+  const totals = new Map<string, { income: number; expenses: number }>();
+  txns.forEach(t => {
+    const key = t.date.slice(0, 7);
+    const entry = totals.get(key) ?? { income: 0, expenses: 0 };
+    if (t.type === TransactionType.EXPENSE) entry.expenses += t.amount;
+    else if (getRootCategoryId(categories, t.category) === Category.RENTAL) entry.income += t.amount;
+    totals.set(key, entry);
+  });
+
+  const first = parseDateKey(txns.reduce((min, t) => (t.date < min ? t.date : min), txns[0].date));
+  const points: MonthlyPoint[] = [];
+  for (let cursor = new Date(first.getFullYear(), first.getMonth(), 1); cursor < new Date(refDate.getFullYear(), refDate.getMonth(), 1); cursor = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1)) {
+    const key = `${cursor.getFullYear()}-${String(cursor.getMonth() + 1).padStart(2, '0')}`;
+    points.push({ year: cursor.getFullYear(), month: cursor.getMonth(), ...(totals.get(key) ?? { income: 0, expenses: 0 }) });
+  }
+  return points;
+};
+
+export const buildSeasonality = (txns: Transaction[], categories: CategoryDefinition[], refDate: Date): Seasonality => {
+  const history = buildMonthlyHistory(txns, categories, refDate);
+  const months = MONTH_NAMES.map((name, month) => {
+    const points = history.filter(p => p.month === month);
+    const avgIncome = points.length > 0 ? points.reduce((acc, p) => acc + p.income, 0) / points.length : 0;
+    const avgExpenses = points.length > 0 ? points.reduce((acc, p) => acc + p.expenses, 0) / points.length : 0;
+    return { month, name, avgIncome, avgExpenses, avgBalance: avgIncome - avgExpenses, years: points.length };
+  });
+  const ranked = months.filter(m => m.years > 0).sort((a, b) => b.avgIncome - a.avgIncome);
+  return {
+    months,
+    best: ranked[0] ?? null,
+    worst: ranked.length > 1 ? ranked[ranked.length - 1] : null,
+    historyMonths: history.length
+  };
+};
+
+// Multiplicative seasonal index per calendar month, then a least-squares line through the deseasonalised series.
+// Months never seen in the history get a neutral index.
+const fitSeries = (history: MonthlyPoint[], values: number[]) => {
+  const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+  const index = Array.from({ length: 12 }, (_, month) => {
+    const own = values.filter((_, i) => history[i].month === month);
+    if (own.length === 0 || mean <= 0) return 1;
+    return own.reduce((acc, v) => acc + v, 0) / own.length / mean;
+  });
+
+  const n = values.length;
+  const deseasonalised = values.map((v, i) => (index[history[i].month] > 0 ? v / index[history[i].month] : 0));
+  const meanT = (n - 1) / 2;
+  const meanD = deseasonalised.reduce((acc, v) => acc + v, 0) / n;
+  const covariance = deseasonalised.reduce((acc, v, t) => acc + (t - meanT) * (v - meanD), 0);
+  const variance = deseasonalised.reduce((acc, _, t) => acc + (t - meanT) ** 2, 0);
+  const slope = variance > 0 ? covariance / variance : 0;
+  const intercept = meanD - slope * meanT;
+
+  const predict = (t: number, month: number) => Math.max(0, (intercept + slope * t) * index[month]);
+  const squaredErrors = values.reduce((acc, v, t) => acc + (v - predict(t, history[t].month)) ** 2, 0);
+  return { predict, sigma: Math.sqrt(squaredErrors / Math.max(1, n - 2)) };
+};
+
+// Next 12 months starting at the month of refDate. The band widens with the distance from the last known month.
+export const buildForecast = (txns: Transaction[], categories: CategoryDefinition[], refDate: Date): ForecastMonth[] => {
+  const history = buildMonthlyHistory(txns, categories, refDate);
+  if (history.length < MIN_FORECAST_MONTHS) return [];
+  const income = fitSeries(history, history.map(p => p.income));
+  const expenses = fitSeries(history, history.map(p => p.expenses));
+  const sigma = Math.sqrt(income.sigma ** 2 + expenses.sigma ** 2);
+
+  return Array.from({ length: 12 }, (_, ahead) => {
+    const date = new Date(refDate.getFullYear(), refDate.getMonth() + ahead, 1);
+    const t = history.length + ahead;
+    const monthIncome = income.predict(t, date.getMonth());
+    const monthExpenses = expenses.predict(t, date.getMonth());
+    const balance = monthIncome - monthExpenses;
+    const margin = BAND_Z * sigma * Math.sqrt(1 + (ahead + 1) / history.length);
+    return {
+      key: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`,
+      name: `${MONTH_NAMES[date.getMonth()]}/${String(date.getFullYear()).slice(2)}`,
+      income: monthIncome,
+      expenses: monthExpenses,
+      balance,
+      balanceLow: balance - margin,
+      balanceHigh: balance + margin
+    };
+  });
+};
@@ -3,7 +3,9 @@ import { Transaction } from "../types";
 
 const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY || '');
 
-export const getFinancialInsights = async (transactions: Transaction[], period: string) => {
+// `subject` describes what is being analysed, e.g. a single flat or the whole portfolio.
+// `pricing` carries the locally computed rate suggestions, so the advice can quote real numbers.
+export const getFinancialInsights = async (transactions: Transaction[], period: string, subject: string, pricing?: string) => {
   if (transactions.length === 0) return "Ainda não há dados suficientes neste período para uma análise detalhada. Adicione receitas e despesas para começar!";
 
   const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
@@ -11,15 +13,18 @@ export const getFinancialInsights = async (transactions: Transaction[], period:
   const prompt = `
     Atue como um Gestor de Propriedades de Alto Padrão e Especialista Financeiro (CFO) focado em imóveis de temporada (Airbnb/Booking).
     
-    Contexto: Estamos analisando o desempenho financeiro do flat em Porto de Galinhas no período: *${period}*.
+    Contexto: Estamos analisando o desempenho financeiro de ${subject} no período: *${period}*.
     
     Dados Financeiros (JSON):
     ${JSON.stringify(transactions)}
-
+    ${pricing ? `
+    Referência de Preços (calculada a partir do histórico de estadias):
+    ${pricing}
+` : ''}
     Gere um relatório conciso, estratégico e direto (máximo 4 parágrafos) abordando:
     1. **Saúde Financeira:** O lucro obtido é satisfatório para o período? Qual a margem aproximada?
     2. **Análise de Custos:** Identifique o maior vilão das despesas e se ele está desproporcional.
-    3. **Oportunidades:** Uma dica prática e acionável para aumentar a diária média ou reduzir um custo específico observado.
+    3. **Oportunidades:** Uma dica prática e acionável para aumentar a diária média ou reduzir um custo específico observado.${pricing ? ' Ao falar de diárias, use os valores da Referência de Preços.' : ''}
     
     Tom de voz: Profissional, encorajador e focado em resultados (ROI). Use formatação Markdown (negrito, tópicos) para facilitar a leitura.
   `;
@@ -0,0 +1,107 @@
+import { Booking, Guest, Transaction, TransactionType } from "../types";
+
+export const GUESTS_STORAGE_KEY = 'porto_guests';
+
+// Case, accents and spacing are ignored when comparing names.
+export const normalizeGuestName = (name: string): string => {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+};
+
+export const findGuestByName = (guests: Guest[], name: string): Guest | undefined => {
+  const key = normalizeGuestName(name);
+  return key ? guests.find(g => normalizeGuestName(g.name) === key) : undefined;
+};
+
+export interface GuestSummary {
+  // Guest id, or the normalised name for guests not in the directory yet
+  key: string;
+  guest?: Guest;
+  name: string;
+  stays: number;
+  // Rental income received from the guest
+  lifetimeValue: number;
+  lastStay?: string;
+}
+
+// Records point to a guest by id; older ones (and names typed without a directory entry) match by name.
+const getGuestKey = (record: { guestId?: string; guestName?: string }, guests: Guest[]): string | null => {
+  if (record.guestId && guests.some(g => g.id === record.guestId)) return record.guestId;
+  if (!record.guestName?.trim()) return null;
+  return findGuestByName(guests, record.guestName)?.id ?? `name:${normalizeGuestName(record.guestName)}`;
+};
+
+// One stay per booking; income recorded without a booking counts as a stay of its own.
+export const buildGuestDirectory = (guests: Guest[], txns: Transaction[], bookings: Booking[]): GuestSummary[] => {
+  const entries = new Map<string, GuestSummary & { stayIds: Set<string> }>();
+  guests.forEach(guest => entries.set(guest.id, { key: guest.id, guest, name: guest.name, stays: 0, lifetimeValue: 0, stayIds: new Set() }));
+  const entryFor = (key: string, name: string) => {
+    if (!entries.has(key)) entries.set(key, { key, name: name.trim(), stays: 0, lifetimeValue: 0, stayIds: new Set() });
+    return entries.get(key)!;
+  };
+  const addStay = (entry: GuestSummary & { stayIds: Set<string> }, id: string, date: string) => {
+    entry.stayIds.add(id);
+    if (!entry.lastStay || date > entry.lastStay) entry.lastStay = date;
+  };
+
+  bookings.forEach(b => {
+    const key = getGuestKey(b, guests);
+    if (key) addStay(entryFor(key, b.guestName), b.id, b.checkIn);
+  });
+  txns.filter(t => t.type === TransactionType.INCOME).forEach(t => {
+    const key = getGuestKey(t, guests);
+    if (!key) return;
+    const entry = entryFor(key, t.guestName ?? '');
+    entry.lifetimeValue += t.amount;
+    if (!t.bookingId) addStay(entry, t.id, t.date);
+  });
+
+  return [...entries.values()]
+    .map(({ stayIds, ...entry }) => ({ ...entry, stays: stayIds.size }))
+    .sort((a, b) => b.lifetimeValue - a.lifetimeValue || a.name.localeCompare(b.name));
+};
+
+export interface DuplicateGuestNames {
+  key: string;
+  // Spellings found in the records, most used first
+  names: { name: string; count: number }[];
+}
+
+// Spellings of the same name (case, accents, spacing) used across rentals.
+export const findDuplicateGuestNames = (txns: Transaction[], bookings: Booking[]): DuplicateGuestNames[] => {
+  const groups = new Map<string, Map<string, number>>();
+  [...bookings, ...txns].forEach(record => {
+    const name = record.guestName?.trim();
+    if (!name) return;
+    const key = normalizeGuestName(name);
+    const spellings = groups.get(key) ?? new Map<string, number>();
+    spellings.set(name, (spellings.get(name) ?? 0) + 1);
+    groups.set(key, spellings);
+  });
+  return [...groups.entries()]
+    .filter(([, spellings]) => spellings.size > 1)
+    .map(([key, spellings]) => ({
+      key,
+      names: [...spellings.entries()].map(([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count)
+    }));
+};
+
+// Points to the guest, under its name, every rental already linked to it or to one of `mergedIds`,
+// and the unlinked ones under one of `names`. Used when registering, renaming and merging guests.
+export const linkRecordsToGuest = <T extends { guestId?: string; guestName?: string }>(records: T[], guest: Guest, names: string[], mergedIds: string[] = []): T[] => {
+  const keys = new Set([...names, guest.name].map(normalizeGuestName));
+  return records.map(r => {
+    const matches = r.guestId
+      ? r.guestId === guest.id || mergedIds.includes(r.guestId)
+      : !!r.guestName && keys.has(normalizeGuestName(r.guestName));
+    return matches && (r.guestId !== guest.id || r.guestName !== guest.name) ? { ...r, guestId: guest.id, guestName: guest.name } : r;
+  });
+};
+
+export const loadGuests = (): Guest[] => {
+  try {
+    const saved = localStorage.getItem(GUESTS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
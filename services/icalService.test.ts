@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { BlockedDate, Booking, BookingChannel } from '../types';
+import { toggleBlockedNight } from './calendarService';
+import { buildICalFeed, detectStays, parseICal } from './icalService';
+
+const calendar = (...events: string[][]) => ['BEGIN:VCALENDAR', ...events.flatMap(e => ['BEGIN:VEVENT', ...e, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+
+const blockedUids = (feed: string) => feed.split('\r\n').filter(line => line.startsWith('UID:blocked-'));
+
+const block = (blockedDates: BlockedDate[], ...dates: string[]) => dates.reduce((acc, date) => toggleBlockedNight(acc, 'default', date), blockedDates);
+
+describe('parseICal', () => {
+  it('unfolds long lines, reads DATE and DATE-TIME values and defaults to one night', () => {
+    const events = parseICal(calendar(
+      ['UID:a1', 'SUMMARY:Maria', ' Silva', 'DTSTART;VALUE=DATE:20260110', 'DTEND;VALUE=DATE:20260113'],
+      ['UID:a2', 'SUMMARY:Reserved', 'DTSTART:20260120T150000']
+    ));
+    expect(events).toEqual([
+      { uid: 'a1', summary: 'MariaSilva', description: '', start: '2026-01-10', end: '2026-01-13' },
+      { uid: 'a2', summary: 'Reserved', description: '', start: '2026-01-20', end: '2026-01-21' }
+    ]);
+  });
+});
+
+describe('detectStays', () => {
+  it('tells stays from blocked nights and flags the ones already imported', () => {
+    const content = calendar(
+      ['UID:s1', 'SUMMARY:Reserved', 'DESCRIPTION:airbnb.com', 'DTSTART;VALUE=DATE:20260110', 'DTEND;VALUE=DATE:20260113'],
+      ['UID:s2', 'SUMMARY:Airbnb (Not available)', 'DTSTART;VALUE=DATE:20260101', 'DTEND;VALUE=DATE:20260103']
+    );
+    const booking: Booking = {
+      id: 'b1', checkIn: '2026-01-10', checkOut: '2026-01-13', guestName: '', channel: BookingChannel.AIRBNB, grossAmount: 0, guests: 1, externalUid: 's1'
+    };
+    const stays = detectStays(content, [booking], []);
+    expect(stays.map(s => [s.uid, s.kind, s.nights, s.guestName, s.alreadyImported])).toEqual([
+      ['s2', 'blocked', 2, '', false],
+      ['s1', 'stay', 3, '', true]
+    ]);
+    expect(stays[0].channel).toBe(BookingChannel.AIRBNB);
+  });
+});
+
+describe('buildICalFeed', () => {
+  it('keeps the UID of a blocked range when it is extended backward', () => {
+    const blocked = block([], '2026-03-10', '2026-03-11');
+    const extended = block(blocked, '2026-03-09');
+    expect(blockedUids(buildICalFeed([], extended))).toEqual(blockedUids(buildICalFeed([], blocked)));
+    expect(buildICalFeed([], extended)).toContain('DTSTART;VALUE=DATE:20260309');
+  });
+
+  it('gives each part of a split range its own UID', () => {
+    const split = block(block([], '2026-03-10', '2026-03-11', '2026-03-12'), '2026-03-11');
+    const uids = blockedUids(buildICalFeed([], split));
+    expect(uids).toHaveLength(2);
+    expect(new Set(uids).size).toBe(2);
+  });
+
+  it('leaves out nights imported from a platform calendar', () => {
+    const imported: BlockedDate = { date: '2026-03-20', reason: 'Bloqueio Airbnb', externalUid: 'x1' };
+    expect(blockedUids(buildICalFeed([], [imported, ...block([], '2026-03-10')]))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,207 @@
+import { BlockedDate, Booking, BookingChannel } from "../types";
+import { addDays, daysBetween, parseDateKey, toDateKey } from "./periodService";
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  start: string;
+  end: string;
+}
+
+export interface DetectedStay {
+  uid: string;
+  checkIn: string;
+  checkOut: string;
+  nights: number;
+  guestName: string;
+  channel: BookingChannel;
+  kind: 'stay' | 'blocked';
+  alreadyImported: boolean;
+}
+
+// Summaries the platforms use for nights that are closed but carry no guest.
+const BLOCKED_SUMMARY = /not available|indispon[ií]vel|blocked|bloqueado|closed/i;
+// Summaries that mark a reservation without revealing the guest name.
+const GENERIC_SUMMARY = /^(reserved|reservado|reserva|booked|airbnb)$/i;
+
+const unescapeText = (value: string): string => {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1');
+};
+
+// Accepts DATE (20260110) and DATE-TIME (20260110T150000[Z]) values and returns a 'YYYY-MM-DD' key.
+const parseICalDate = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour && utc) {
+    return toDateKey(new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)));
+  }
+  return `${year}-${month}-${day}`;
+};
+
+export const parseICal = (content: string): ICalEvent[] => {
+  // Long lines are folded with CRLF followed by a space or tab (RFC 5545 §3.1)
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ICalEvent[] = [];
+  let current: Partial<ICalEvent> | null = null;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') {
+      current = { summary: '', description: '' };
+      return;
+    }
+    if (line === 'END:VEVENT') {
+      const event = current;
+      current = null;
+      if (!event?.start) return;
+      events.push({
+        uid: event.uid || `${event.start}-${event.summary}`,
+        summary: event.summary || '',
+        description: event.description || '',
+        start: event.start,
+        end: event.end && event.end > event.start ? event.end : toDateKey(addDays(parseDateKey(event.start), 1))
+      });
+      return;
+    }
+    if (!current) return;
+
+    const separator = line.indexOf(':');
+    if (separator < 0) return;
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (name) {
+      case 'UID': current.uid = value; break;
+      case 'SUMMARY': current.summary = unescapeText(value); break;
+      case 'DESCRIPTION': current.description = unescapeText(value); break;
+      case 'DTSTART': current.start = parseICalDate(value) ?? undefined; break;
+      case 'DTEND': current.end = parseICalDate(value) ?? undefined; break;
+    }
+  });
+
+  return events;
+};
+
+export const detectChannel = (content: string): BookingChannel => {
+  if (/airbnb/i.test(content)) return BookingChannel.AIRBNB;
+  if (/booking\.com/i.test(content)) return BookingChannel.BOOKING;
+  return BookingChannel.OTHER;
+};
+
+export const detectStays = (content: string, bookings: Booking[], blockedDates: BlockedDate[]): DetectedStay[] => {
+  const channel = detectChannel(content);
+  const knownUids = new Set([
+    ...bookings.map(b => b.externalUid),
+    ...blockedDates.map(b => b.externalUid)
+  ].filter(Boolean));
+
+  return parseICal(content)
+    .map(event => {
+      const summary = event.summary.trim();
+      const isBlocked = BLOCKED_SUMMARY.test(summary);
+      return {
+        uid: event.uid,
+        checkIn: event.start,
+        checkOut: event.end,
+        nights: daysBetween(parseDateKey(event.start), parseDateKey(event.end)),
+        guestName: isBlocked || GENERIC_SUMMARY.test(summary) ? '' : summary,
+        channel,
+        kind: isBlocked ? 'blocked' as const : 'stay' as const,
+        alreadyImported: knownUids.has(event.uid)
+      };
+    })
+    .sort((a, b) => a.checkIn.localeCompare(b.checkIn));
+};
+
+// Expands an imported blocked event into one BlockedDate per night.
+export const expandBlockedStay = (stay: DetectedStay): BlockedDate[] => {
+  const dates: BlockedDate[] = [];
+  const checkOut = parseDateKey(stay.checkOut);
+  for (let cursor = parseDateKey(stay.checkIn); cursor < checkOut; cursor = addDays(cursor, 1)) {
+    dates.push({ date: toDateKey(cursor), reason: `Bloqueio ${stay.channel}`, externalUid: stay.uid });
+  }
+  return dates;
+};
+
+const escapeText = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+};
+
+// Lines longer than 75 octets must be folded (RFC 5545 §3.1).
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatICalDate = (key: string): string => key.replace(/-/g, '');
+
+const formatICalTimestamp = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// Merges blocked nights into contiguous [start, end) ranges. A range takes the blockId of its first night that has one.
+export const groupBlockedRanges = (blockedDates: BlockedDate[]): { start: string; end: string; blockId?: string }[] => {
+  const ranges: { start: string; end: string; blockId?: string }[] = [];
+  const byDate = new Map(blockedDates.map(b => [b.date, b]));
+  [...byDate.keys()].sort().forEach(date => {
+    const last = ranges[ranges.length - 1];
+    const { blockId } = byDate.get(date)!;
+    if (last && last.end === date) {
+      last.end = toDateKey(addDays(parseDateKey(date), 1));
+      last.blockId = last.blockId ?? blockId;
+    } else {
+      ranges.push({ start: date, end: toDateKey(addDays(parseDateKey(date), 1)), blockId });
+    }
+  });
+  return ranges;
+};
+
+// UIDs derive from the booking id / the range's blockId, so re-imports on the platforms update instead of duplicating.
+// Nights imported from a platform's calendar (externalUid) are left out: that platform already has them.
+export const buildICalFeed = (bookings: Booking[], blockedDates: BlockedDate[], now: Date = new Date()): string => {
+  const stamp = formatICalTimestamp(now);
+  const event = (uid: string, start: string, end: string, summary: string) => [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatICalDate(start)}`,
+    `DTEND;VALUE=DATE:${formatICalDate(end)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT'
+  ];
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Porto Financas//Flat Manager//PT-BR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Porto Finanças',
+    ...[...bookings]
+      .filter(b => b.checkOut > b.checkIn)
+      .sort((a, b) => a.checkIn.localeCompare(b.checkIn))
+      .flatMap(b => event(`booking-${b.id}@porto-financas`, b.checkIn, b.checkOut, `Reservado (${b.channel})`)),
+    ...groupBlockedRanges(blockedDates.filter(b => !b.externalUid))
+      // Nights blocked before blockId existed fall back to the range start
+      .flatMap(range => event(`blocked-${range.blockId ?? range.start}@porto-financas`, range.start, range.end, 'Bloqueado')),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { Category, Property, Transaction, TransactionType } from '../types';
+import { DEFAULT_CATEGORIES } from './categoryService';
+import { buildOwnerStatement, DEFAULT_OWNER_CONFIG } from './ownerStatementService';
+
+const property: Property = { id: 'p1', name: 'Flat 2', color: '#6366F1', owner: { ...DEFAULT_OWNER_CONFIG, name: 'João', feePercent: 20, feeBase: 'net' } };
+
+const record = (id: string, type: TransactionType, category: string, amount: number, extra: Partial<Transaction> = {}): Transaction => ({
+  id, date: '2026-03-10', type, category, amount, description: '', isPaid: true, propertyId: 'p1', ...extra
+});
+
+describe('buildOwnerStatement', () => {
+  const march = new Date(2026, 2, 15);
+
+  it('charges the owner for income, platform fees and owner-paid expenses only', () => {
+    const txns = [
+      record('i1', TransactionType.INCOME, Category.RENTAL, 2000),
+      record('f1', TransactionType.EXPENSE, Category.PLATFORM_FEES, 200),
+      record('u1', TransactionType.EXPENSE, Category.UTILITIES, 150),
+      record('c1', TransactionType.EXPENSE, Category.CLEANING, 100),
+      record('o1', TransactionType.INCOME, Category.RENTAL, 900, { propertyId: 'p2' })
+    ];
+    const statement = buildOwnerStatement(property, txns, DEFAULT_CATEGORIES, march)!;
+    expect(statement.grossIncome).toBe(2000);
+    expect(statement.platformFees).toBe(200);
+    expect(statement.expenses.map(line => [line.id, line.amount])).toEqual([[Category.UTILITIES, 150]]);
+    expect(statement.feeBase).toBe(1800);
+    expect(statement.managementFee).toBe(360);
+    expect(statement.netTransfer).toBe(1290);
+  });
+
+  it('counts items in the month they were settled and leaves out pending ones', () => {
+    const txns = [
+      record('i1', TransactionType.INCOME, Category.RENTAL, 1000, { date: '2026-02-25', paidAt: '2026-03-02' }),
+      record('i2', TransactionType.INCOME, Category.RENTAL, 500, { paidAt: '2026-04-01' }),
+      record('i3', TransactionType.INCOME, Category.RENTAL, 700, { isPaid: false })
+    ];
+    const statement = buildOwnerStatement(property, txns, DEFAULT_CATEGORIES, march)!;
+    expect(statement.transactions.map(t => t.id)).toEqual(['i1']);
+    expect(statement.grossIncome).toBe(1000);
+  });
+
+  it('returns null for a property the user owns', () => {
+    expect(buildOwnerStatement({ ...property, owner: undefined }, [], DEFAULT_CATEGORIES, march)).toBeNull();
+  });
+});
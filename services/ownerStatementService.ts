@@ -0,0 +1,83 @@
+import { Category, CategoryDefinition, CategoryId, ManagementFeeBase, OwnerConfig, Property, Transaction, TransactionType } from "../types";
+import { findCategory, getRootCategoryId } from "./categoryService";
+import { filterByProperty } from "./propertyService";
+import { getPeriodBounds, toDateKey } from "./periodService";
+
+export const MANAGEMENT_FEE_BASE_LABELS: Record<ManagementFeeBase, string> = {
+  gross: 'Receita bruta',
+  net: 'Receita líquida de taxas'
+};
+
+export const DEFAULT_OWNER_CONFIG: OwnerConfig = {
+  name: '',
+  feePercent: 20,
+  feeBase: 'gross',
+  ownerPaidCategories: [Category.UTILITIES, Category.TAXES]
+};
+
+export interface OwnerStatementLine {
+  id: CategoryId;
+  name: string;
+  amount: number;
+}
+
+export interface OwnerStatement {
+  property: Property;
+  owner: OwnerConfig;
+  grossIncome: number;
+  platformFees: number;
+  // Owner-paid expenses grouped by top-level category
+  expenses: OwnerStatementLine[];
+  totalExpenses: number;
+  feeBase: number;
+  managementFee: number;
+  // Negative when the month's costs exceed the income and the owner owes the manager
+  netTransfer: number;
+  transactions: Transaction[];
+}
+
+// Month of refDate for one managed property. Only settled items count, in the month they were settled (paidAt, or
+// date for older records), since the result is what gets transferred.
+export const buildOwnerStatement = (property: Property, txns: Transaction[], categories: CategoryDefinition[], refDate: Date): OwnerStatement | null => {
+  const owner = property.owner;
+  if (!owner) return null;
+  const { start, end } = getPeriodBounds('monthly', refDate)!;
+  const startKey = toDateKey(start);
+  const endKey = toDateKey(end);
+  // Income, platform fees and owner-paid expenses; costs the manager bears are left out
+  const charged = filterByProperty(txns, property.id).filter(t => {
+    const settledOn = t.paidAt ?? t.date;
+    if (!t.isPaid || settledOn < startKey || settledOn >= endKey) return false;
+    const rootId = getRootCategoryId(categories, t.category);
+    return t.type === TransactionType.INCOME || rootId === Category.PLATFORM_FEES || owner.ownerPaidCategories.includes(rootId);
+  });
+
+  const grossIncome = charged.filter(t => t.type === TransactionType.INCOME).reduce((acc, t) => acc + t.amount, 0);
+  let platformFees = 0;
+  const ownerPaid = new Map<CategoryId, number>();
+  charged.filter(t => t.type === TransactionType.EXPENSE).forEach(t => {
+    const rootId = getRootCategoryId(categories, t.category);
+    if (rootId === Category.PLATFORM_FEES) platformFees += t.amount;
+    else ownerPaid.set(rootId, (ownerPaid.get(rootId) ?? 0) + t.amount);
+  });
+  const lines = [...ownerPaid.entries()]
+    .map(([id, amount]) => ({ id, name: findCategory(categories, id)?.name ?? id, amount }))
+    .sort((a, b) => b.amount - a.amount);
+  const totalExpenses = lines.reduce((acc, line) => acc + line.amount, 0);
+
+  const feeBase = Math.max(0, owner.feeBase === 'gross' ? grossIncome : grossIncome - platformFees);
+  const managementFee = feeBase * owner.feePercent / 100;
+
+  return {
+    property,
+    owner,
+    grossIncome,
+    platformFees,
+    expenses: lines,
+    totalExpenses,
+    feeBase,
+    managementFee,
+    netTransfer: grossIncome - platformFees - totalExpenses - managementFee,
+    transactions: charged
+  };
+};
@@ -0,0 +1,50 @@
+import { Transaction, TransactionType } from "../types";
+import { daysBetween, parseDateKey } from "./periodService";
+
+export interface PendingItem {
+  transaction: Transaction;
+  dueDate: string;
+  // Negative when overdue
+  daysUntilDue: number;
+}
+
+export interface SettlementSummary {
+  realizedIncome: number;
+  realizedExpenses: number;
+  realizedBalance: number;
+  pendingIncome: number;
+  pendingExpenses: number;
+  projectedBalance: number;
+}
+
+export const getDueDate = (t: Transaction) => t.dueDate ?? t.date;
+
+// Open receivables and payables, earliest due date first.
+export const getPendingItems = (txns: Transaction[], todayKey: string): { receivables: PendingItem[]; payables: PendingItem[] } => {
+  const pending = txns
+    .filter(t => !t.isPaid)
+    .map(t => ({ transaction: t, dueDate: getDueDate(t), daysUntilDue: daysBetween(parseDateKey(todayKey), parseDateKey(getDueDate(t))) }))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  return {
+    receivables: pending.filter(item => item.transaction.type === TransactionType.INCOME),
+    payables: pending.filter(item => item.transaction.type === TransactionType.EXPENSE)
+  };
+};
+
+export const summarizeSettlement = (txns: Transaction[]): SettlementSummary => {
+  const total = (type: TransactionType, paid: boolean) => txns
+    .filter(t => t.type === type && t.isPaid === paid)
+    .reduce((acc, t) => acc + t.amount, 0);
+  const realizedIncome = total(TransactionType.INCOME, true);
+  const realizedExpenses = total(TransactionType.EXPENSE, true);
+  const pendingIncome = total(TransactionType.INCOME, false);
+  const pendingExpenses = total(TransactionType.EXPENSE, false);
+  return {
+    realizedIncome,
+    realizedExpenses,
+    realizedBalance: realizedIncome - realizedExpenses,
+    pendingIncome,
+    pendingExpenses,
+    projectedBalance: realizedIncome + pendingIncome - realizedExpenses - pendingExpenses
+  };
+};
@@ -0,0 +1,313 @@
+import { jsPDF } from "jspdf";
+import { CategoryDefinition, Transaction, TransactionType } from "../types";
+import { CategoryTotal } from "./aggregationService";
+import { getCategoryLabel } from "./categoryService";
+import { MANAGEMENT_FEE_BASE_LABELS, OwnerStatement } from "./ownerStatementService";
+import { parseDateKey } from "./periodService";
+
+export interface PdfReportData {
+  periodLabel: string;
+  // Property name, or a portfolio description for the consolidated view
+  scopeLabel: string;
+  summary: { income: number; expenses: number; balance: number; margin: number };
+  categories: CategoryTotal[];
+  balanceEvolution: { name: string; value: number }[];
+  transactions: Transaction[];
+  categoryDefinitions: CategoryDefinition[];
+}
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 16;
+const BRAND = '#0891B2';
+const BRAND_DARK = '#155E75';
+
+const formatCurrency = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Draws the balance evolution area chart on an offscreen canvas so it can be embedded as a PNG.
+const renderBalanceChart = (points: { name: string; value: number }[], width: number, height: number): string | null => {
+  if (points.length === 0) return null;
+  const scale = 3;
+  const canvas = document.createElement('canvas');
+  canvas.width = width * scale;
+  canvas.height = height * scale;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.scale(scale, scale);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+
+  const padding = { top: 12, right: 12, bottom: 24, left: 56 };
+  const values = points.map(p => p.value);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const spread = max - min || 1;
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const x = (idx: number) => padding.left + (points.length === 1 ? plotWidth / 2 : (idx / (points.length - 1)) * plotWidth);
+  const y = (value: number) => padding.top + (1 - (value - min) / spread) * plotHeight;
+
+  ctx.strokeStyle = '#E2E8F0';
+  ctx.fillStyle = '#64748B';
+  ctx.font = '10px Helvetica, Arial, sans-serif';
+  ctx.lineWidth = 1;
+  for (let i = 0; i <= 4; i++) {
+    const value = min + (spread * i) / 4;
+    ctx.beginPath();
+    ctx.moveTo(padding.left, y(value));
+    ctx.lineTo(width - padding.right, y(value));
+    ctx.stroke();
+    ctx.textAlign = 'right';
+    ctx.fillText(value.toLocaleString('pt-BR', { notation: 'compact' }), padding.left - 6, y(value) + 3);
+  }
+
+  const labelEvery = Math.max(1, Math.ceil(points.length / 8));
+  ctx.textAlign = 'center';
+  points.forEach((p, idx) => {
+    if (idx % labelEvery === 0) ctx.fillText(p.name, x(idx), height - 8);
+  });
+
+  const gradient = ctx.createLinearGradient(0, padding.top, 0, padding.top + plotHeight);
+  gradient.addColorStop(0, 'rgba(8, 145, 178, 0.25)');
+  gradient.addColorStop(1, 'rgba(8, 145, 178, 0)');
+  ctx.beginPath();
+  ctx.moveTo(x(0), y(min));
+  points.forEach((p, idx) => ctx.lineTo(x(idx), y(p.value)));
+  ctx.lineTo(x(points.length - 1), y(min));
+  ctx.closePath();
+  ctx.fillStyle = gradient;
+  ctx.fill();
+
+  ctx.beginPath();
+  points.forEach((p, idx) => (idx === 0 ? ctx.moveTo(x(idx), y(p.value)) : ctx.lineTo(x(idx), y(p.value))));
+  ctx.strokeStyle = BRAND;
+  ctx.lineWidth = 2.5;
+  ctx.stroke();
+
+  return canvas.toDataURL('image/png');
+};
+
+export const generatePdfReport = (data: PdfReportData): Blob => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  let cursor = MARGIN;
+
+  const ensureSpace = (needed: number) => {
+    if (cursor + needed > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      cursor = MARGIN;
+    }
+  };
+
+  const sectionTitle = (title: string) => {
+    ensureSpace(14);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor('#1E293B');
+    doc.text(title.toUpperCase(), MARGIN, cursor);
+    doc.setDrawColor('#E2E8F0');
+    doc.line(MARGIN, cursor + 2, PAGE_WIDTH - MARGIN, cursor + 2);
+    cursor += 9;
+  };
+
+  // Cover
+  doc.setFillColor(BRAND_DARK);
+  doc.rect(0, 0, PAGE_WIDTH, PAGE_HEIGHT, 'F');
+  doc.setFillColor(BRAND);
+  doc.circle(PAGE_WIDTH, 0, 120, 'F');
+  doc.setTextColor('#FFFFFF');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(34);
+  doc.text('Porto Finanças', MARGIN, 120);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(14);
+  doc.text(`Relatório Financeiro • ${data.scopeLabel}`, MARGIN, 132);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(22);
+  doc.text(data.periodLabel, MARGIN, 160);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(`Gerado em ${new Date().toLocaleDateString('pt-BR', { day: '2-digit', month: 'long', year: 'numeric' })}`, MARGIN, PAGE_HEIGHT - MARGIN);
+
+  // Summary
+  doc.addPage();
+  sectionTitle('Resumo do Período');
+  const boxes = [
+    { label: 'Receitas', value: formatCurrency(data.summary.income), color: '#059669', fill: '#ECFDF5' },
+    { label: 'Despesas', value: formatCurrency(data.summary.expenses), color: '#E11D48', fill: '#FFF1F2' },
+    { label: 'Saldo', value: formatCurrency(data.summary.balance), color: BRAND, fill: '#ECFEFF' },
+    { label: 'Margem', value: `${data.summary.margin.toFixed(1)}%`, color: '#4F46E5', fill: '#EEF2FF' }
+  ];
+  const boxWidth = (contentWidth - 3 * 4) / 4;
+  boxes.forEach((box, idx) => {
+    const left = MARGIN + idx * (boxWidth + 4);
+    doc.setFillColor(box.fill);
+    doc.roundedRect(left, cursor, boxWidth, 22, 3, 3, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(8);
+    doc.setTextColor(box.color);
+    doc.text(box.label.toUpperCase(), left + 4, cursor + 7);
+    doc.setFontSize(11);
+    doc.text(box.value, left + 4, cursor + 16);
+  });
+  cursor += 32;
+
+  // Categories
+  sectionTitle('Detalhamento por Categoria');
+  doc.setFontSize(10);
+  if (data.categories.length === 0) {
+    doc.setFont('helvetica', 'italic');
+    doc.setTextColor('#94A3B8');
+    doc.text('Nenhuma despesa no período.', MARGIN, cursor);
+    cursor += 8;
+  }
+  data.categories.forEach(item => {
+    ensureSpace(8);
+    const percent = data.summary.expenses > 0 ? (item.value / data.summary.expenses) * 100 : 0;
+    doc.setFillColor(item.color);
+    doc.circle(MARGIN + 1.5, cursor - 1.2, 1.5, 'F');
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor('#475569');
+    doc.text(item.name, MARGIN + 6, cursor);
+    doc.setTextColor('#94A3B8');
+    doc.text(`${percent.toFixed(1)}%`, PAGE_WIDTH - MARGIN - 45, cursor, { align: 'right' });
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor('#1E293B');
+    doc.text(formatCurrency(item.value), PAGE_WIDTH - MARGIN, cursor, { align: 'right' });
+    cursor += 7;
+  });
+  cursor += 6;
+
+  // Balance chart
+  const chartHeight = 70;
+  const chartImage = renderBalanceChart(data.balanceEvolution, 600, 600 * chartHeight / contentWidth);
+  if (chartImage) {
+    sectionTitle('Evolução Patrimonial');
+    ensureSpace(chartHeight + 6);
+    doc.addImage(chartImage, 'PNG', MARGIN, cursor, contentWidth, chartHeight);
+    cursor += chartHeight + 10;
+  }
+
+  // Transactions
+  sectionTitle('Extrato do Período');
+  doc.setFontSize(9);
+  data.transactions.forEach(t => {
+    ensureSpace(11);
+    const isIncome = t.type === TransactionType.INCOME;
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor('#334155');
+    doc.text(doc.splitTextToSize(t.description || getCategoryLabel(data.categoryDefinitions, t.category), contentWidth - 45)[0], MARGIN, cursor);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7.5);
+    doc.setTextColor('#94A3B8');
+    doc.text([parseDateKey(t.date).toLocaleDateString('pt-BR'), getCategoryLabel(data.categoryDefinitions, t.category), t.guestName].filter(Boolean).join(' • '), MARGIN, cursor + 4);
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(isIncome ? '#059669' : '#E11D48');
+    doc.text(`${isIncome ? '+' : '-'} ${formatCurrency(t.amount)}`, PAGE_WIDTH - MARGIN, cursor, { align: 'right' });
+    doc.setDrawColor('#F1F5F9');
+    doc.line(MARGIN, cursor + 6.5, PAGE_WIDTH - MARGIN, cursor + 6.5);
+    cursor += 11;
+  });
+
+  // Footer with page numbers (cover excluded)
+  const pages = doc.getNumberOfPages();
+  for (let page = 2; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor('#94A3B8');
+    doc.text(`Porto Finanças • ${data.scopeLabel} • ${data.periodLabel}`, MARGIN, PAGE_HEIGHT - 8);
+    doc.text(`${page - 1} / ${pages - 1}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 8, { align: 'right' });
+  }
+
+  return doc.output('blob');
+};
+
+// One-page monthly statement sent to the owner of a managed property.
+export const generateOwnerStatementPdf = (statement: OwnerStatement, periodLabel: string, categoryDefinitions: CategoryDefinition[]): Blob => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  let cursor = 0;
+
+  const ensureSpace = (needed: number) => {
+    if (cursor + needed > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      cursor = MARGIN;
+    }
+  };
+
+  doc.setFillColor(BRAND_DARK);
+  doc.rect(0, 0, PAGE_WIDTH, 44, 'F');
+  doc.setTextColor('#FFFFFF');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text('Extrato do Proprietário', MARGIN, 18);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text([statement.property.name, statement.property.location].filter(Boolean).join(' • '), MARGIN, 27);
+  doc.text(`Proprietário: ${statement.owner.name || '—'}`, MARGIN, 33);
+  doc.setFont('helvetica', 'bold');
+  doc.text(periodLabel, PAGE_WIDTH - MARGIN, 18, { align: 'right' });
+  cursor = 58;
+
+  const row = (label: string, value: number, options: { sign?: '+' | '-'; bold?: boolean; color?: string } = {}) => {
+    ensureSpace(9);
+    doc.setFont('helvetica', options.bold ? 'bold' : 'normal');
+    doc.setFontSize(options.bold ? 12 : 10);
+    doc.setTextColor('#475569');
+    doc.text(label, MARGIN, cursor);
+    doc.setTextColor(options.color ?? '#1E293B');
+    doc.text(`${options.sign ?? ''} ${formatCurrency(value)}`.trim(), PAGE_WIDTH - MARGIN, cursor, { align: 'right' });
+    doc.setDrawColor('#F1F5F9');
+    doc.line(MARGIN, cursor + 3, PAGE_WIDTH - MARGIN, cursor + 3);
+    cursor += 9;
+  };
+
+  row('Receita bruta de locação', statement.grossIncome, { sign: '+', color: '#059669' });
+  row('Taxas de plataforma', statement.platformFees, { sign: '-', color: '#E11D48' });
+  statement.expenses.forEach(line => row(`Despesa: ${line.name}`, line.amount, { sign: '-', color: '#E11D48' }));
+  row(
+    `Taxa de administração (${statement.owner.feePercent}% s/ ${MANAGEMENT_FEE_BASE_LABELS[statement.owner.feeBase].toLowerCase()})`,
+    statement.managementFee,
+    { sign: '-', color: '#E11D48' }
+  );
+  cursor += 3;
+  row('Valor líquido a repassar', statement.netTransfer, { bold: true, color: statement.netTransfer >= 0 ? BRAND : '#E11D48' });
+  cursor += 8;
+
+  ensureSpace(14);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.setTextColor('#1E293B');
+  doc.text('LANÇAMENTOS', MARGIN, cursor);
+  doc.setDrawColor('#E2E8F0');
+  doc.line(MARGIN, cursor + 2, PAGE_WIDTH - MARGIN, cursor + 2);
+  cursor += 9;
+  doc.setFontSize(9);
+  [...statement.transactions].sort((a, b) => a.date.localeCompare(b.date)).forEach(t => {
+    ensureSpace(7);
+    const isIncome = t.type === TransactionType.INCOME;
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor('#94A3B8');
+    doc.text(parseDateKey(t.date).toLocaleDateString('pt-BR'), MARGIN, cursor);
+    doc.setTextColor('#334155');
+    doc.text(doc.splitTextToSize(t.description || getCategoryLabel(categoryDefinitions, t.category), PAGE_WIDTH - MARGIN * 2 - 70)[0], MARGIN + 24, cursor);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(isIncome ? '#059669' : '#E11D48');
+    doc.text(`${isIncome ? '+' : '-'} ${formatCurrency(t.amount)}`, PAGE_WIDTH - MARGIN, cursor, { align: 'right' });
+    cursor += 7;
+  });
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor('#94A3B8');
+    doc.text(`Porto Finanças • Gerado em ${new Date().toLocaleDateString('pt-BR')}`, MARGIN, PAGE_HEIGHT - 8);
+    doc.text(`${page} / ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 8, { align: 'right' });
+  }
+
+  return doc.output('blob');
+};
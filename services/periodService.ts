@@ -0,0 +1,84 @@
+import { TimeRange } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are stored as 'YYYY-MM-DD'; parse them as local midnight so day math ignores the timezone.
+export const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+};
+
+export const daysBetween = (start: Date, end: Date): number => {
+  const startUtc = Date.UTC(start.getFullYear(), start.getMonth(), start.getDate());
+  const endUtc = Date.UTC(end.getFullYear(), end.getMonth(), end.getDate());
+  return Math.round((endUtc - startUtc) / DAY_MS);
+};
+
+// High season in Porto de Galinhas: December to February.
+export const HIGH_SEASON = { startMonth: 11, months: 3 };
+
+// Length of the windows that end on the reference date; custom windows take their length from the user.
+export const getWindowDays = (range: TimeRange, customDays: number): number | null => {
+  switch (range) {
+    case 'last30': return 30;
+    case 'last90': return 90;
+    case 'last365': return 365;
+    case 'custom': return Math.max(1, customDays);
+    default: return null;
+  }
+};
+
+// Short periods are charted per day, longer ones per month.
+export const usesDailyBuckets = (range: TimeRange, customDays: number): boolean => {
+  if (range === 'monthly') return true;
+  const days = getWindowDays(range, customDays);
+  return days !== null && days <= 62;
+};
+
+// Half-open [start, end) interval covered by the period containing refDate. 'all' has no bounds.
+// Outside the high season, 'highSeason' is the last season that started before refDate.
+export const getPeriodBounds = (range: TimeRange, refDate: Date, customDays = 1): { start: Date; end: Date } | null => {
+  const year = refDate.getFullYear();
+  const month = refDate.getMonth();
+  switch (range) {
+    case 'daily': {
+      const start = new Date(year, month, refDate.getDate());
+      return { start, end: addDays(start, 1) };
+    }
+    case 'monthly':
+      return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) };
+    case 'quarterly': {
+      const startMonth = month - (month % 3);
+      return { start: new Date(year, startMonth, 1), end: new Date(year, startMonth + 3, 1) };
+    }
+    case 'semiannual': {
+      const startMonth = month < 6 ? 0 : 6;
+      return { start: new Date(year, startMonth, 1), end: new Date(year, startMonth + 6, 1) };
+    }
+    case 'annual':
+      return { start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1) };
+    case 'highSeason': {
+      const startYear = month >= HIGH_SEASON.startMonth ? year : year - 1;
+      return { start: new Date(startYear, HIGH_SEASON.startMonth, 1), end: new Date(startYear, HIGH_SEASON.startMonth + HIGH_SEASON.months, 1) };
+    }
+    case 'last30':
+    case 'last90':
+    case 'last365':
+    case 'custom': {
+      const end = addDays(new Date(year, month, refDate.getDate()), 1);
+      return { start: addDays(end, -getWindowDays(range, customDays)!), end };
+    }
+    case 'all':
+      return null;
+  }
+};
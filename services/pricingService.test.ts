@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Booking, BookingChannel, Category, Transaction, TransactionType } from '../types';
+import { calculateTargetAdr } from './pricingService';
+
+const booking = (id: string, checkIn: string, checkOut: string, grossAmount: number): Booking => ({
+  id, checkIn, checkOut, grossAmount, guestName: 'Hóspede', channel: BookingChannel.DIRECT, guests: 2
+});
+
+const expense = (id: string, date: string, amount: number): Transaction => ({
+  id, date, amount, type: TransactionType.EXPENSE, category: Category.CLEANING, description: 'Limpeza', isPaid: true
+});
+
+describe('calculateTargetAdr', () => {
+  // 10 nights at R$ 200 and R$ 1000 of expenses in each of January and February
+  const bookings = [booking('b1', '2026-01-05', '2026-01-15', 2000), booking('b2', '2026-02-05', '2026-02-15', 2000)];
+  const txns = [expense('e1', '2026-01-20', 1000), expense('e2', '2026-02-20', 1000)];
+
+  it('averages over the months with history when it is shorter than the window', () => {
+    const result = calculateTargetAdr(txns, bookings, 3000, new Date(2026, 2, 15), 12);
+    expect(result).not.toBeNull();
+    expect(result!.months).toBe(2);
+    expect(result!.avgExpenses).toBe(1000);
+    expect(result!.avgNights).toBe(10);
+    expect(result!.currentAdr).toBe(200);
+    expect(result!.requiredAdr).toBe(400);
+    expect(result!.requiredNights).toBe(20);
+  });
+
+  it('never averages over more months than requested', () => {
+    const result = calculateTargetAdr(txns, bookings, 3000, new Date(2026, 2, 15), 1);
+    expect(result!.months).toBe(1);
+    expect(result!.avgNights).toBe(10);
+    expect(result!.avgExpenses).toBe(1000);
+  });
+
+  it('returns null without stays in the window', () => {
+    expect(calculateTargetAdr(txns, [], 3000, new Date(2026, 2, 15))).toBeNull();
+  });
+});
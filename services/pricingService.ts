@@ -0,0 +1,218 @@
+import { Booking, Transaction, TransactionType } from "../types";
+import { getBookingNightlyRate, isNightBooked } from "./bookingService";
+import { addDays, parseDateKey, toDateKey } from "./periodService";
+
+export const PROFIT_TARGETS_STORAGE_KEY = 'porto_profit_targets';
+
+// Observed averages are pulled towards the prior with this many nights of weight, so a
+// month or event seen only once or twice does not swing the suggestion.
+const PRIOR_NIGHTS = 5;
+
+// Suggestions are rounded to this step.
+const RATE_STEP = 5;
+
+// How far ahead rates are suggested.
+export const PRICING_HORIZON_DAYS = 90;
+
+export interface PricingEvent {
+  name: string;
+  // Premium applied when there is no history for the event, in %
+  defaultPremium: number;
+}
+
+// Friday and Saturday nights
+const WEEKEND_DAYS = [5, 6];
+
+// Easter Sunday (anonymous Gregorian algorithm); Carnaval, Good Friday and Corpus Christi move with it.
+const getEaster = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+// National holidays plus the Pernambuco dates that drive demand on the coast. A holiday also
+// lifts the night before it.
+export const getPricingEvents = (year: number): Map<string, PricingEvent> => {
+  const events = new Map<string, PricingEvent>();
+  const add = (date: Date, event: PricingEvent, withEve = true) => {
+    events.set(toDateKey(date), event);
+    if (withEve && !events.has(toDateKey(addDays(date, -1)))) events.set(toDateKey(addDays(date, -1)), event);
+  };
+  const holiday = (name: string): PricingEvent => ({ name, defaultPremium: 15 });
+
+  const easter = getEaster(year);
+  for (let offset = -51; offset <= -47; offset++) add(addDays(easter, offset), { name: 'Carnaval', defaultPremium: 40 }, false);
+  add(addDays(easter, -2), { name: 'Semana Santa', defaultPremium: 20 });
+  add(addDays(easter, 60), holiday('Corpus Christi'));
+
+  [
+    ['01-01', 'Ano Novo'], ['03-06', 'Data Magna de Pernambuco'], ['04-21', 'Tiradentes'], ['05-01', 'Dia do Trabalho'],
+    ['09-07', 'Independência'], ['10-12', 'Nossa Senhora Aparecida'], ['11-02', 'Finados'], ['11-15', 'Proclamação da República'],
+    ['11-20', 'Consciência Negra'], ['12-25', 'Natal']
+  ].forEach(([monthDay, name]) => add(parseDateKey(`${year}-${monthDay}`), holiday(name)));
+  add(parseDateKey(`${year}-06-24`), { name: 'São João', defaultPremium: 25 });
+  for (let day = 28; day <= 31; day++) add(parseDateKey(`${year}-12-${day}`), { name: 'Réveillon', defaultPremium: 60 }, false);
+  return events;
+};
+
+export interface RateModel {
+  // Average nightly rate over every recorded night
+  baseRate: number;
+  nights: number;
+  // Multipliers over the base rate
+  monthFactors: number[];
+  weekdayFactor: number;
+  weekendFactor: number;
+  eventFactors: Map<string, number>;
+}
+
+export interface RateSuggestion {
+  date: string;
+  rate: number;
+  isWeekend: boolean;
+  event?: string;
+  // Rate of the stay already booked on that night
+  bookedRate?: number;
+}
+
+const shrink = (sum: number, count: number, prior: number) => (sum + PRIOR_NIGHTS * prior) / (count + PRIOR_NIGHTS);
+
+// One observation per booked night, at the stay's average nightly rate.
+const getNightlyObservations = (bookings: Booking[]): { date: Date; rate: number }[] => {
+  return bookings.filter(b => b.grossAmount > 0).flatMap(b => {
+    const rate = getBookingNightlyRate(b);
+    const nights: { date: Date; rate: number }[] = [];
+    for (let date = parseDateKey(b.checkIn); date < parseDateKey(b.checkOut); date = addDays(date, 1)) nights.push({ date, rate });
+    return nights;
+  });
+};
+
+// Season first, then weekday on the season-adjusted rates, then events on what remains unexplained.
+export const buildRateModel = (bookings: Booking[]): RateModel | null => {
+  const observations = getNightlyObservations(bookings);
+  if (observations.length === 0) return null;
+  const baseRate = observations.reduce((acc, o) => acc + o.rate, 0) / observations.length;
+
+  const monthFactors = Array.from({ length: 12 }, (_, month) => {
+    const own = observations.filter(o => o.date.getMonth() === month);
+    return shrink(own.reduce((acc, o) => acc + o.rate / baseRate, 0), own.length, 1);
+  });
+
+  const seasonal = observations.map(o => ({ ...o, ratio: o.rate / (baseRate * monthFactors[o.date.getMonth()]) }));
+  const dayFactor = (weekend: boolean) => {
+    const own = seasonal.filter(o => WEEKEND_DAYS.includes(o.date.getDay()) === weekend);
+    return shrink(own.reduce((acc, o) => acc + o.ratio, 0), own.length, 1);
+  };
+  const weekdayFactor = dayFactor(false);
+  const weekendFactor = dayFactor(true);
+
+  const eventRatios = new Map<string, { sum: number; count: number; prior: number }>();
+  const eventsByYear = new Map<number, Map<string, PricingEvent>>();
+  seasonal.forEach(o => {
+    const year = o.date.getFullYear();
+    if (!eventsByYear.has(year)) eventsByYear.set(year, getPricingEvents(year));
+    const event = eventsByYear.get(year)!.get(toDateKey(o.date));
+    if (!event) return;
+    const entry = eventRatios.get(event.name) ?? { sum: 0, count: 0, prior: 1 + event.defaultPremium / 100 };
+    entry.sum += o.ratio / (WEEKEND_DAYS.includes(o.date.getDay()) ? weekendFactor : weekdayFactor);
+    entry.count++;
+    eventRatios.set(event.name, entry);
+  });
+
+  return {
+    baseRate,
+    nights: observations.length,
+    monthFactors,
+    weekdayFactor,
+    weekendFactor,
+    eventFactors: new Map([...eventRatios.entries()].map(([name, { sum, count, prior }]) => [name, shrink(sum, count, prior)]))
+  };
+};
+
+export const suggestNightlyRates = (model: RateModel, bookings: Booking[], from: Date, days: number): RateSuggestion[] => {
+  const eventsByYear = new Map<number, Map<string, PricingEvent>>();
+  return Array.from({ length: days }, (_, idx) => {
+    const date = addDays(from, idx);
+    if (!eventsByYear.has(date.getFullYear())) eventsByYear.set(date.getFullYear(), getPricingEvents(date.getFullYear()));
+    const event = eventsByYear.get(date.getFullYear())!.get(toDateKey(date));
+    const isWeekend = WEEKEND_DAYS.includes(date.getDay());
+    const eventFactor = event ? model.eventFactors.get(event.name) ?? 1 + event.defaultPremium / 100 : 1;
+    const rate = model.baseRate * model.monthFactors[date.getMonth()] * (isWeekend ? model.weekendFactor : model.weekdayFactor) * eventFactor;
+    const booked = bookings.find(b => isNightBooked(b, date));
+    return {
+      date: toDateKey(date),
+      rate: Math.round(rate / RATE_STEP) * RATE_STEP,
+      isWeekend,
+      event: event?.name,
+      bookedRate: booked ? getBookingNightlyRate(booked) : undefined
+    };
+  });
+};
+
+export interface TargetAdr {
+  // Months of history the monthly averages are based on, at most the requested window
+  months: number;
+  avgExpenses: number;
+  avgNights: number;
+  avgProfit: number;
+  currentAdr: number;
+  // ADR that reaches the target with the same occupancy
+  requiredAdr: number;
+  // Change over the current ADR, in %
+  adrChange: number;
+  // Nights per month needed at the current ADR
+  requiredNights: number;
+}
+
+// Holding occupancy and costs at the average of the last `months` months, the rate needed for
+// room revenue to cover the costs plus the target profit. With a shorter history the averages
+// run from the first month with records.
+export const calculateTargetAdr = (txns: Transaction[], bookings: Booking[], targetProfit: number, refDate: Date, months = 12): TargetAdr | null => {
+  const end = new Date(refDate.getFullYear(), refDate.getMonth(), 1);
+  const start = new Date(end.getFullYear(), end.getMonth() - months, 1);
+  const startKey = toDateKey(start);
+  const endKey = toDateKey(end);
+  const inWindow = txns.filter(t => t.date >= startKey && t.date < endKey);
+  const observations = getNightlyObservations(bookings).filter(o => o.date >= start && o.date < end);
+  if (observations.length === 0) return null;
+
+  const first = [...inWindow.map(t => parseDateKey(t.date)), ...observations.map(o => o.date)].reduce((min, date) => (date < min ? date : min));
+  const covered = Math.min(months, Math.max(1, (end.getFullYear() - first.getFullYear()) * 12 + end.getMonth() - first.getMonth()));
+  const avgExpenses = inWindow.filter(t => t.type === TransactionType.EXPENSE).reduce((acc, t) => acc + t.amount, 0) / covered;
+  const avgIncome = inWindow.filter(t => t.type === TransactionType.INCOME).reduce((acc, t) => acc + t.amount, 0) / covered;
+  const avgNights = observations.length / covered;
+  const currentAdr = observations.reduce((acc, o) => acc + o.rate, 0) / observations.length;
+  const requiredAdr = (targetProfit + avgExpenses) / avgNights;
+  return {
+    months: covered,
+    avgExpenses,
+    avgNights,
+    avgProfit: avgIncome - avgExpenses,
+    currentAdr,
+    requiredAdr,
+    adrChange: currentAdr > 0 ? (requiredAdr / currentAdr - 1) * 100 : 0,
+    requiredNights: currentAdr > 0 ? (targetProfit + avgExpenses) / currentAdr : 0
+  };
+};
+
+// Target monthly profit per property id.
+export const loadProfitTargets = (): Record<string, number> => {
+  try {
+    const saved = localStorage.getItem(PROFIT_TARGETS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
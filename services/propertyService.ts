@@ -0,0 +1,71 @@
+import { OccupancyMetrics, Property, Transaction, TransactionType } from "../types";
+
+export const PROPERTIES_STORAGE_KEY = 'porto_properties';
+
+// Owner of every record saved before properties existed
+export const DEFAULT_PROPERTY: Property = {
+  id: 'default',
+  name: 'Flat Porto de Galinhas',
+  location: 'Porto de Galinhas, PE',
+  color: '#0891B2'
+};
+
+export const PROPERTY_COLORS = ['#0891B2', '#6366F1', '#10B981', '#F59E0B', '#F43F5E', '#8B5CF6', '#EC4899', '#64748B'];
+
+// Dashboard scope: one property or the whole portfolio
+export type PropertyScope = string | 'all';
+
+export const getPropertyId = (record: { propertyId?: string }) => record.propertyId ?? DEFAULT_PROPERTY.id;
+
+export const filterByProperty = <T extends { propertyId?: string }>(records: T[], scope: PropertyScope): T[] => {
+  return scope === 'all' ? records : records.filter(r => getPropertyId(r) === scope);
+};
+
+// Records of the properties the user owns; the ones managed for third-party owners are left out.
+export const filterOwnProperties = <T extends { propertyId?: string }>(records: T[], properties: Property[]): T[] => {
+  const managed = new Set(properties.filter(p => p.owner).map(p => p.id));
+  return records.filter(r => !managed.has(getPropertyId(r)));
+};
+
+export interface PropertyPerformance {
+  property: Property;
+  income: number;
+  expenses: number;
+  balance: number;
+  margin: number;
+}
+
+export const buildPortfolioSummary = (properties: Property[], txns: Transaction[]): PropertyPerformance[] => {
+  return properties.map(property => {
+    const own = filterByProperty(txns, property.id);
+    const income = own.filter(t => t.type === TransactionType.INCOME).reduce((acc, t) => acc + t.amount, 0);
+    const expenses = own.filter(t => t.type === TransactionType.EXPENSE).reduce((acc, t) => acc + t.amount, 0);
+    const balance = income - expenses;
+    return { property, income, expenses, balance, margin: income > 0 ? (balance / income) * 100 : 0 };
+  });
+};
+
+// Portfolio occupancy: nights and revenue add up across units, ratios are recomputed.
+export const combineOccupancy = (metrics: OccupancyMetrics[]): OccupancyMetrics => {
+  const availableNights = metrics.reduce((acc, m) => acc + m.availableNights, 0);
+  const bookedNights = metrics.reduce((acc, m) => acc + m.bookedNights, 0);
+  const roomRevenue = metrics.reduce((acc, m) => acc + m.roomRevenue, 0);
+  return {
+    availableNights,
+    bookedNights,
+    occupancyRate: availableNights > 0 ? (bookedNights / availableNights) * 100 : 0,
+    roomRevenue,
+    adr: bookedNights > 0 ? roomRevenue / bookedNights : 0,
+    revPar: availableNights > 0 ? roomRevenue / availableNights : 0
+  };
+};
+
+export const loadProperties = (): Property[] => {
+  try {
+    const saved = localStorage.getItem(PROPERTIES_STORAGE_KEY);
+    const properties: Property[] = saved ? JSON.parse(saved) : [];
+    return properties.length > 0 ? properties : [DEFAULT_PROPERTY];
+  } catch {
+    return [DEFAULT_PROPERTY];
+  }
+};
@@ -0,0 +1,71 @@
+import { RecurringFrequency, RecurringTemplate, Transaction } from "../types";
+import { parseDateKey, toDateKey } from "./periodService";
+
+export interface Occurrence {
+  key: string;
+  date: string;
+}
+
+export const RECURRING_FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  monthly: 'Mensal',
+  yearly: 'Anual',
+  custom: 'A cada N meses'
+};
+
+// Occurrences are generated this many days ahead so upcoming bills show up as payables.
+export const MATERIALIZE_AHEAD_DAYS = 31;
+
+export const getIntervalMonths = (template: RecurringTemplate) => {
+  if (template.frequency === 'monthly') return 1;
+  if (template.frequency === 'yearly') return 12;
+  return Math.max(1, template.intervalMonths);
+};
+
+export const describeFrequency = (template: RecurringTemplate) => {
+  if (template.frequency === 'custom') return `A cada ${getIntervalMonths(template)} meses, dia ${template.dayOfMonth}`;
+  return `${RECURRING_FREQUENCY_LABELS[template.frequency]}, dia ${template.dayOfMonth}`;
+};
+
+export const toOccurrenceKey = (date: Date) => toDateKey(date).slice(0, 7);
+
+// Every occurrence from the start up to `until` (inclusive). Days past the end of a month fall on its last day.
+export const getOccurrences = (template: RecurringTemplate, until: string): Occurrence[] => {
+  const start = parseDateKey(template.startDate);
+  const step = getIntervalMonths(template);
+  const last = template.endDate && template.endDate < until ? template.endDate : until;
+  const occurrences: Occurrence[] = [];
+
+  for (let offset = 0; ; offset += step) {
+    const monthStart = new Date(start.getFullYear(), start.getMonth() + offset, 1);
+    const daysInMonth = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0).getDate();
+    const date = toDateKey(new Date(monthStart.getFullYear(), monthStart.getMonth(), Math.min(template.dayOfMonth, daysInMonth)));
+    if (date > last) break;
+    if (date >= template.startDate) occurrences.push({ key: toOccurrenceKey(monthStart), date });
+  }
+  return occurrences;
+};
+
+// Pending transactions for occurrences that were neither generated nor skipped yet.
+export const materializeRecurring = (templates: RecurringTemplate[], transactions: Transaction[], until: string): Transaction[] => {
+  const existing = new Set(transactions.filter(t => t.recurringId).map(t => `${t.recurringId}|${t.occurrenceKey}`));
+  return templates.flatMap(template => getOccurrences(template, until)
+    .filter(o => !template.skipped.includes(o.key) && !existing.has(`${template.id}|${o.key}`))
+    .map(o => ({
+      id: crypto.randomUUID(),
+      propertyId: template.propertyId,
+      date: o.date,
+      type: template.type,
+      category: template.category,
+      amount: template.amount,
+      description: template.description,
+      isPaid: false,
+      dueDate: o.date,
+      recurringId: template.id,
+      occurrenceKey: o.key
+    })));
+};
+
+export const getNextOccurrence = (template: RecurringTemplate, fromDate: string): Occurrence | undefined => {
+  const horizon = toDateKey(new Date(parseDateKey(fromDate).getFullYear() + 2, 0, 1));
+  return getOccurrences(template, horizon).find(o => o.date >= fromDate && !template.skipped.includes(o.key));
+};
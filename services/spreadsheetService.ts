@@ -0,0 +1,251 @@
+import { CategoryDefinition, TimeRange, Transaction, TransactionType } from "../types";
+import { groupByPeriodBucket, groupExpensesByCategory } from "./aggregationService";
+import { getCategoryLabel } from "./categoryService";
+import { parseDateKey, usesDailyBuckets } from "./periodService";
+import { CarneLeaoSummary } from "./taxService";
+
+type CellValue = string | number | Date | null;
+type CellStyle = 'header' | 'date' | 'money' | 'percent' | undefined;
+
+interface Sheet {
+  name: string;
+  columns: { header: string; style?: CellStyle; width?: number }[];
+  rows: CellValue[][];
+}
+
+const TYPE_LABELS: Record<TransactionType, string> = {
+  [TransactionType.INCOME]: 'Receita',
+  [TransactionType.EXPENSE]: 'Despesa'
+};
+
+const signedAmount = (t: Transaction) => (t.type === TransactionType.INCOME ? t.amount : -t.amount);
+
+// CSV for Excel pt-BR: semicolon separator, decimal comma and a UTF-8 BOM so accents survive.
+export const buildTransactionsCsv = (txns: Transaction[], categories: CategoryDefinition[]): string => {
+  const escape = (value: string) => /[;"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const formatAmount = (value: number) => value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2, useGrouping: false });
+
+  const lines = [
+    ['Data', 'Tipo', 'Categoria', 'Descrição', 'Hóspede', 'Valor'].join(';'),
+    ...txns.map(t => [
+      parseDateKey(t.date).toLocaleDateString('pt-BR'),
+      TYPE_LABELS[t.type],
+      getCategoryLabel(categories, t.category),
+      t.description,
+      t.guestName || '',
+      formatAmount(signedAmount(t))
+    ].map(escape).join(';'))
+  ];
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
+
+export const buildReportSheets = (txns: Transaction[], range: TimeRange, categories: CategoryDefinition[], customDays = 1): Sheet[] => {
+  const totalExpenses = txns.filter(t => t.type === TransactionType.EXPENSE).reduce((acc, t) => acc + t.amount, 0);
+  return [
+    {
+      name: 'Lançamentos',
+      columns: [
+        { header: 'Data', style: 'date', width: 12 },
+        { header: 'Tipo', width: 10 },
+        { header: 'Categoria', width: 20 },
+        { header: 'Descrição', width: 40 },
+        { header: 'Hóspede', width: 20 },
+        { header: 'Valor', style: 'money', width: 14 }
+      ],
+      rows: txns.map(t => [parseDateKey(t.date), TYPE_LABELS[t.type], getCategoryLabel(categories, t.category), t.description, t.guestName || '', signedAmount(t)])
+    },
+    {
+      name: 'Por Categoria',
+      columns: [
+        { header: 'Categoria', width: 24 },
+        { header: 'Total', style: 'money', width: 14 },
+        { header: '% dos Gastos', style: 'percent', width: 14 }
+      ],
+      rows: groupExpensesByCategory(txns, categories).map(c => [c.name, c.value, totalExpenses > 0 ? c.value / totalExpenses : 0])
+    },
+    {
+      name: 'Mensal',
+      columns: [
+        { header: usesDailyBuckets(range, customDays) ? 'Dia' : 'Mês', width: 12 },
+        { header: 'Receitas', style: 'money', width: 14 },
+        { header: 'Despesas', style: 'money', width: 14 },
+        { header: 'Saldo', style: 'money', width: 14 }
+      ],
+      rows: groupByPeriodBucket(txns, range, customDays).map(b => [b.name, b.income, b.expense, b.income - b.expense])
+    }
+  ];
+};
+
+// Annual Carnê-Leão summary, laid out like the monthly lines of the income tax declaration.
+export const buildCarneLeaoSheets = (summary: CarneLeaoSummary): Sheet[] => [
+  {
+    name: `Carnê-Leão ${summary.year}`,
+    columns: [
+      { header: 'Mês', width: 12 },
+      { header: 'Aluguéis', style: 'money', width: 14 },
+      { header: 'Deduções', style: 'money', width: 14 },
+      { header: 'Base de Cálculo', style: 'money', width: 16 },
+      { header: 'Alíquota', style: 'percent', width: 10 },
+      { header: 'Imposto do Mês', style: 'money', width: 16 },
+      { header: 'DARF', style: 'money', width: 14 },
+      { header: 'Vencimento', style: 'date', width: 12 }
+    ],
+    rows: [
+      ...summary.months.map(m => [
+        new Date(summary.year, m.month, 1).toLocaleDateString('pt-BR', { month: 'short' }),
+        m.income,
+        m.deductions,
+        m.base,
+        m.rate / 100,
+        m.tax,
+        m.darf,
+        parseDateKey(m.dueDate)
+      ]),
+      ['Total', summary.income, summary.deductions, summary.base, null, summary.tax, summary.darf, null]
+    ]
+  }
+];
+
+// --- Minimal XLSX (Office Open XML) writer: inline strings, fixed styles, stored (uncompressed) zip ---
+
+const STYLE_INDEX: Record<Exclude<CellStyle, undefined>, number> = { header: 1, date: 2, money: 3, percent: 4 };
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const columnLetter = (idx: number): string => {
+  let letter = '';
+  for (let n = idx + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+// Excel serial date: days since 1899-12-30.
+const toExcelDate = (date: Date) => (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - Date.UTC(1899, 11, 30)) / 86400000;
+
+const buildCell = (value: CellValue, ref: string, style?: CellStyle): string => {
+  const s = style ? ` s="${STYLE_INDEX[style]}"` : '';
+  if (value === null || value === '') return '';
+  if (value instanceof Date) return `<c r="${ref}"${s}><v>${toExcelDate(value)}</v></c>`;
+  if (typeof value === 'number') return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"${s}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const buildWorksheet = (sheet: Sheet): string => {
+  const header = `<row r="1">${sheet.columns.map((c, i) => buildCell(c.header, `${columnLetter(i)}1`, 'header')).join('')}</row>`;
+  const rows = sheet.rows.map((row, r) =>
+    `<row r="${r + 2}">${row.map((value, i) => buildCell(value, `${columnLetter(i)}${r + 2}`, sheet.columns[i]?.style)).join('')}</row>`
+  );
+  const cols = sheet.columns.map((c, i) => `<col min="${i + 1}" max="${i + 1}" width="${c.width ?? 14}" customWidth="1"/>`).join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><cols>${cols}</cols><sheetData>${header}${rows.join('')}</sheetData></worksheet>`;
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/><numFmt numFmtId="165" formatCode="&quot;R$&quot; #,##0.00"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>
+</styleSheet>`;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const buildZip = (files: { name: string; content: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(12, 0x0021, true); // 1980-01-01
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014B50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(14, 0x0021, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((acc, c) => acc + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const result = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let position = 0;
+  parts.forEach(p => { result.set(p, position); position += p.length; });
+  return result;
+};
+
+export const buildXlsx = (sheets: Sheet[]): Uint8Array => {
+  const sheetEntries = sheets.map((sheet, i) => ({ ...sheet, id: i + 1 }));
+  return buildZip([
+    {
+      name: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheetEntries.map(s => `<Override PartName="/xl/worksheets/sheet${s.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')}</Types>`
+    },
+    {
+      name: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheetEntries.map(s => `<sheet name="${escapeXml(s.name.slice(0, 31))}" sheetId="${s.id}" r:id="rId${s.id}"/>`).join('')}</sheets></workbook>`
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheetEntries.map(s => `<Relationship Id="rId${s.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${s.id}.xml"/>`).join('')}<Relationship Id="rId${sheetEntries.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`
+    },
+    { name: 'xl/styles.xml', content: STYLES_XML },
+    ...sheetEntries.map(s => ({ name: `xl/worksheets/sheet${s.id}.xml`, content: buildWorksheet(s) }))
+  ]);
+};
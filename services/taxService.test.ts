@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { Category, Transaction, TransactionType } from '../types';
+import { DEFAULT_CATEGORIES } from './categoryService';
+import { buildCarneLeaoSummary, calculateIrpf, getIrpfTable, DEFAULT_IRPF_TABLES } from './taxService';
+
+const record = (id: string, date: string, type: TransactionType, category: string, amount: number): Transaction => ({
+  id, date, type, category, amount, description: '', isPaid: true
+});
+
+describe('getIrpfTable', () => {
+  it('uses the table in force in the month', () => {
+    expect(getIrpfTable(DEFAULT_IRPF_TABLES, '2025-03').effectiveFrom).toBe('2024-02');
+    expect(getIrpfTable(DEFAULT_IRPF_TABLES, '2025-05').effectiveFrom).toBe('2025-05');
+    expect(calculateIrpf(3000, getIrpfTable(DEFAULT_IRPF_TABLES, '2025-03')).tax).toBe(68.56);
+    expect(calculateIrpf(3000, getIrpfTable(DEFAULT_IRPF_TABLES, '2025-05')).tax).toBe(55.84);
+  });
+});
+
+describe('buildCarneLeaoSummary', () => {
+  it('switches tables within the year', () => {
+    const txns = [
+      record('r1', '2025-03-10', TransactionType.INCOME, Category.RENTAL, 3000),
+      record('r2', '2025-06-10', TransactionType.INCOME, Category.RENTAL, 3000)
+    ];
+    const summary = buildCarneLeaoSummary(txns, DEFAULT_CATEGORIES, DEFAULT_IRPF_TABLES, 2025);
+    expect(summary.months[2].tax).toBe(68.56);
+    expect(summary.months[5].tax).toBe(55.84);
+    expect(summary.tables.map(t => t.effectiveFrom)).toEqual(['2024-02', '2025-05']);
+  });
+
+  it('deducts condo fees but not the DARFs paid', () => {
+    const txns = [
+      record('r1', '2025-06-10', TransactionType.INCOME, Category.RENTAL, 3500),
+      record('c1', '2025-06-15', TransactionType.EXPENSE, Category.TAXES, 500),
+      record('d1', '2025-06-30', TransactionType.EXPENSE, Category.INCOME_TAX, 68.56)
+    ];
+    const june = buildCarneLeaoSummary(txns, DEFAULT_CATEGORIES, DEFAULT_IRPF_TABLES, 2025).months[5];
+    expect(june.deductions).toBe(500);
+    expect(june.base).toBe(3000);
+  });
+
+  it('reports the calculated tax apart from the DARFs issued', () => {
+    // R$ 2.500 in June 2025 gives R$ 5,34, below the DARF minimum, carried over to July
+    const txns = [record('r1', '2025-06-10', TransactionType.INCOME, Category.RENTAL, 2500)];
+    const summary = buildCarneLeaoSummary(txns, DEFAULT_CATEGORIES, DEFAULT_IRPF_TABLES, 2025);
+    expect(summary.tax).toBe(5.34);
+    expect(summary.darf).toBe(0);
+    expect(summary.months[6].carriedOver).toBe(5.34);
+  });
+
+  it('carries the tax under the DARF minimum from December into January', () => {
+    const txns = [record('r1', '2025-12-10', TransactionType.INCOME, Category.RENTAL, 2500)];
+    const december = buildCarneLeaoSummary(txns, DEFAULT_CATEGORIES, DEFAULT_IRPF_TABLES, 2025).months[11];
+    expect(december.darf).toBe(0);
+    const january = buildCarneLeaoSummary([...txns, record('r2', '2026-01-10', TransactionType.INCOME, Category.RENTAL, 2500)], DEFAULT_CATEGORIES, DEFAULT_IRPF_TABLES, 2026).months[0];
+    expect(january.carriedOver).toBe(5.34);
+    expect(january.darf).toBe(10.68);
+  });
+});
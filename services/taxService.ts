@@ -0,0 +1,186 @@
+import { Category, CategoryDefinition, IrpfTable, Transaction, TransactionType } from "../types";
+import { getRootCategoryId } from "./categoryService";
+import { toDateKey } from "./periodService";
+
+export const IRPF_TABLES_STORAGE_KEY = 'porto_irpf_tables';
+
+// Monthly tables published by the Receita Federal, each in force from its first month until the next one.
+export const DEFAULT_IRPF_TABLES: IrpfTable[] = [
+  {
+    effectiveFrom: '2023-05',
+    brackets: [
+      { upTo: 2112.00, rate: 0, deduction: 0 },
+      { upTo: 2826.65, rate: 7.5, deduction: 158.40 },
+      { upTo: 3751.05, rate: 15, deduction: 370.40 },
+      { upTo: 4664.68, rate: 22.5, deduction: 651.73 },
+      { upTo: null, rate: 27.5, deduction: 884.96 }
+    ]
+  },
+  {
+    effectiveFrom: '2024-02',
+    brackets: [
+      { upTo: 2259.20, rate: 0, deduction: 0 },
+      { upTo: 2826.65, rate: 7.5, deduction: 169.44 },
+      { upTo: 3751.05, rate: 15, deduction: 381.44 },
+      { upTo: 4664.68, rate: 22.5, deduction: 662.77 },
+      { upTo: null, rate: 27.5, deduction: 896.00 }
+    ]
+  },
+  {
+    effectiveFrom: '2025-05',
+    brackets: [
+      { upTo: 2428.80, rate: 0, deduction: 0 },
+      { upTo: 2826.65, rate: 7.5, deduction: 182.16 },
+      { upTo: 3751.05, rate: 15, deduction: 394.16 },
+      { upTo: 4664.68, rate: 22.5, deduction: 675.49 },
+      { upTo: null, rate: 27.5, deduction: 908.73 }
+    ]
+  }
+];
+
+// DARFs below this amount are not issued; the tax is carried over to the next month.
+export const MINIMUM_DARF = 10;
+
+export interface CarneLeaoMonth {
+  month: number;
+  income: number;
+  // Condo fees and IPTU paid in the month
+  deductions: number;
+  base: number;
+  rate: number;
+  tax: number;
+  // effectiveFrom of the table applied to the month
+  tableFrom: string;
+  // Tax due this month plus amounts carried over from months below the DARF minimum
+  darf: number;
+  carriedOver: number;
+  dueDate: string;
+}
+
+export interface CarneLeaoSummary {
+  year: number;
+  // Tables applied during the year, oldest first
+  tables: IrpfTable[];
+  months: CarneLeaoMonth[];
+  income: number;
+  deductions: number;
+  base: number;
+  // Tax calculated on the monthly bases
+  tax: number;
+  // DARFs issued; differs from `tax` by what was carried into January and what is still carried over at the end of the year
+  darf: number;
+}
+
+const sortTables = (tables: IrpfTable[]) => [...tables].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+// Table in force in the month ('YYYY-MM'), or the oldest one for months before every table.
+export const getIrpfTable = (tables: IrpfTable[], monthKey: string): IrpfTable => {
+  const sorted = sortTables(tables.length > 0 ? tables : DEFAULT_IRPF_TABLES);
+  return [...sorted].reverse().find(t => t.effectiveFrom <= monthKey) ?? sorted[0];
+};
+
+export const calculateIrpf = (base: number, table: IrpfTable): { rate: number; tax: number } => {
+  const bracket = table.brackets.find(b => b.upTo === null || base <= b.upTo) ?? table.brackets[table.brackets.length - 1];
+  if (!bracket || base <= 0) return { rate: 0, tax: 0 };
+  return { rate: bracket.rate, tax: Math.max(0, Math.round((base * bracket.rate / 100 - bracket.deduction) * 100) / 100) };
+};
+
+// The DARF for a month's income is due on the last business day of the following month (holidays not considered).
+export const getDarfDueDate = (year: number, month: number): string => {
+  const date = new Date(year, month + 2, 0);
+  while (date.getDay() === 0 || date.getDay() === 6) date.setDate(date.getDate() - 1);
+  return toDateKey(date);
+};
+
+interface MonthlyTotals {
+  income: number[];
+  deductions: number[];
+}
+
+// Carnê-Leão is cash-basis: income and deductions count in the month they were settled. Condo fees and
+// IPTU are deductible; the DARFs themselves are not.
+const sumByMonth = (txns: Transaction[], categories: CategoryDefinition[]): Map<number, MonthlyTotals> => {
+  const years = new Map<number, MonthlyTotals>();
+  txns.forEach(t => {
+    if (!t.isPaid) return;
+    const settledOn = t.paidAt ?? t.date;
+    const year = Number(settledOn.slice(0, 4));
+    if (!years.has(year)) years.set(year, { income: Array(12).fill(0), deductions: Array(12).fill(0) });
+    const totals = years.get(year)!;
+    const month = Number(settledOn.slice(5, 7)) - 1;
+    const rootId = getRootCategoryId(categories, t.category);
+    if (t.type === TransactionType.INCOME && rootId === Category.RENTAL) totals.income[month] += t.amount;
+    if (t.type === TransactionType.EXPENSE && rootId === Category.TAXES && t.category !== Category.INCOME_TAX) totals.deductions[month] += t.amount;
+  });
+  return years;
+};
+
+// A month's tax under the DARF minimum is added to the next month's, across the end of the year too.
+const buildMonths = (totals: MonthlyTotals, tables: IrpfTable[], year: number, carriedIn: number): { months: CarneLeaoMonth[]; carried: number } => {
+  let carried = carriedIn;
+  const months = totals.income.map((monthIncome, month) => {
+    const base = Math.max(0, monthIncome - totals.deductions[month]);
+    const table = getIrpfTable(tables, `${year}-${String(month + 1).padStart(2, '0')}`);
+    const { rate, tax } = calculateIrpf(base, table);
+    const total = tax + carried;
+    const carriedOver = carried;
+    carried = total < MINIMUM_DARF ? total : 0;
+    return {
+      month,
+      income: monthIncome,
+      deductions: totals.deductions[month],
+      base,
+      rate,
+      tax,
+      tableFrom: table.effectiveFrom,
+      darf: total < MINIMUM_DARF ? 0 : total,
+      carriedOver,
+      dueDate: getDarfDueDate(year, month)
+    };
+  });
+  return { months, carried };
+};
+
+export const buildCarneLeaoSummary = (txns: Transaction[], categories: CategoryDefinition[], tables: IrpfTable[], year: number): CarneLeaoSummary => {
+  const totals = sumByMonth(txns, categories);
+  const empty: MonthlyTotals = { income: Array(12).fill(0), deductions: Array(12).fill(0) };
+  // Earlier years only matter for what they carry into January
+  let carried = 0;
+  const firstYear = [...totals.keys()].reduce((min, y) => Math.min(min, y), year);
+  for (let y = firstYear; y < year; y++) {
+    carried = buildMonths(totals.get(y) ?? empty, tables, y, carried).carried;
+  }
+  const { months } = buildMonths(totals.get(year) ?? empty, tables, year, carried);
+
+  return {
+    year,
+    tables: sortTables(tables).filter(t => months.some(m => m.tableFrom === t.effectiveFrom)),
+    months,
+    income: months.reduce((acc, m) => acc + m.income, 0),
+    deductions: months.reduce((acc, m) => acc + m.deductions, 0),
+    base: months.reduce((acc, m) => acc + m.base, 0),
+    tax: months.reduce((acc, m) => acc + m.tax, 0),
+    darf: months.reduce((acc, m) => acc + m.darf, 0)
+  };
+};
+
+// Tables saved when they were keyed by year: unchanged copies of a default are dropped (the default now carries
+// the right start month) and edited ones apply from January of their year.
+const migrateIrpfTable = (table: IrpfTable & { year?: number }): IrpfTable | null => {
+  if (table.effectiveFrom) return table;
+  if (typeof table.year !== 'number') return null;
+  const sameBrackets = (other: IrpfTable) => JSON.stringify(other.brackets) === JSON.stringify(table.brackets);
+  if (DEFAULT_IRPF_TABLES.some(sameBrackets)) return null;
+  return { effectiveFrom: `${table.year}-01`, brackets: table.brackets };
+};
+
+// Saved tables replace the defaults starting in the same month.
+export const loadIrpfTables = (): IrpfTable[] => {
+  try {
+    const saved = localStorage.getItem(IRPF_TABLES_STORAGE_KEY);
+    const tables = (saved ? JSON.parse(saved) : []).map(migrateIrpfTable).filter((t: IrpfTable | null): t is IrpfTable => !!t);
+    return sortTables([...DEFAULT_IRPF_TABLES.filter(d => !tables.some(t => t.effectiveFrom === d.effectiveFrom)), ...tables]);
+  } catch {
+    return DEFAULT_IRPF_TABLES;
+  }
+};
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Category, Transaction, TransactionType } from '../types';
+import { createInMemoryRepository, createLocalStorageRepository, LEGACY_STORAGE_KEY } from './transactionRepository';
+
+const record = (id: string, date: string, type = TransactionType.EXPENSE): Transaction => ({
+  id, date, type, category: type === TransactionType.INCOME ? Category.RENTAL : Category.CLEANING, amount: 100, description: '', isPaid: true
+});
+
+describe('createInMemoryRepository', () => {
+  it('queries by date range, type and category', async () => {
+    const repository = createInMemoryRepository([record('a', '2026-01-10'), record('b', '2026-02-10', TransactionType.INCOME), record('c', '2026-03-10')]);
+    expect((await repository.getByDateRange('2026-01-10', '2026-02-10')).map(t => t.id)).toEqual(['a', 'b']);
+    expect((await repository.getByType(TransactionType.INCOME)).map(t => t.id)).toEqual(['b']);
+    expect((await repository.getByCategory(Category.CLEANING)).map(t => t.id)).toEqual(['a', 'c']);
+  });
+
+  it('puts, deletes and replaces records', async () => {
+    const repository = createInMemoryRepository([record('a', '2026-01-10')]);
+    await repository.putMany([{ ...record('a', '2026-01-10'), amount: 150 }, record('b', '2026-01-11')]);
+    await repository.deleteMany(['b']);
+    expect(await repository.getAll()).toEqual([{ ...record('a', '2026-01-10'), amount: 150 }]);
+    await repository.replaceAll([record('c', '2026-01-12')]);
+    expect((await repository.getAll()).map(t => t.id)).toEqual(['c']);
+  });
+});
+
+describe('createLocalStorageRepository', () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => { storage.set(key, value); },
+      removeItem: (key: string) => { storage.delete(key); }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('survives a reload', async () => {
+    storage.set(LEGACY_STORAGE_KEY, JSON.stringify([record('a', '2026-01-10')]));
+    const repository = createLocalStorageRepository();
+    await repository.putMany([record('b', '2026-01-11')]);
+    await repository.deleteMany(['a']);
+    expect((await createLocalStorageRepository().getAll()).map(t => t.id)).toEqual(['b']);
+  });
+
+  it('rejects when the write fails', async () => {
+    vi.stubGlobal('localStorage', {
+      getItem: () => null,
+      setItem: () => { throw new Error('QuotaExceededError'); },
+      removeItem: () => {}
+    });
+    await expect(createLocalStorageRepository().putMany([record('a', '2026-01-10')])).rejects.toThrow('QuotaExceededError');
+  });
+});
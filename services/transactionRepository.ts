@@ -0,0 +1,142 @@
+import { CategoryId, Transaction, TransactionType } from "../types";
+
+export interface TransactionRepository {
+  getAll(): Promise<Transaction[]>;
+  // Inclusive 'YYYY-MM-DD' bounds
+  getByDateRange(start: string, end: string): Promise<Transaction[]>;
+  getByType(type: TransactionType): Promise<Transaction[]>;
+  getByCategory(category: CategoryId): Promise<Transaction[]>;
+  putMany(transactions: Transaction[]): Promise<void>;
+  deleteMany(ids: string[]): Promise<void>;
+  replaceAll(transactions: Transaction[]): Promise<void>;
+}
+
+const DB_NAME = 'porto-financas';
+// v2 added the audit log store
+const DB_VERSION = 2;
+const STORE = 'transactions';
+export const AUDIT_STORE = 'audit';
+export const LEGACY_STORAGE_KEY = 'porto_transactions';
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(STORE)) {
+      const store = db.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('date', 'date');
+      store.createIndex('type', 'type');
+      store.createIndex('category', 'category');
+    }
+    // Auto-incremented keys keep the entries in the order they were appended
+    if (!db.objectStoreNames.contains(AUDIT_STORE)) db.createObjectStore(AUDIT_STORE, { autoIncrement: true });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const createIndexedDbRepository = async (): Promise<TransactionRepository> => {
+  const db = await openDatabase();
+
+  const read = async (query: (store: IDBObjectStore) => IDBRequest<Transaction[]>) => {
+    const tx = db.transaction(STORE, 'readonly');
+    return promisify(query(tx.objectStore(STORE)));
+  };
+
+  const write = async (mutate: (store: IDBObjectStore) => void) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    mutate(tx.objectStore(STORE));
+    await transactionDone(tx);
+  };
+
+  return {
+    getAll: () => read(store => store.getAll()),
+    getByDateRange: (start, end) => read(store => store.index('date').getAll(IDBKeyRange.bound(start, end))),
+    getByType: type => read(store => store.index('type').getAll(type)),
+    getByCategory: category => read(store => store.index('category').getAll(category)),
+    putMany: transactions => write(store => transactions.forEach(t => store.put(t))),
+    deleteMany: ids => write(store => ids.forEach(id => store.delete(id))),
+    replaceAll: transactions => write(store => {
+      store.clear();
+      transactions.forEach(t => store.put(t));
+    })
+  };
+};
+
+// Volatile store with the same contract; the localStorage fallback keeps its records here.
+export const createInMemoryRepository = (initial: Transaction[] = []): TransactionRepository => {
+  const records = new Map(initial.map(t => [t.id, t]));
+  const all = () => [...records.values()];
+
+  return {
+    getAll: async () => all(),
+    getByDateRange: async (start, end) => all().filter(t => t.date >= start && t.date <= end),
+    getByType: async type => all().filter(t => t.type === type),
+    getByCategory: async category => all().filter(t => t.category === category),
+    putMany: async transactions => { transactions.forEach(t => records.set(t.id, t)); },
+    deleteMany: async ids => { ids.forEach(id => records.delete(id)); },
+    replaceAll: async transactions => {
+      records.clear();
+      transactions.forEach(t => records.set(t.id, t));
+    }
+  };
+};
+
+const readLegacyTransactions = (): Transaction[] | null => {
+  try {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Used when IndexedDB is unavailable (private browsing, blocked storage). The whole list is written under the
+// legacy key after every change, so a later session with IndexedDB migrates it; a write over the quota rejects.
+export const createLocalStorageRepository = (): TransactionRepository => {
+  const memory = createInMemoryRepository(readLegacyTransactions() ?? []);
+  const persisted = <A extends unknown[]>(mutate: (...args: A) => Promise<void>) => async (...args: A) => {
+    await mutate(...args);
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(await memory.getAll()));
+  };
+
+  return {
+    ...memory,
+    putMany: persisted(memory.putMany),
+    deleteMany: persisted(memory.deleteMany),
+    replaceAll: persisted(memory.replaceAll)
+  };
+};
+
+// Moves the old single-key localStorage payload into the repository once, then drops the key.
+export const migrateLegacyStorage = async (repository: TransactionRepository): Promise<number> => {
+  const legacy = readLegacyTransactions();
+  if (!legacy) return 0;
+  await repository.putMany(legacy);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return legacy.length;
+};
+
+export const openTransactionRepository = async (): Promise<TransactionRepository> => {
+  try {
+    if (typeof indexedDB === 'undefined') throw new Error('IndexedDB indisponível');
+    const repository = await createIndexedDbRepository();
+    await migrateLegacyStorage(repository);
+    return repository;
+  } catch (error) {
+    console.error("Falling back to localStorage:", error);
+    return createLocalStorageRepository();
+  }
+};
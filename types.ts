@@ -4,24 +4,175 @@ export enum TransactionType {
   EXPENSE = 'EXPENSE'
 }
 
+// Ids of the built-in categories. Users can rename them and add their own (with random ids).
 export enum Category {
-  RENTAL = 'Aluguel',
-  CLEANING = 'Limpeza',
-  MAINTENANCE = 'Manutenção',
-  UTILITIES = 'Contas (Luz/Água)',
-  TAXES = 'Impostos/Condomínio',
-  OTHERS = 'Outros'
+  RENTAL = 'rental',
+  CLEANING = 'cleaning',
+  MAINTENANCE = 'maintenance',
+  UTILITIES = 'utilities',
+  TAXES = 'taxes',
+  // Subcategory of TAXES for the DARFs paid, which are not deductible
+  INCOME_TAX = 'income_tax',
+  PLATFORM_FEES = 'platform_fees',
+  OTHERS = 'others'
+}
+
+export type CategoryId = string;
+
+export interface CategoryDefinition {
+  id: CategoryId;
+  name: string;
+  // Set for subcategories; only one level of nesting
+  parentId?: CategoryId;
+  // Transaction types the category can be used for
+  types: TransactionType[];
+  color: string;
+  // lucide icon name
+  icon: string;
+}
+
+export enum BookingChannel {
+  AIRBNB = 'Airbnb',
+  BOOKING = 'Booking.com',
+  DIRECT = 'Direto',
+  OTHER = 'Outro'
+}
+
+// last30/last90/last365 and custom are windows ending on the reference date
+export type TimeRange = 'daily' | 'monthly' | 'quarterly' | 'semiannual' | 'annual' | 'highSeason' | 'last30' | 'last90' | 'last365' | 'custom' | 'all';
+
+export type ManagementFeeBase = 'gross' | 'net';
+
+// Set on properties managed on behalf of a third-party owner
+export interface OwnerConfig {
+  name: string;
+  // Management fee in %, charged on gross income or on income net of platform fees
+  feePercent: number;
+  feeBase: ManagementFeeBase;
+  // Expense categories (top level) deducted from the owner's payout; the rest is borne by the manager
+  ownerPaidCategories: CategoryId[];
+}
+
+export interface Property {
+  id: string;
+  name: string;
+  location?: string;
+  color: string;
+  owner?: OwnerConfig;
+}
+
+// Guest directory entry. Rentals link to it through guestId and keep guestName as the name shown.
+export interface Guest {
+  id: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  // CPF or passport
+  document?: string;
+  city?: string;
+  notes?: string;
+  // 1 to 5 stars
+  rating?: number;
 }
 
 export interface Transaction {
   id: string;
+  // Records created before multi-property support have no propertyId and belong to the default property
+  propertyId?: string;
   date: string;
   type: TransactionType;
-  category: Category;
+  category: CategoryId;
   amount: number;
   description: string;
   guestName?: string;
+  guestId?: string;
   isPaid: boolean;
+  // Pending items: when the income is expected or the bill is due
+  dueDate?: string;
+  // Settlement date; older paid records without it were settled on `date`
+  paidAt?: string;
+  bookingId?: string;
+  // Sales channel of rental income; platform fee expenses carry it too and point to their income via feeFor
+  channel?: BookingChannel;
+  feeFor?: string;
+  // Fee read from the channel's payout report on import; editing the income never recalculates it
+  importedFee?: boolean;
+  // Occurrence of a recurring template; the key is the occurrence month ('YYYY-MM')
+  recurringId?: string;
+  occurrenceKey?: string;
+  reconciled?: boolean;
+  bankRef?: string;
+  updatedAt?: string;
+}
+
+export interface Booking {
+  id: string;
+  propertyId?: string;
+  checkIn: string;
+  checkOut: string;
+  guestName: string;
+  guestId?: string;
+  channel: BookingChannel;
+  grossAmount: number;
+  guests: number;
+  description?: string;
+  externalUid?: string;
+  updatedAt?: string;
+}
+
+export interface ChannelFeeRule {
+  // Commission over the gross booking value, in %
+  commissionPercent: number;
+  // Flat amount per booking or payout, in R$
+  fixedFee: number;
+}
+
+export type ChannelFeeRules = Record<BookingChannel, ChannelFeeRule>;
+
+// Monthly progressive income tax (IRPF) bracket
+export interface IrpfBracket {
+  // Upper limit of the monthly base in R$; null for the top bracket
+  upTo: number | null;
+  rate: number;
+  // Amount subtracted after applying the rate ("parcela a deduzir")
+  deduction: number;
+}
+
+export interface IrpfTable {
+  // First month the table is in force ('YYYY-MM')
+  effectiveFrom: string;
+  brackets: IrpfBracket[];
+}
+
+export type RecurringFrequency = 'monthly' | 'yearly' | 'custom';
+
+export interface RecurringTemplate {
+  id: string;
+  propertyId?: string;
+  type: TransactionType;
+  category: CategoryId;
+  amount: number;
+  description: string;
+  frequency: RecurringFrequency;
+  // Months between occurrences when frequency is 'custom'
+  intervalMonths: number;
+  startDate: string;
+  endDate?: string;
+  dayOfMonth: number;
+  // Occurrence keys the user chose to skip
+  skipped: string[];
+}
+
+// Monthly budget per expense category, in R$
+export type CategoryBudgets = Record<CategoryId, number>;
+
+export interface BlockedDate {
+  date: string;
+  propertyId?: string;
+  reason?: string;
+  externalUid?: string;
+  // Shared by the contiguous nights blocked by hand; the exported iCal event takes its UID from it
+  blockId?: string;
 }
 
 export interface FinancialSummary {
@@ -30,3 +181,12 @@ export interface FinancialSummary {
   balance: number;
   occupancyRate: number;
 }
+
+export interface OccupancyMetrics {
+  availableNights: number;
+  bookedNights: number;
+  occupancyRate: number;
+  roomRevenue: number;
+  adr: number;
+  revPar: number;
+}